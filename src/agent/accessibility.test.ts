@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { AccessibilityOptions, Venue } from "../types/index.js";
+import { describeAccessibilityCheck, getAccessibilityMatch } from "./accessibility.js";
+
+function makeVenue(accessibility?: AccessibilityOptions): Venue {
+  return {
+    name: "Palau de la Música",
+    placeId: "palau",
+    mapsUrl: "https://www.google.com/maps/place/?q=place_id:palau",
+    address: "",
+    location: { lat: 41.38, lng: 2.17 },
+    category: "activity",
+    ...(accessibility && { accessibility }),
+  };
+}
+
+const FULLY_ACCESSIBLE: AccessibilityOptions = {
+  wheelchairAccessibleEntrance: true,
+  wheelchairAccessibleSeating: true,
+  wheelchairAccessibleRestroom: true,
+};
+
+describe("getAccessibilityMatch", () => {
+  it("confirms a venue listing every feature the need calls for", () => {
+    expect(getAccessibilityMatch(makeVenue(FULLY_ACCESSIBLE), "wheelchair")).toBe("confirmed");
+    expect(getAccessibilityMatch(makeVenue({ wheelchairAccessibleEntrance: true }), "limited")).toBe(
+      "confirmed"
+    );
+  });
+
+  it("rules out a venue without a required feature", () => {
+    const venue = makeVenue({ ...FULLY_ACCESSIBLE, wheelchairAccessibleSeating: false });
+
+    expect(getAccessibilityMatch(venue, "wheelchair")).toBe("contradicted");
+    expect(getAccessibilityMatch(venue, "limited")).toBe("confirmed");
+  });
+
+  it("only leaves a missing restroom unverified", () => {
+    const venue = makeVenue({ ...FULLY_ACCESSIBLE, wheelchairAccessibleRestroom: false });
+
+    expect(getAccessibilityMatch(venue, "wheelchair")).toBe("unverified");
+  });
+
+  it("leaves venues without details unverified, and anything goes without a need", () => {
+    expect(getAccessibilityMatch(makeVenue(), "wheelchair")).toBe("unverified");
+    expect(getAccessibilityMatch(makeVenue({ wheelchairAccessibleEntrance: false }), "full")).toBe(
+      "confirmed"
+    );
+  });
+});
+
+describe("describeAccessibilityCheck", () => {
+  it("notes what is confirmed, missing and unknown", () => {
+    const venue = makeVenue({ wheelchairAccessibleEntrance: true, wheelchairAccessibleSeating: false });
+
+    expect(describeAccessibilityCheck(venue, "wheelchair")).toBe(
+      "Step-free entrance confirmed; no accessible seating listed; unverified, call ahead (accessible restroom)"
+    );
+  });
+
+  it("checks only the entrance for limited mobility", () => {
+    expect(describeAccessibilityCheck(makeVenue(FULLY_ACCESSIBLE), "limited")).toBe(
+      "Step-free entrance confirmed"
+    );
+    expect(describeAccessibilityCheck(makeVenue(), "limited")).toBe(
+      "Unverified, call ahead (step-free entrance)"
+    );
+  });
+
+  it("has nothing to say without mobility needs", () => {
+    expect(describeAccessibilityCheck(makeVenue(FULLY_ACCESSIBLE), "full")).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import type { AccessibilityOptions, Mobility, Venue } from "../types/index.js";
+
+// Access features each mobility need depends on - a venue without them is ruled out
+const REQUIRED_FEATURES: Record<Mobility, (keyof AccessibilityOptions)[]> = {
+  full: [],
+  limited: ["wheelchairAccessibleEntrance"],
+  wheelchair: ["wheelchairAccessibleEntrance", "wheelchairAccessibleSeating"],
+};
+
+// Access features worth confirming for each mobility need (required ones first)
+const CHECKED_FEATURES: Record<Mobility, (keyof AccessibilityOptions)[]> = {
+  full: [],
+  limited: ["wheelchairAccessibleEntrance"],
+  wheelchair: [
+    "wheelchairAccessibleEntrance",
+    "wheelchairAccessibleSeating",
+    "wheelchairAccessibleRestroom",
+  ],
+};
+
+// How each feature reads in a stop's note
+const FEATURE_LABELS: Record<keyof AccessibilityOptions, string> = {
+  wheelchairAccessibleEntrance: "step-free entrance",
+  wheelchairAccessibleSeating: "accessible seating",
+  wheelchairAccessibleRestroom: "accessible restroom",
+  wheelchairAccessibleParking: "accessible parking",
+};
+
+// How a venue's details compare with the party's mobility needs
+export type AccessibilityMatch = "confirmed" | "contradicted" | "unverified";
+
+/**
+ * Compare a venue's accessibility options with the party's mobility needs
+ *
+ * @returns "confirmed" only when every feature the need calls for is listed
+ */
+export function getAccessibilityMatch(venue: Venue, mobility: Mobility): AccessibilityMatch {
+  const options = venue.accessibility ?? {};
+  if (REQUIRED_FEATURES[mobility].some((feature) => options[feature] === false)) {
+    return "contradicted";
+  }
+  return CHECKED_FEATURES[mobility].every((feature) => options[feature] === true)
+    ? "confirmed"
+    : "unverified";
+}
+
+/**
+ * Note for a stop on what its details say about access
+ * e.g. "Step-free entrance confirmed" or "Unverified, call ahead (accessible restroom)"
+ *
+ * @returns undefined without mobility needs
+ */
+export function describeAccessibilityCheck(venue: Venue, mobility: Mobility): string | undefined {
+  const checked = CHECKED_FEATURES[mobility];
+  if (checked.length === 0) return undefined;
+
+  const options = venue.accessibility ?? {};
+  const listed = checked.filter((feature) => options[feature] === true);
+  const missing = checked.filter((feature) => options[feature] === false);
+  const unknown = checked.filter((feature) => options[feature] === undefined);
+  const labels = (features: (keyof AccessibilityOptions)[]) =>
+    features.map((feature) => FEATURE_LABELS[feature]).join(", ");
+
+  const parts: string[] = [];
+  if (listed.length > 0) parts.push(`${labels(listed)} confirmed`);
+  if (missing.length > 0) parts.push(`no ${labels(missing)} listed`);
+  if (unknown.length > 0) parts.push(`unverified, call ahead (${labels(unknown)})`);
+
+  const note = parts.join("; ");
+  return `${note.charAt(0).toUpperCase()}${note.slice(1)}`;
+}
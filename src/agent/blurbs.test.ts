@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { Plan, Stop } from "../types/index.js";
+import { applyBlurbs, getVenueFacts, validateBlurbs } from "./blurbs.js";
+import { MAX_BLURB_LENGTH } from "./llm.js";
+
+function makeStop(placeId: string, name: string): Stop {
+  return {
+    time: "20:00",
+    label: "Dinner",
+    venue: {
+      name,
+      placeId,
+      mapsUrl: `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+      address: "Carrer de la Princesa 5, 08003 Barcelona",
+      location: { lat: 41.38, lng: 2.17 },
+      category: "dinner",
+      rating: 4.6,
+      reviewCount: 1234,
+      priceLevel: 2,
+      editorialSummary: "Family-run tavern serving Catalan classics since 1924.",
+    },
+    estimatedCostRange: [25, 50],
+    whyItFits: "Great option with 4.6 rating",
+    travelFromPrevMins: 0,
+    durationMins: 90,
+    openCheck: "Standard (confirm hours in Maps)",
+  };
+}
+
+// Digits in the placeId and address must not ground invented numbers
+const stop = makeStop("ChIJ5a4b3c2d1", "Can Culleretes");
+const facts = new Map([[stop.venue.placeId, getVenueFacts(stop)]]);
+
+const blurb = (description: string, whyItFits: string = "Cosy and romantic.") => ({
+  blurbs: [{ placeId: stop.venue.placeId, description, whyItFits }],
+});
+
+describe("validateBlurbs", () => {
+  it("keeps blurbs quoting the venue's own numbers", () => {
+    const result = validateBlurbs(
+      blurb("  Rated 4.6 from 1,234 reviews, cooking since 1924.  ", " Cosy and romantic. "),
+      facts
+    );
+
+    expect(result).toEqual({
+      [stop.venue.placeId]: {
+        description: "Rated 4.6 from 1,234 reviews, cooking since 1924.",
+        whyItFits: "Cosy and romantic.",
+      },
+    });
+  });
+
+  it("drops an invented rating", () => {
+    expect(validateBlurbs(blurb("A 5-star favourite."), facts)).toEqual({});
+    expect(validateBlurbs(blurb("Rated 4.8 by locals."), facts)).toEqual({});
+  });
+
+  it("drops an invented price", () => {
+    expect(validateBlurbs(blurb("Set menu for €35 a head."), facts)).toEqual({});
+    expect(validateBlurbs(blurb("Tapas from €3."), facts)).toEqual({});
+  });
+
+  it("drops empty or over-long entries and venues we didn't ask about", () => {
+    const tooLong = "Charming. ".repeat(MAX_BLURB_LENGTH / 10 + 1);
+
+    expect(validateBlurbs(blurb(tooLong), facts)).toEqual({});
+    expect(validateBlurbs(blurb("Charming.", "   "), facts)).toEqual({});
+    const unknown = { placeId: "other", description: "Lovely.", whyItFits: "Quiet." };
+    expect(validateBlurbs({ blurbs: [unknown] }, facts)).toEqual({});
+  });
+
+  it("judges each entry on its own", () => {
+    const other = makeStop("ChIJother", "Els Quatre Gats");
+    const result = validateBlurbs(
+      {
+        blurbs: [
+          { placeId: stop.venue.placeId, description: "A 5-star favourite.", whyItFits: "Cosy." },
+          { placeId: other.venue.placeId, description: "Modernista café.", whyItFits: "Romantic." },
+        ],
+      },
+      new Map([...facts, [other.venue.placeId, getVenueFacts(other)]])
+    );
+
+    expect(Object.keys(result)).toEqual([other.venue.placeId]);
+  });
+});
+
+describe("applyBlurbs", () => {
+  it("puts blurbs on their stops and leaves the rest alone", () => {
+    const other = makeStop("ChIJother", "Els Quatre Gats");
+    const plan: Plan = { id: "A", title: "Old town", stops: [stop, other], backups: [], notes: [] };
+
+    const result = applyBlurbs(plan, {
+      [stop.venue.placeId]: { description: "Catalan classics since 1924.", whyItFits: "Cosy." },
+    });
+
+    expect(result.stops[0]).toEqual({
+      ...stop,
+      description: "Catalan classics since 1924.",
+      whyItFits: "Cosy.",
+    });
+    expect(result.stops[1]).toBe(other);
+  });
+});
@@ -0,0 +1,121 @@
+import type { Plan, Preferences, Stop, VenueBlurb } from "../types/index.js";
+import { MAX_BLURB_LENGTH, type Blurbs } from "./llm.js";
+
+// Numbers in a blurb (ratings, review counts, prices, years...), "1,200" read as one number
+const NUMBER = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+
+// Facts whose values a blurb may quote as numbers
+const NUMERIC_FACTS = ["rating", "reviewCount", "priceLevel"];
+
+// Facts whose text a blurb may take numbers from (e.g., "since 1920" in the summary)
+const TEXT_FACTS = ["name", "summary"];
+
+/**
+ * Everything an LLM blurb for a stop may draw on - the venue's data and why it was picked
+ */
+export function getVenueFacts(stop: Stop): Record<string, unknown> {
+  const { venue } = stop;
+  return {
+    placeId: venue.placeId,
+    name: venue.name,
+    stop: stop.label,
+    category: venue.category,
+    address: venue.address,
+    rating: venue.rating,
+    reviewCount: venue.reviewCount,
+    priceLevel: venue.priceLevel, // 0 (free) - 4 (very expensive)
+    summary: venue.editorialSummary,
+    requestedActivity: stop.request,
+    servesVegetarianFood: venue.servesVegetarianFood,
+    reservable: venue.reservable,
+    outdoorSeating: venue.outdoorSeating,
+    goodForChildren: venue.goodForChildren,
+    goodForGroups: venue.goodForGroups,
+    servesBeer: venue.servesBeer,
+    servesWine: venue.servesWine,
+    servesCocktails: venue.servesCocktails,
+  };
+}
+
+/**
+ * The outing in a few lines for the blurb prompt (vibes, likes, dietary needs, party)
+ */
+export function describeOuting(preferences: Preferences, partySize: number): string {
+  const list = (values: string[]) => (values.length > 0 ? values.join(", ") : "none given");
+  return [
+    `- Vibes: ${list(preferences.vibe)}`,
+    `- Likes: ${list(preferences.likes)}`,
+    `- Dietary: ${list(preferences.dietary)}`,
+    `- Party: ${partySize}${preferences.familyFriendly ? " (with kids)" : ""}${preferences.alcoholOk ? "" : ", no alcohol"}`,
+  ].join("\n");
+}
+
+// Check both sentences are there and short enough to scan
+function hasValidLength(blurb: VenueBlurb): boolean {
+  return [blurb.description, blurb.whyItFits].every(
+    (text) => text.length > 0 && text.length <= MAX_BLURB_LENGTH
+  );
+}
+
+// Numbers in a text, by value
+function getNumbers(text: string): number[] {
+  return (text.match(NUMBER) ?? []).map((n) => Number(n.replace(/,/g, "")));
+}
+
+// Numbers a blurb may quote: the venue's rating, review count and price level, and any
+// number in its name or summary
+function getFactNumbers(facts: Record<string, unknown>): Set<number> {
+  const numbers = new Set<number>();
+  for (const key of NUMERIC_FACTS) {
+    const value = facts[key];
+    if (typeof value === "number") numbers.add(value);
+  }
+  for (const key of TEXT_FACTS) {
+    const value = facts[key];
+    if (typeof value === "string") getNumbers(value).forEach((n) => numbers.add(n));
+  }
+  return numbers;
+}
+
+// Check a blurb only quotes numbers from the venue's data, by exact value (no invented
+// ratings or prices)
+function isGrounded(blurb: VenueBlurb, facts: Record<string, unknown>): boolean {
+  const allowed = getFactNumbers(facts);
+  return [blurb.description, blurb.whyItFits].every((text) =>
+    getNumbers(text).every((n) => allowed.has(n))
+  );
+}
+
+/**
+ * Keep the LLM's blurbs for venues we asked about that fit the length limit and whose
+ * numbers check out against their data - each entry is judged on its own
+ *
+ * @returns Blurbs by placeId (venues missing from the result keep the heuristic text)
+ */
+export function validateBlurbs(
+  result: Blurbs,
+  facts: Map<string, Record<string, unknown>>
+): Record<string, VenueBlurb> {
+  const valid: Record<string, VenueBlurb> = {};
+  for (const { placeId, description, whyItFits } of result.blurbs) {
+    const venueFacts = facts.get(placeId);
+    const blurb = { description: description.trim(), whyItFits: whyItFits.trim() };
+    if (venueFacts && hasValidLength(blurb) && isGrounded(blurb, venueFacts)) {
+      valid[placeId] = blurb;
+    }
+  }
+  return valid;
+}
+
+/**
+ * Put the blurbs on a plan's stops (stops without one keep their heuristic text)
+ */
+export function applyBlurbs(plan: Plan, blurbs: Record<string, VenueBlurb>): Plan {
+  return {
+    ...plan,
+    stops: plan.stops.map((stop) => {
+      const blurb = blurbs[stop.venue.placeId];
+      return blurb ? { ...stop, whyItFits: blurb.whyItFits, description: blurb.description } : stop;
+    }),
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { Plan, Stop, Venue } from "../types/index.js";
+import { buildBookingChecklist, type BookingContext } from "./booking.js";
+
+function makeStop(
+  time: string,
+  label: string,
+  venue: Partial<Venue> & Pick<Venue, "name" | "category">
+): Stop {
+  const placeId = venue.name.toLowerCase().replace(/\s+/g, "-");
+  return {
+    time,
+    label,
+    venue: {
+      placeId,
+      mapsUrl: `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+      address: "",
+      location: { lat: 41.38, lng: 2.17 },
+      ...venue,
+    },
+    estimatedCostRange: [20, 40],
+    whyItFits: "",
+    travelFromPrevMins: 0,
+    durationMins: 60,
+    openCheck: "Standard (confirm hours in Maps)",
+  };
+}
+
+function makePlan(stops: Stop[]): Plan {
+  return { id: "A", title: "Night out", stops, backups: [], notes: [] };
+}
+
+// A Friday evening for two
+const FRIDAY_FOR_TWO: BookingContext = { partySize: 2, dayOfWeek: 5, windowStart: "18:00" };
+const TUESDAY_FOR_TWO: BookingContext = { partySize: 2, dayOfWeek: 2, windowStart: "18:00" };
+
+describe("buildBookingChecklist", () => {
+  it("books a peak-time Friday dinner at a round time", () => {
+    const plan = makePlan([
+      makeStop("20:37", "Dinner", { name: "Cal Pep", category: "dinner", priceLevel: 3 }),
+    ]);
+
+    expect(buildBookingChecklist(plan, FRIDAY_FOR_TWO)).toEqual([
+      {
+        venue: "Cal Pep",
+        priority: "high",
+        note: "Book dinner for 2 at 20:30 - Fri evenings fill up, upscale spots rarely take walk-ins",
+      },
+    ]);
+  });
+
+  it("says to arrive early where reservations aren't taken", () => {
+    const plan = makePlan([
+      makeStop("21:00", "Dinner", { name: "Bar Cañete", category: "dinner", reservable: false }),
+    ]);
+
+    expect(buildBookingChecklist(plan, TUESDAY_FOR_TWO)[0]?.note).toBe(
+      "No reservations taken - arrive by 21:00 to get a table for 2"
+    );
+  });
+
+  it("counts stops after midnight on the next day", () => {
+    // Friday outing: a 00:30 stop is on Saturday
+    const plan = makePlan([makeStop("00:30", "Drinks", { name: "Paradiso", category: "drinks" })]);
+
+    expect(buildBookingChecklist(plan, FRIDAY_FOR_TWO)[0]?.note).toBe(
+      "Reserve a table at 00:30 - Sat nights get busy"
+    );
+  });
+
+  it("books ticketed activities but not parks", () => {
+    const plan = makePlan([
+      makeStop("18:00", "Activity", { name: "Museu Picasso", category: "activity" }),
+      makeStop("19:30", "Walk", { name: "Parc de la Ciutadella", category: "activity" }),
+    ]);
+
+    expect(buildBookingChecklist(plan, TUESDAY_FOR_TWO)).toEqual([
+      { venue: "Museu Picasso", priority: "medium", note: "Buy timed tickets online for 18:00" },
+    ]);
+  });
+
+  it("matches ticketed activities on whole words", () => {
+    const plan = makePlan([
+      makeStop("18:00", "Activity", { name: "Spanish Village", category: "activity" }),
+      makeStop("19:00", "Activity", { name: "Tesla Showroom", category: "activity" }),
+      makeStop("20:00", "Activity", { name: "Tourist Info Point", category: "activity" }),
+      makeStop("21:00", "Activity", { name: "Aire Ancient Baths Spa", category: "activity" }),
+    ]);
+
+    expect(buildBookingChecklist(plan, TUESDAY_FOR_TWO).map((item) => item.venue)).toEqual([
+      "Aire Ancient Baths Spa",
+    ]);
+  });
+
+  it("lists the most urgent stops first and leaves out quiet ones", () => {
+    const plan = makePlan([
+      makeStop("18:00", "Drinks", { name: "Bodega", category: "drinks", priceLevel: 1 }),
+      makeStop("19:00", "Activity", { name: "Bowling Barcelona", category: "activity" }),
+      makeStop("21:00", "Dinner", {
+        name: "Disfrutar",
+        category: "dinner",
+        priceLevel: 4,
+        reviewCount: 5000,
+      }),
+      makeStop("23:00", "Dessert", { name: "Gelateria", category: "dessert" }),
+    ]);
+
+    const checklist = buildBookingChecklist(plan, FRIDAY_FOR_TWO);
+    expect(checklist.map((item) => [item.venue, item.priority])).toEqual([
+      ["Disfrutar", "high"],
+      ["Bowling Barcelona", "medium"],
+    ]);
+  });
+
+  it("has big groups call ahead even where nothing needs booking", () => {
+    const plan = makePlan([makeStop("23:00", "Dessert", { name: "Gelateria", category: "dessert" })]);
+
+    expect(buildBookingChecklist(plan, { ...TUESDAY_FOR_TWO, partySize: 6 })).toEqual([
+      { venue: "Gelateria", priority: "low", note: "Call ahead for 6 at 23:00" },
+    ]);
+  });
+});
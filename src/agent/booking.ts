@@ -0,0 +1,179 @@
+import type { BookingChecklistItem, Plan, Stop } from "../types/index.js";
+
+// Day names for the notes (0 = Sunday, as resolveDayOfWeek returns)
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Evenings that fill up (Friday, Saturday)
+const BUSY_EVENINGS = [5, 6];
+
+// Local times (HH:MM) when restaurants and bars are at their busiest
+const PEAK_DINNER = { start: "19:30", end: "22:00" };
+const PEAK_DRINKS = { start: "21:00", end: "02:00" };
+
+// Reviews above this mean a place is popular enough to fill up
+const POPULAR_REVIEW_COUNT = 1000;
+
+// Activities sold as timed tickets or by the slot, with what to book
+const TICKETED_ACTIVITIES: { keywords: string[]; action: string }[] = [
+  { keywords: ["museum", "museu", "museo", "musée", "gallery"], action: "Buy timed tickets online" },
+  { keywords: ["escape"], action: "Book the room" },
+  { keywords: ["bowling"], action: "Reserve a lane" },
+  { keywords: ["cinema", "theater", "theatre", "concert", "show"], action: "Buy tickets in advance" },
+  { keywords: ["spa", "hammam"], action: "Book a slot" },
+  { keywords: ["zoo", "aquarium", "tour"], action: "Buy tickets online to skip the queue" },
+];
+
+// Check if a venue name has a keyword as a whole word (plural allowed) - "spa" must not
+// match "Spanish", nor "show" "Showroom"
+function hasKeyword(name: string, keyword: string): boolean {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${keyword}s?(?![\\p{L}\\p{N}])`, "u").test(name);
+}
+
+// Score at or above which booking is high / medium / low priority (below low: no item)
+const PRIORITY_SCORES = { high: 4, medium: 2, low: 1 };
+
+export interface BookingContext {
+  partySize: number;
+  dayOfWeek: number; // 0-6, Sunday-Saturday (the day the outing starts)
+  windowStart: string; // HH:MM - earlier stop times are after midnight
+}
+
+// Check if a time (HH:MM) falls in a window that may run past midnight
+function isInWindow(time: string, window: { start: string; end: string }): boolean {
+  return window.start <= window.end
+    ? time >= window.start && time <= window.end
+    : time >= window.start || time <= window.end;
+}
+
+// Round a time (HH:MM) to the nearest quarter hour - bookings are made for round times
+function toBookingTime(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const mins = (Math.round(((h ?? 0) * 60 + (m ?? 0)) / 15) * 15) % (24 * 60);
+  return `${Math.floor(mins / 60).toString().padStart(2, "0")}:${(mins % 60).toString().padStart(2, "0")}`;
+}
+
+// Score how much a stop needs booking, with the reasons to put in the note
+function scoreStop(
+  stop: Stop,
+  context: BookingContext
+): { score: number; action: string; reasons: string[] } | undefined {
+  const { venue } = stop;
+  const name = venue.name.toLowerCase();
+  const day = (context.dayOfWeek + (stop.time < context.windowStart ? 1 : 0)) % 7;
+  const busyEvening = BUSY_EVENINGS.includes(day);
+  const popular = (venue.reviewCount ?? 0) >= POPULAR_REVIEW_COUNT;
+  const priceLevel = venue.priceLevel ?? 2;
+  const at = toBookingTime(stop.time);
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (venue.category === "dinner") {
+    score = 2;
+    if (busyEvening && isInWindow(stop.time, PEAK_DINNER)) {
+      score += 1;
+      reasons.push(`${DAY_NAMES[day]} evenings fill up`);
+    }
+    if (priceLevel >= 3 && venue.reservable !== false) {
+      score += 1;
+      reasons.push("upscale spots rarely take walk-ins");
+    } else if (priceLevel <= 1) {
+      score -= 1;
+    }
+    if (context.partySize >= 6) {
+      score += 2;
+      reasons.push("large groups may need a set menu");
+    } else if (context.partySize >= 4) {
+      score += 1;
+      reasons.push(`tables for ${context.partySize} go first`);
+    }
+    if (popular) {
+      score += 1;
+      reasons.push(`very popular (${venue.reviewCount?.toLocaleString("en")} reviews)`);
+    }
+    return {
+      score,
+      action: venue.reservable === false
+        ? `No reservations taken - arrive by ${at} to get a table for ${context.partySize}`
+        : `Book ${stop.label.toLowerCase()} for ${context.partySize} at ${at}`,
+      reasons,
+    };
+  }
+
+  if (venue.category === "activity") {
+    const ticketed = TICKETED_ACTIVITIES.find((t) => t.keywords.some((k) => hasKeyword(name, k)));
+    if (!ticketed) return undefined; // Parks, viewpoints, walks - nothing to book
+    score = 2;
+    if (busyEvening || day === 0) {
+      score += 1;
+      reasons.push(`${DAY_NAMES[day]} slots sell out`);
+    }
+    if (context.partySize >= 4) {
+      score += 1;
+      reasons.push(`${context.partySize} people`);
+    }
+    if (popular) {
+      score += 1;
+      reasons.push(`very popular (${venue.reviewCount?.toLocaleString("en")} reviews)`);
+    }
+    return { score, action: `${ticketed.action} for ${at}`, reasons };
+  }
+
+  if (venue.category === "drinks") {
+    if (busyEvening && isInWindow(stop.time, PEAK_DRINKS)) {
+      score += 1;
+      reasons.push(`${DAY_NAMES[day]} nights get busy`);
+    }
+    if (context.partySize >= 4) {
+      score += 2;
+      reasons.push(`a table for ${context.partySize}`);
+    }
+    if (priceLevel >= 3 && venue.reservable !== false) {
+      score += 1;
+      reasons.push("cocktail bars often take reservations");
+    }
+    const action = venue.reservable === false
+      ? `No reservations taken - arrive by ${at}`
+      : `Reserve a table at ${at}`;
+    return { score, action, reasons };
+  }
+
+  // Dessert, scenic stops: only big groups need to call ahead
+  if (context.partySize >= 6) {
+    return {
+      score: PRIORITY_SCORES.low,
+      action: `Call ahead for ${context.partySize} at ${at}`,
+      reasons: [],
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Decide which of a plan's stops to book and how urgently, from the venue type,
+ * price level, party size, day and time of the visit and review volume
+ *
+ * @returns Items most urgent first (stops that need no booking are left out)
+ */
+export function buildBookingChecklist(plan: Plan, context: BookingContext): BookingChecklistItem[] {
+  const items: (BookingChecklistItem & { score: number })[] = [];
+
+  for (const stop of plan.stops) {
+    const scored = scoreStop(stop, context);
+    if (!scored || scored.score < PRIORITY_SCORES.low) continue;
+
+    const priority =
+      scored.score >= PRIORITY_SCORES.high
+        ? "high"
+        : scored.score >= PRIORITY_SCORES.medium
+          ? "medium"
+          : "low";
+    const note = scored.reasons.length > 0
+      ? `${scored.action} - ${scored.reasons.join(", ")}`
+      : scored.action;
+    items.push({ venue: stop.venue.name, priority, note, score: scored.score });
+  }
+
+  return items
+    .sort((a, b) => b.score - a.score)
+    .map(({ score: _, ...item }) => item);
+}
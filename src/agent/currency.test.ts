@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  budgetInEur,
+  convertAmount,
+  formatMoney,
+  formatMoneyRange,
+  formatPriceLevel,
+  getPriceLevelBand,
+  normalizeCurrency,
+} from "./currency.js";
+
+describe("normalizeCurrency", () => {
+  it("upper-cases known codes and falls back to EUR", () => {
+    expect(normalizeCurrency(" usd ")).toBe("USD");
+    expect(normalizeCurrency("XYZ")).toBe("EUR");
+    expect(normalizeCurrency(undefined)).toBe("EUR");
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts through the EUR rates", () => {
+    expect(convertAmount(100, "EUR", "USD")).toBeCloseTo(108);
+    expect(convertAmount(85, "GBP", "EUR")).toBeCloseTo(100);
+    expect(convertAmount(108, "USD", "GBP")).toBeCloseTo(85);
+  });
+
+  it("expresses budgets in EUR", () => {
+    expect(budgetInEur({ amount: 16000, currency: "JPY" })).toBeCloseTo(100);
+  });
+});
+
+describe("getPriceLevelBand", () => {
+  it("rounds converted bands to price tags", () => {
+    expect(getPriceLevelBand(2, "EUR")).toEqual([25, 50]);
+    expect(getPriceLevelBand(2, "USD")).toEqual([27, 54]);
+    expect(getPriceLevelBand(3, "JPY")).toEqual([8000, 16000]);
+  });
+
+  it("has no band for unknown levels", () => {
+    expect(getPriceLevelBand(5, "EUR")).toBeUndefined();
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats in the currency's locale without decimals", () => {
+    expect(formatMoney(80, "EUR")).toBe("€80");
+    expect(formatMoney(120.4, "USD")).toBe("$120");
+    expect(formatMoney(15000, "JPY")).toBe("¥15,000");
+  });
+});
+
+describe("formatMoneyRange", () => {
+  it("shows the symbol once on the locale's side", () => {
+    expect(formatMoneyRange([20, 30], "EUR")).toBe("€20-30");
+    expect(formatMoneyRange([20, 30], "EUR", "de-DE")).toBe("20-30\u00a0€");
+  });
+
+  it("collapses a range with equal ends", () => {
+    expect(formatMoneyRange([25, 25], "USD")).toBe("$25");
+  });
+});
+
+describe("formatPriceLevel", () => {
+  it("repeats the currency symbol", () => {
+    expect(formatPriceLevel(2, "EUR")).toBe("€€");
+    expect(formatPriceLevel(9, "USD")).toBe("$$$$");
+    expect(formatPriceLevel(0, "JPY")).toBe("¥");
+  });
+
+  it("describes the level without a one-character symbol", () => {
+    expect(formatPriceLevel(3, "CHF")).toBe("price level 3/4");
+  });
+});
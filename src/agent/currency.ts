@@ -0,0 +1,178 @@
+import type { Budget } from "../types/index.js";
+
+// Currency used when a request doesn't state one (or states one we don't know)
+export const DEFAULT_CURRENCY = "EUR";
+
+// Units of each currency per 1 EUR (approximate, updated by hand)
+// Only used to translate price bands and budget thresholds - never to quote prices
+const RATES_PER_EUR: Record<string, number> = {
+  EUR: 1,
+  USD: 1.08,
+  GBP: 0.85,
+  CHF: 0.95,
+  JPY: 160,
+  CNY: 7.8,
+  KRW: 1450,
+  SGD: 1.45,
+  HKD: 8.4,
+  THB: 39,
+  INR: 90,
+  AUD: 1.63,
+  NZD: 1.78,
+  CAD: 1.47,
+  MXN: 19.5,
+  BRL: 5.9,
+  SEK: 11.4,
+  NOK: 11.6,
+  DKK: 7.46,
+  PLN: 4.3,
+  CZK: 25,
+  HUF: 390,
+  TRY: 35,
+  ZAR: 20,
+  AED: 3.97,
+};
+
+// Locale used to format each currency (English output, local symbol placement)
+const CURRENCY_LOCALES: Record<string, string> = {
+  EUR: "en-IE",
+  USD: "en-US",
+  GBP: "en-GB",
+  CHF: "de-CH",
+  JPY: "en-JP",
+  AUD: "en-AU",
+  NZD: "en-NZ",
+  CAD: "en-CA",
+  SGD: "en-SG",
+  HKD: "en-HK",
+  INR: "en-IN",
+  ZAR: "en-ZA",
+};
+
+// Price level to EUR per person mapping (approximate)
+const PRICE_LEVEL_EUR: Record<number, [number, number]> = {
+  0: [0, 10],      // Free
+  1: [10, 25],     // Inexpensive
+  2: [25, 50],     // Moderate
+  3: [50, 100],    // Expensive
+  4: [100, 200],   // Very expensive
+};
+
+/**
+ * Check if we have an exchange rate for a currency code
+ */
+export function isSupportedCurrency(code: string): boolean {
+  return code.toUpperCase() in RATES_PER_EUR;
+}
+
+/**
+ * Normalize a currency code (e.g., "usd" -> "USD")
+ * Unknown codes fall back to DEFAULT_CURRENCY
+ */
+export function normalizeCurrency(code: string | undefined): string {
+  const upper = (code ?? "").trim().toUpperCase();
+  return isSupportedCurrency(upper) ? upper : DEFAULT_CURRENCY;
+}
+
+/**
+ * Convert an amount between currencies using the local rate table
+ */
+export function convertAmount(amount: number, from: string, to: string): number {
+  const fromRate = RATES_PER_EUR[normalizeCurrency(from)] ?? 1;
+  const toRate = RATES_PER_EUR[normalizeCurrency(to)] ?? 1;
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Express a budget in EUR (for thresholds tuned in euros)
+ */
+export function budgetInEur(budget: Budget): number {
+  return convertAmount(budget.amount, budget.currency, "EUR");
+}
+
+// Round to a "price tag" number: 2 significant digits (e.g., 27.3 -> 27, 4321 -> 4300)
+function roundToPriceTag(amount: number): number {
+  if (amount <= 0) return 0;
+  const magnitude = 10 ** Math.max(0, Math.floor(Math.log10(amount)) - 1);
+  return Math.round(amount / magnitude) * magnitude;
+}
+
+/**
+ * Per-person price band for a Google price level (0-4), in the given currency
+ */
+export function getPriceLevelBand(
+  priceLevel: number,
+  currency: string
+): [number, number] | undefined {
+  const band = PRICE_LEVEL_EUR[priceLevel];
+  if (!band) return undefined;
+  return [
+    roundToPriceTag(convertAmount(band[0], "EUR", currency)),
+    roundToPriceTag(convertAmount(band[1], "EUR", currency)),
+  ];
+}
+
+// Currency formatter for a code, in the currency's display locale unless overridden
+function getFormatter(currency: string, locale?: string): Intl.NumberFormat {
+  const code = normalizeCurrency(currency);
+  return new Intl.NumberFormat(locale ?? CURRENCY_LOCALES[code] ?? "en-US", {
+    style: "currency",
+    currency: code,
+    maximumFractionDigits: 0,
+  });
+}
+
+/**
+ * Format an amount for display (e.g., "€80", "$120", "¥15,000")
+ */
+export function formatMoney(amount: number, currency: string, locale?: string): string {
+  return getFormatter(currency, locale).format(amount);
+}
+
+/**
+ * Format a min-max range with the currency symbol shown once (e.g., "€20-30", "20-30 kr")
+ */
+export function formatMoneyRange(
+  range: [number, number],
+  currency: string,
+  locale?: string
+): string {
+  const [min, max] = range;
+  const formatter = getFormatter(currency, locale);
+  if (min === max) return formatter.format(min);
+
+  // Keep the symbol on whichever side the locale puts it
+  const parts = formatter.formatToParts(max);
+  const symbolFirst =
+    parts.findIndex((p) => p.type === "currency") <
+    parts.findIndex((p) => p.type === "integer");
+  const bare = (amount: number) =>
+    formatter
+      .formatToParts(amount)
+      .filter((p) => p.type !== "currency" && p.type !== "literal")
+      .map((p) => p.value)
+      .join("");
+
+  return symbolFirst
+    ? `${formatter.format(min)}-${bare(max)}`
+    : `${bare(min)}-${formatter.format(max)}`;
+}
+
+/**
+ * Price level as repeated currency symbols (e.g., 2 -> "€€", "$$", "¥¥")
+ * Currencies without a one-character symbol (e.g., CHF) get a plain description
+ */
+export function formatPriceLevel(priceLevel: number, currency: string): string {
+  const code = normalizeCurrency(currency);
+  const symbol = new Intl.NumberFormat(CURRENCY_LOCALES[code] ?? "en-US", {
+    style: "currency",
+    currency: code,
+    currencyDisplay: "narrowSymbol",
+  })
+    .formatToParts(0)
+    .find((p) => p.type === "currency")?.value;
+  const level = Math.max(1, Math.min(4, priceLevel));
+  return symbol && symbol.length === 1
+    ? symbol.repeat(level)
+    : `price level ${level}/4`;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasAbsoluteDate,
+  resolveRelativeDate,
+  resolveTimeInWindow,
+  resolveWindowInstants,
+  toInstant,
+} from "./dates.js";
+
+// Wednesday 2026-10-14, 12:00 in Madrid
+const WEDNESDAY = new Date("2026-10-14T10:00:00Z");
+const SUNDAY = new Date("2026-10-18T10:00:00Z");
+const MADRID = "Europe/Madrid";
+
+const resolve = (text: string, now: Date = WEDNESDAY) => resolveRelativeDate(text, MADRID, now)?.date;
+
+describe("resolveRelativeDate", () => {
+  it("resolves days relative to today", () => {
+    expect(resolve("something fun tonight")).toBe("2026-10-14");
+    expect(resolve("tomorrow evening")).toBe("2026-10-15");
+    expect(resolve("the day after tomorrow")).toBe("2026-10-16");
+    expect(resolve("in 3 days")).toBe("2026-10-17");
+    expect(resolve("in two weeks")).toBe("2026-10-28");
+  });
+
+  it("counts a bare or 'this' weekday from today and 'next' from after today", () => {
+    expect(resolve("saturday night")).toBe("2026-10-17");
+    expect(resolve("next saturday")).toBe("2026-10-17");
+    expect(resolve("this wednesday")).toBe("2026-10-14");
+    expect(resolve("next wednesday")).toBe("2026-10-21");
+  });
+
+  it("resolves weekends and next week", () => {
+    expect(resolve("this weekend")).toBe("2026-10-17");
+    expect(resolve("next weekend")).toBe("2026-10-24");
+    expect(resolve("next week")).toBe("2026-10-19");
+  });
+
+  it("treats a Sunday as this weekend already under way", () => {
+    expect(resolve("this weekend", SUNDAY)).toBe("2026-10-18");
+    expect(resolve("next weekend", SUNDAY)).toBe("2026-10-24");
+  });
+
+  it("takes today in the request timezone", () => {
+    const lateUtc = new Date("2026-10-14T23:30:00Z");
+    expect(resolveRelativeDate("today", MADRID, lateUtc)?.date).toBe("2026-10-15");
+    expect(resolveRelativeDate("today", "America/New_York", lateUtc)?.date).toBe("2026-10-14");
+  });
+
+  it("returns the phrase it matched and keeps literal dates", () => {
+    expect(resolveRelativeDate("Next Saturday please", MADRID, WEDNESDAY)).toEqual({
+      date: "2026-10-17",
+      expression: "next saturday",
+    });
+    expect(resolve("on 2026-11-02")).toBe("2026-11-02");
+  });
+
+  it("returns undefined without a date expression", () => {
+    expect(resolve("a romantic dinner")).toBeUndefined();
+  });
+});
+
+describe("hasAbsoluteDate", () => {
+  it("spots calendar dates", () => {
+    expect(hasAbsoluteDate("Saturday, March 14")).toBe(true);
+    expect(hasAbsoluteDate("the 14th of March")).toBe(true);
+    expect(hasAbsoluteDate("on 14/03")).toBe(true);
+    expect(hasAbsoluteDate("on the 14th")).toBe(true);
+    expect(hasAbsoluteDate("2026-03-14")).toBe(true);
+  });
+
+  it("ignores relative dates and times", () => {
+    expect(hasAbsoluteDate("next saturday")).toBe(false);
+    expect(hasAbsoluteDate("dinner at 19.30")).toBe(false);
+    expect(hasAbsoluteDate("in 3 days")).toBe(false);
+  });
+});
+
+describe("toInstant", () => {
+  it("converts local times across a DST change", () => {
+    expect(toInstant("2026-10-14", "19:00", MADRID)).toBe("2026-10-14T17:00:00.000Z");
+    expect(toInstant("2026-10-25", "19:00", MADRID)).toBe("2026-10-25T18:00:00.000Z");
+  });
+});
+
+describe("resolveWindowInstants", () => {
+  it("puts an end at or before the start on the next day", () => {
+    expect(resolveWindowInstants("2026-10-14", "20:00", "01:00", MADRID)).toEqual({
+      startsAt: "2026-10-14T18:00:00.000Z",
+      endsAt: "2026-10-14T23:00:00.000Z",
+    });
+  });
+
+  it("returns undefined for malformed input", () => {
+    expect(resolveWindowInstants("14/10/2026", "20:00", "23:00", MADRID)).toBeUndefined();
+    expect(resolveWindowInstants("2026-10-14", "8pm", "23:00", MADRID)).toBeUndefined();
+  });
+});
+
+describe("resolveTimeInWindow", () => {
+  it("puts times before the window start after midnight", () => {
+    expect(resolveTimeInWindow("2026-10-14", "20:00", "21:30", MADRID)).toBe("2026-10-14T19:30:00.000Z");
+    expect(resolveTimeInWindow("2026-10-14", "20:00", "00:30", MADRID)).toBe("2026-10-14T22:30:00.000Z");
+  });
+});
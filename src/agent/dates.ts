@@ -0,0 +1,245 @@
+import { getTodayInTimezone } from "./hours.js";
+
+// A relative date expression resolved to a local calendar date
+export interface ResolvedDate {
+  date: string; // YYYY-MM-DD in the request timezone
+  expression: string; // The phrase it was resolved from (e.g., "next saturday")
+}
+
+// Absolute start/end of the outing (ISO 8601, UTC)
+export interface WindowInstants {
+  startsAt: string;
+  endsAt: string;
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+const MONTHS =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+
+// Calendar dates: "march 14", "14th of march", "14/03", "the 14th", "2026-03-14"
+const ABSOLUTE_DATE_PATTERNS = [
+  new RegExp(`\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?\\b`),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?(?:${MONTHS})\\b`),
+  /\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/, // Not "19.30" - that's a time
+  /\bthe \d{1,2}(?:st|nd|rd|th)\b/,
+  /\b\d{4}-\d{2}-\d{2}\b/,
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Check if a string is a YYYY-MM-DD date
+ */
+export function isIsoDate(value: string | undefined): value is string {
+  return value !== undefined && ISO_DATE.test(value);
+}
+
+/**
+ * Check if text names a calendar date rather than only a relative one
+ * ("Saturday, March 14" does; "next Saturday" doesn't)
+ */
+export function hasAbsoluteDate(text: string): boolean {
+  const lower = text.toLowerCase();
+  return ABSOLUTE_DATE_PATTERNS.some((pattern) => pattern.test(lower));
+}
+
+/**
+ * Check if an IANA timezone name is recognised (e.g., "Europe/Madrid")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Local calendar dates carry no timezone, so UTC math is safe (and never crosses DST)
+function toUtcDate(date: string): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y ?? 1970, (m ?? 1) - 1, d ?? 1));
+}
+
+function addDays(date: string, days: number): string {
+  const next = toUtcDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0] ?? date;
+}
+
+function getWeekday(date: string): number {
+  return toUtcDate(date).getUTCDay();
+}
+
+// Days from today until a weekday (0 = today is that weekday)
+function daysUntil(today: string, weekday: number): number {
+  return (weekday - getWeekday(today) + 7) % 7;
+}
+
+/**
+ * Resolve a relative date expression to a calendar date in the request timezone
+ *
+ * Understands "today"/"tonight"/"this evening", "tomorrow", "the day after tomorrow",
+ * weekdays ("saturday", "this saturday", "next saturday"), "this weekend",
+ * "next weekend", "next week", "in 3 days", "in two weeks" and literal YYYY-MM-DD dates.
+ * A bare or "this" weekday includes today; "next <weekday>" is the first one after today.
+ *
+ * @param text - Free text containing the expression (e.g., the user's message)
+ * @param timezone - IANA timezone the expression is relative to
+ * @param now - Reference instant (defaults to the current time)
+ * @returns The resolved date, or undefined if no expression was recognised
+ */
+export function resolveRelativeDate(
+  text: string,
+  timezone: string,
+  now: Date = new Date()
+): ResolvedDate | undefined {
+  const lower = text.toLowerCase();
+  const today = getTodayInTimezone(timezone, now);
+  const resolved = (date: string, expression: string): ResolvedDate => ({ date, expression });
+
+  const literal = lower.match(/\b\d{4}-\d{2}-\d{2}\b/);
+  if (literal) return resolved(literal[0], literal[0]);
+
+  const dayAfter = lower.match(/\bday after tomorrow\b/);
+  if (dayAfter) return resolved(addDays(today, 2), dayAfter[0]);
+
+  const tomorrow = lower.match(/\btomorrow\b/);
+  if (tomorrow) return resolved(addDays(today, 1), tomorrow[0]);
+
+  const sameDay = lower.match(/\b(today|tonight|this (morning|afternoon|evening))\b/);
+  if (sameDay) return resolved(today, sameDay[0]);
+
+  const offset = lower.match(
+    /\bin (\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten) (day|week)s?\b/
+  );
+  if (offset?.[1] && offset[2]) {
+    const count = NUMBER_WORDS[offset[1]] ?? parseInt(offset[1], 10);
+    return resolved(addDays(today, offset[2] === "week" ? count * 7 : count), offset[0]);
+  }
+
+  // The weekend starts on Saturday (or is already under way on a Sunday)
+  const weekend = lower.match(/\b(this|next) weekend\b/);
+  if (weekend) {
+    const thisWeekend = getWeekday(today) === 0 ? today : addDays(today, daysUntil(today, 6));
+    if (weekend[1] === "this") return resolved(thisWeekend, weekend[0]);
+    const saturday = getWeekday(thisWeekend) === 0 ? addDays(thisWeekend, -1) : thisWeekend;
+    return resolved(addDays(saturday, 7), weekend[0]);
+  }
+
+  const weekday = lower.match(
+    /\b(?:(this|next|on) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/
+  );
+  if (weekday?.[2]) {
+    const days = daysUntil(today, WEEKDAYS.indexOf(weekday[2]));
+    const ahead = weekday[1] === "next" && days === 0 ? 7 : days;
+    return resolved(addDays(today, ahead), weekday[0]);
+  }
+
+  const nextWeek = lower.match(/\bnext week\b/);
+  if (nextWeek) {
+    const toMonday = daysUntil(today, 1) || 7;
+    return resolved(addDays(today, toMonday), nextWeek[0]);
+  }
+
+  return undefined;
+}
+
+// Offset (ms) of a timezone from UTC at an instant
+function getOffsetMs(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const localAsUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return localAsUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a local date and time (HH:MM) in an IANA timezone to a UTC instant (ISO 8601)
+ */
+export function toInstant(date: string, time: string, timezone: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const localAsUtc = toUtcDate(date).getTime() + ((h ?? 0) * 60 + (m ?? 0)) * 60_000;
+
+  // Guess with the offset at that wall time, then correct once for DST transitions
+  const guess = localAsUtc - getOffsetMs(localAsUtc, timezone);
+  return new Date(localAsUtc - getOffsetMs(guess, timezone)).toISOString();
+}
+
+/**
+ * Absolute start and end of a local time window on a date
+ * An end at or before the start is after midnight (the next day)
+ *
+ * @returns undefined if the date or times are malformed
+ */
+export function resolveWindowInstants(
+  date: string,
+  start: string,
+  end: string,
+  timezone: string
+): WindowInstants | undefined {
+  if (!isIsoDate(date) || !HH_MM.test(start) || !HH_MM.test(end)) return undefined;
+
+  const endDate = end <= start ? addDays(date, 1) : date;
+  return {
+    startsAt: toInstant(date, start, timezone),
+    endsAt: toInstant(endDate, end, timezone),
+  };
+}
+
+/**
+ * Absolute instant of a local time within a window that starts on a date
+ * Times earlier than the window start are after midnight (the next day)
+ *
+ * @returns undefined if the date or time is malformed
+ */
+export function resolveTimeInWindow(
+  date: string,
+  windowStart: string,
+  time: string,
+  timezone: string
+): string | undefined {
+  if (!isIsoDate(date) || !HH_MM.test(time)) return undefined;
+  return toInstant(time < windowStart ? addDays(date, 1) : date, time, timezone);
+}
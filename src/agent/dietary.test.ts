@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { Venue } from "../types/index.js";
+import { describeDietaryCheck, getDietaryMatch, isDietaryVerifiable } from "./dietary.js";
+
+function makeVenue(category: string, servesVegetarianFood?: boolean): Venue {
+  return {
+    name: "Teresa Carles",
+    placeId: "teresa-carles",
+    mapsUrl: "https://www.google.com/maps/place/?q=place_id:teresa-carles",
+    address: "",
+    location: { lat: 41.38, lng: 2.17 },
+    category,
+    ...(servesVegetarianFood !== undefined && { servesVegetarianFood }),
+  };
+}
+
+describe("isDietaryVerifiable", () => {
+  it("is true only for restrictions the vegetarian attribute speaks to", () => {
+    expect(isDietaryVerifiable(["Vegetarian "])).toBe(true);
+    expect(isDietaryVerifiable(["gluten-free", "vegan"])).toBe(true);
+    expect(isDietaryVerifiable(["gluten-free", "halal"])).toBe(false);
+    expect(isDietaryVerifiable([])).toBe(false);
+  });
+});
+
+describe("getDietaryMatch", () => {
+  it("confirms vegetarian requests at places serving vegetarian food", () => {
+    expect(getDietaryMatch(makeVenue("dinner", true), ["veggie"])).toBe("confirmed");
+  });
+
+  it("contradicts vegetarian and vegan requests at places without it", () => {
+    expect(getDietaryMatch(makeVenue("dinner", false), ["vegetarian"])).toBe("contradicted");
+    expect(getDietaryMatch(makeVenue("dinner", false), ["vegan"])).toBe("contradicted");
+  });
+
+  it("leaves what the details can't confirm unverified", () => {
+    expect(getDietaryMatch(makeVenue("dinner", true), ["vegan"])).toBe("unverified");
+    expect(getDietaryMatch(makeVenue("dinner", true), ["vegetarian", "gluten-free"])).toBe("unverified");
+    expect(getDietaryMatch(makeVenue("dinner"), ["vegetarian"])).toBe("unverified");
+    expect(getDietaryMatch(makeVenue("dinner", true), [])).toBe("unverified");
+  });
+});
+
+describe("describeDietaryCheck", () => {
+  it("notes what the details confirm and what to call ahead about", () => {
+    expect(describeDietaryCheck(makeVenue("dinner", true), ["vegetarian"])).toBe(
+      "Confirmed vegetarian options"
+    );
+    expect(describeDietaryCheck(makeVenue("dinner", true), ["vegan", "gluten-free"])).toBe(
+      "Confirmed vegetarian options; unverified, call ahead (vegan, gluten-free)"
+    );
+    expect(describeDietaryCheck(makeVenue("dinner"), ["Gluten-Free"])).toBe(
+      "Unverified, call ahead (gluten-free)"
+    );
+    expect(describeDietaryCheck(makeVenue("dinner", false), ["vegan"])).toBe(
+      "No vegetarian options listed, call ahead"
+    );
+  });
+
+  it("has nothing to say for other stops or without restrictions", () => {
+    expect(describeDietaryCheck(makeVenue("drinks", true), ["vegetarian"])).toBeUndefined();
+    expect(describeDietaryCheck(makeVenue("dinner", true), [" "])).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import type { Venue } from "../types/index.js";
+
+// Restrictions Place Details confirms with servesVegetarianFood
+const VEGETARIAN_RESTRICTIONS = ["vegetarian", "veggie"];
+
+// Restrictions a place without vegetarian food contradicts, but vegetarian options don't confirm
+// (Google lists no vegan attribute)
+const PLANT_BASED_RESTRICTIONS = ["vegan", "plant-based", "plant based"];
+
+// How a venue's details compare with the user's dietary restrictions
+export type DietaryMatch = "confirmed" | "contradicted" | "unverified";
+
+function normalize(dietary: string[]): string[] {
+  return dietary.map((r) => r.toLowerCase().trim()).filter(Boolean);
+}
+
+function needsVegetarian(restriction: string): boolean {
+  return (
+    VEGETARIAN_RESTRICTIONS.includes(restriction) ||
+    PLANT_BASED_RESTRICTIONS.includes(restriction)
+  );
+}
+
+/**
+ * Check if Place Details can confirm or contradict any of the restrictions
+ * (only then are dietary attributes worth requesting)
+ */
+export function isDietaryVerifiable(dietary: string[]): boolean {
+  return normalize(dietary).some(needsVegetarian);
+}
+
+/**
+ * Compare a venue's dietary attributes with the user's restrictions
+ *
+ * @returns "confirmed" only when every restriction is confirmed
+ */
+export function getDietaryMatch(venue: Venue, dietary: string[]): DietaryMatch {
+  const restrictions = normalize(dietary);
+  if (restrictions.some(needsVegetarian) && venue.servesVegetarianFood === false) {
+    return "contradicted";
+  }
+  const confirmed =
+    restrictions.length > 0 &&
+    restrictions.every((r) => VEGETARIAN_RESTRICTIONS.includes(r)) &&
+    venue.servesVegetarianFood === true;
+  return confirmed ? "confirmed" : "unverified";
+}
+
+/**
+ * Note for a dinner stop on what its details say about the restrictions
+ * e.g. "Confirmed vegetarian options" or "Unverified, call ahead (gluten-free)"
+ *
+ * @returns undefined for other stops, or without restrictions
+ */
+export function describeDietaryCheck(venue: Venue, dietary: string[]): string | undefined {
+  const restrictions = normalize(dietary);
+  if (venue.category !== "dinner" || restrictions.length === 0) return undefined;
+
+  if (getDietaryMatch(venue, restrictions) === "contradicted") {
+    return "No vegetarian options listed, call ahead";
+  }
+  // Vegetarian options are worth knowing about for a vegan request too
+  const vegetarian = venue.servesVegetarianFood === true && restrictions.some(needsVegetarian);
+  const unverified = vegetarian
+    ? restrictions.filter((r) => !VEGETARIAN_RESTRICTIONS.includes(r))
+    : restrictions;
+  if (unverified.length === 0) return "Confirmed vegetarian options";
+
+  const callAhead = `call ahead (${unverified.join(", ")})`;
+  return vegetarian
+    ? `Confirmed vegetarian options; unverified, ${callAhead}`
+    : `Unverified, ${callAhead}`;
+}
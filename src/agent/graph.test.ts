@@ -0,0 +1,182 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLocalVenueProvider, createLocalWeatherProvider } from "../providers/index.js";
+import {
+  configureCache,
+  type CallOptions,
+  type RoutesResult,
+  type TravelMode,
+} from "../tools/index.js";
+import { createGraph, type GraphStateType } from "./graph.js";
+import { REFINE_SYSTEM_PROMPT } from "./llm.js";
+import { isOutdoorVenue } from "./weather.js";
+
+// The LLM answers the parse prompt with PARSED, the refine prompt with the next refinement
+const PARSED = {
+  city: "Barcelona",
+  budgetAmount: 150,
+  budgetCurrency: "EUR",
+  dateResolved: "2026-10-24",
+  timeWindowStart: "18:00",
+  timeWindowEnd: "23:30",
+  requestedActivities: ["museum", "dinner"],
+  vibes: [],
+  likes: [],
+  dietary: [],
+  partySize: 2,
+  familyFriendly: false,
+  alcoholOk: true,
+  indoorsPreferred: false,
+  walkingTolerance: "medium",
+};
+let refinement: Record<string, unknown> = {};
+
+vi.mock("./llm.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./llm.js")>()),
+  createLLM: () => ({
+    invoke: async ([system]: { content: string }[]) => ({
+      content: JSON.stringify(
+        system?.content.startsWith(REFINE_SYSTEM_PROMPT.slice(0, 100)) ? refinement : PARSED
+      ),
+    }),
+  }),
+}));
+
+// Routes answers every leg with 7 minutes, and nothing from its (empty) cache
+vi.mock("../tools/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../tools/index.js")>()),
+  computeItineraryRoute: vi.fn(
+    async (stops: unknown[], mode: TravelMode, options: CallOptions = {}): Promise<RoutesResult> =>
+      options.cacheOnly
+        ? { error: "Route not cached and call budget is spent" }
+        : {
+            route: {
+              totalDistanceMeters: 0,
+              totalDurationSeconds: 0,
+              totalDurationMinutes: 0,
+              legs: stops.slice(1).map(() => ({
+                distanceMeters: 500,
+                durationSeconds: 420,
+                durationMinutes: 7,
+              })),
+              mode,
+            },
+          }
+  ),
+}));
+
+const venueProvider = createLocalVenueProvider({ path: "fixtures/venues/barcelona.sample.geojson" });
+const search = vi.spyOn(venueProvider, "search");
+const graph = createGraph({
+  venueProvider,
+  weatherProvider: createLocalWeatherProvider({ data: [] }),
+  llmBlurbs: false,
+  now: () => new Date("2026-10-20T10:00:00Z"),
+});
+
+const ask = (message: string, previous?: GraphStateType): Promise<GraphStateType> =>
+  graph.invoke({
+    ...previous,
+    messages: [...(previous?.messages ?? []), new HumanMessage(message)],
+  }) as Promise<GraphStateType>;
+
+beforeEach(() => {
+  configureCache({ enabled: false });
+  vi.stubEnv("OPENAI_API_KEY", "test"); // Checked before parsing - the LLM itself is mocked
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  search.mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("follow-up refinements", () => {
+  it("re-ranks a new budget without searching again", async () => {
+    const first = await ask("Museum then dinner in Barcelona");
+    expect(search).toHaveBeenCalled();
+    search.mockClear();
+
+    refinement = { kind: "change_budget", budgetAmount: 300 };
+    const refined = await ask("Make it 300 euros", first);
+
+    expect(search).not.toHaveBeenCalled();
+    expect(refined.budget).toEqual({ amount: 300, currency: "EUR" });
+    expect(refined.revision).toBe(2);
+    expect(refined.revisionNote).toBe("Budget changed to €300");
+    expect(refined.previousPlans).toEqual(first.plans);
+  });
+
+  it("searches only for a swapped-in activity", async () => {
+    const first = await ask("Museum then dinner in Barcelona");
+    search.mockClear();
+
+    refinement = { kind: "swap_stop", stopType: "activity", activity: "bowling" };
+    const refined = await ask("Bowling instead of the museum", first);
+
+    expect(search.mock.calls.map(([input]) => input.query)).toEqual([
+      "best bowling alley in Barcelona",
+    ]);
+    expect(refined.plans?.[0]?.stops.map((s) => s.request)).toEqual(["bowling", "dinner"]);
+    expect(refined.plans?.[0]?.stops[0]?.venue.name).toBe("Bowling Pedralbes");
+  });
+
+  it("rebuilds the plans without the dropped stop, no searches or details", async () => {
+    const first = await ask("Museum then dinner in Barcelona");
+    search.mockClear();
+    const details = vi.spyOn(venueProvider, "details");
+
+    refinement = { kind: "drop_stop", stopType: "activity", activity: "museum" };
+    const refined = await ask("Skip the museum", first);
+
+    expect(search).not.toHaveBeenCalled();
+    expect(details).not.toHaveBeenCalled();
+    expect(refined.plans?.[0]?.stops.map((s) => s.request)).toEqual(["dinner"]);
+    details.mockRestore();
+  });
+});
+
+describe("travel between stops", () => {
+  it("estimates every leg offline in standard mode, and says so", async () => {
+    const result = await ask("Museum then dinner in Barcelona");
+    const legs = result.plans?.flatMap((plan) => plan.stops.slice(1)) ?? [];
+
+    expect(legs.length).toBeGreaterThan(0);
+    expect(legs.every((stop) => stop.travelSource === "estimated")).toBe(true);
+    expect(result.messages.at(-1)?.content).toContain("Travel times are offline estimates");
+  });
+
+  it("routes legs live in verified mode while the budget allows", async () => {
+    const result = (await graph.invoke({
+      messages: [new HumanMessage("Museum then dinner in Barcelona")],
+      mode: "verified",
+    })) as GraphStateType;
+    const legs = result.plans?.flatMap((plan) => plan.stops.slice(1)) ?? [];
+
+    expect(result.callBudget?.routes).toBe(1);
+    expect(legs.some((stop) => stop.travelSource === "measured" && stop.travelFromPrevMins === 7)).toBe(
+      true
+    );
+    expect(result.messages.at(-1)?.content).not.toContain("Travel times are offline estimates");
+  });
+});
+
+describe("bad weather", () => {
+  const rainy = createGraph({
+    venueProvider,
+    weatherProvider: createLocalWeatherProvider({ path: "fixtures/weather/barcelona.rain.json" }),
+    llmBlurbs: false,
+    now: () => new Date("2026-10-20T10:00:00Z"),
+  });
+
+  it("keeps the plan indoors without changing the party's own preference", async () => {
+    const result = (await rainy.invoke({
+      messages: [new HumanMessage("Museum then dinner in Barcelona")],
+    })) as GraphStateType;
+
+    expect(result.weather?.condition).toBe("rain");
+    expect(result.preferences?.indoorsPreferred).toBe(false);
+    expect(result.plans?.[0]?.stops.filter((s) => isOutdoorVenue(s.venue))).toEqual([]);
+    expect(result.messages.at(-1)?.content).toContain("the plan keeps you indoors");
+  });
+});
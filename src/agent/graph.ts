@@ -10,6 +10,7 @@ import type {
   Budget,
   Preferences,
   CallBudget,
+  CacheStats,
   CandidatePools,
   Plan,
   SwapMenuItem,
@@ -18,47 +19,155 @@ import type {
   Skeleton,
   Venue,
   Mode,
+  Location,
+  CallBudgetTier,
+  SkeletonSlot,
+  SlotType,
+  PlanOutput,
+  TravelMode,
+  Forecast,
+  VenueBlurb,
 } from "../types/index.js";
+import { SlotTypeSchema, PlanOutputSchema } from "../types/index.js";
 import {
-  googlePlacesSearch,
-  getCityCenter,
-  geocodeCity,
-  buildSearchQuery,
-  googlePlaceDetails,
   computeItineraryRoute,
+  type PlaceDetails,
   isTravelTimeAcceptable,
+  getCallBudgetTier,
+  canMakeCall,
+  budgetedCall,
+  formatBudgetUsage,
+  getRemainingBudget,
+  isApiKeyRequired,
+  type CallLedger,
+  type ForecastResult,
 } from "../tools/index.js";
 import {
   createLLM,
+  formatBlurbPrompt,
   formatParsePrompt,
+  formatRefinePrompt,
   formatUserPrompt,
+  BlurbsSchema,
   ParsedRequestSchema,
+  RefinementSchema,
+  type Refinement,
 } from "./llm.js";
 import {
   buildSkeleton as createSkeleton,
   getBudgetForSlot,
+  retimeSkeleton,
+  fitSkeletonToRequest,
+  getSlotTypeForActivity,
+  normalizeRequest,
+  addSlot,
+  removeSlots,
+  swapSlotRequest,
+  toIndoorSkeleton,
 } from "./skeleton.js";
-import { rankVenues, selectBestVenues } from "./ranking.js";
+import {
+  rankVenues,
+  selectBestVenues,
+  listPools,
+  mapPools,
+  getSlotPool,
+  calculateDistance,
+  calculateItineraryDistance,
+  type TravelEstimate,
+} from "./ranking.js";
+import {
+  normalizeCurrency,
+  isSupportedCurrency,
+  formatMoney,
+  formatMoneyRange,
+  formatPriceLevel,
+} from "./currency.js";
+import { resolveDayOfWeek, isVenueOpenAtArrival, getTodayInTimezone } from "./hours.js";
+import {
+  resolveRelativeDate,
+  resolveWindowInstants,
+  resolveTimeInWindow,
+  isIsoDate,
+  hasAbsoluteDate,
+  isValidTimezone,
+} from "./dates.js";
+import { reflowPlan } from "./timeline.js";
+import { optimiseStopOrder, type OrderingOptions } from "./ordering.js";
+import { planSearchJobs, splitByRequest } from "./search.js";
+import {
+  createTravelLookup,
+  chooseLegMode,
+  estimateTravelMins,
+  getLegKey,
+  getTravelCalibration,
+  type TravelContext,
+  type TravelLookup,
+} from "./travel.js";
+import { buildBookingChecklist } from "./booking.js";
+import { applyBlurbs, describeOuting, getVenueFacts, validateBlurbs } from "./blurbs.js";
+import { describeDietaryCheck, getDietaryMatch, isDietaryVerifiable } from "./dietary.js";
+import { describeAccessibilityCheck, getAccessibilityMatch } from "./accessibility.js";
+import {
+  describeForecast,
+  describeWeatherNote,
+  isBadWeather,
+  isIndoorVenue,
+  isOutdoorRequest,
+  isOutdoorVenue,
+} from "./weather.js";
+import {
+  buildBudgetBreakdown,
+  describePlanBudget,
+  PRICE_LEVEL_MULTIPLIERS,
+} from "./spending.js";
+import {
+  buildPlanOutput,
+  getRouteUrl,
+  getDirectionsUrl,
+  getPerPersonTotal,
+} from "./output.js";
+import {
+  createVenueProviderFromEnv,
+  createWeatherProviderFromEnv,
+  type VenueProvider,
+  type WeatherProvider,
+} from "../providers/index.js";
 
 // Default values for state initialization
 const DEFAULT_CALL_BUDGET: CallBudget = {
   placesSearch: 0,
+  geocode: 0,
   placeDetails: 0,
+  placeHours: 0,
   routes: 0,
+  forecast: 0,
+};
+const DEFAULT_CACHE_STATS: CacheStats = {
+  placesSearch: { hits: 0, misses: 0 },
+  geocode: { hits: 0, misses: 0 },
+  placeDetails: { hits: 0, misses: 0 },
+  placeHours: { hits: 0, misses: 0 },
+  routes: { hits: 0, misses: 0 },
+  forecast: { hits: 0, misses: 0 },
 };
 const DEFAULT_CANDIDATE_POOLS: CandidatePools = {
+  drinks: [],
   activity: [],
   dinner: [],
-  finish: [],
+  dessert: [],
+  scenic: [],
+  requested: {},
 };
 const DEFAULT_PREFERENCES: Preferences = {
   vibe: [],
   dietary: [],
   alcoholOk: true,
   walking: "medium",
+  mobility: "full",
   indoorsPreferred: false,
   likes: [],
   familyFriendly: false,
+  cycling: false,
 };
 
 // Define the state annotation for LangGraph
@@ -76,6 +185,8 @@ export const GraphState = Annotation.Root({
   dateContext: Annotation<string>(),
   dateResolved: Annotation<string | undefined>(),
   timeWindow: Annotation<string | undefined>(),
+  startsAt: Annotation<string | undefined>(),
+  endsAt: Annotation<string | undefined>(),
   budget: Annotation<Budget>(),
   partySize: Annotation<number>(),
   preferences: Annotation<Preferences>(),
@@ -90,17 +201,28 @@ export const GraphState = Annotation.Root({
   skeleton: Annotation<Skeleton | undefined>(),
   candidatePools: Annotation<CandidatePools>(),
   selectedVenues: Annotation<Record<string, Venue>>(),
+  detailedVenues: Annotation<Record<string, Venue>>(),
+  refreshSlots: Annotation<string[]>(),
   travelTimes: Annotation<Record<string, number>>(),
+  travelCalibration: Annotation<number>(),
+  weather: Annotation<Forecast | undefined>(),
+  blurbs: Annotation<Record<string, VenueBlurb>>(),
 
   // Output fields
   plans: Annotation<Plan[]>(),
+  previousPlans: Annotation<Plan[]>(),
+  revision: Annotation<number>(),
+  revisionNote: Annotation<string | undefined>(),
   budgetBreakdown: Annotation<BudgetBreakdown | undefined>(),
   bookingChecklist: Annotation<BookingChecklistItem[]>(),
   swapMenu: Annotation<SwapMenuItem[]>(),
   callBudget: Annotation<CallBudget>(),
+  cacheStats: Annotation<CacheStats>(),
+  output: Annotation<PlanOutput | undefined>(),
 
   // Control flow
   error: Annotation<string | undefined>(),
+  rerunFrom: Annotation<string | undefined>(),
 });
 
 export type GraphStateType = typeof GraphState.State;
@@ -196,6 +318,33 @@ async function initializeState(
   const userMessage = extractUserMessage(state);
   console.log("[initializeState] Extracted user message:", userMessage);
 
+  // Keep the caller's timezone - relative dates ("tomorrow") are resolved in it
+  const timezone = state.timezone && isValidTimezone(state.timezone) ? state.timezone : "UTC";
+  if (state.timezone && timezone !== state.timezone) {
+    console.log(`[initializeState] Unknown timezone "${state.timezone}", using UTC`);
+  }
+
+  // Plans from an earlier turn in this thread - refine_request decides what to re-run
+  if ((state.plans?.length ?? 0) > 0 && state.city) {
+    console.log("[initializeState] Follow-up message - keeping existing plans and pools");
+    return {
+      query: userMessage,
+      timezone,
+      callBudget: DEFAULT_CALL_BUDGET,
+      cacheStats: DEFAULT_CACHE_STATS,
+      error: undefined,
+    };
+  }
+
+  return getNewRequestState(state, userMessage, timezone);
+}
+
+// Helper to reset the state for a new request (intakeParse fills it from the message)
+function getNewRequestState(
+  state: GraphStateType,
+  userMessage: string,
+  timezone: string,
+): Partial<GraphStateType> {
   // Store the user message in query field for intakeParse to use
   return {
     query: userMessage,
@@ -207,19 +356,30 @@ async function initializeState(
     mode: state.mode ?? "standard",
     paid: state.paid ?? true,
     preferences: DEFAULT_PREFERENCES,
-    timezone: "UTC",
+    timezone,
 
     // User's specific requested activities - will be populated by intakeParse
     requestedActivities: [],
 
     // Reset processing fields
-    callBudget: { placesSearch: 0, placeDetails: 0, routes: 0 },
-    candidatePools: { activity: [], dinner: [], finish: [] },
+    callBudget: DEFAULT_CALL_BUDGET,
+    cacheStats: DEFAULT_CACHE_STATS,
+    candidatePools: DEFAULT_CANDIDATE_POOLS,
     selectedVenues: {},
+    detailedVenues: {},
+    refreshSlots: [],
     travelTimes: {},
+    travelCalibration: 1,
+    weather: undefined,
+    blurbs: {},
     plans: [],
+    previousPlans: [],
+    revision: 1,
+    revisionNote: undefined,
+    rerunFrom: undefined,
     swapMenu: [],
     bookingChecklist: [],
+    budgetBreakdown: undefined,
     messages: [],
     error: undefined,
   };
@@ -227,6 +387,7 @@ async function initializeState(
 
 async function intakeParse(
   state: GraphStateType,
+  deps: GraphDeps,
 ): Promise<Partial<GraphStateType>> {
   const userMessage = state.query ?? "";
 
@@ -238,15 +399,17 @@ async function intakeParse(
     return { error: "No user message provided" };
   }
 
-  // Check if we have an LLM API key (xAI or OpenAI)
-  if (!process.env.XAI_API_KEY && !process.env.OPENAI_API_KEY) {
+  // Check if we have an LLM API key (xAI or OpenAI) - a replayed run doesn't need one
+  if (!process.env.XAI_API_KEY && !process.env.OPENAI_API_KEY && isApiKeyRequired()) {
     console.log("[intakeParse] No XAI_API_KEY or OPENAI_API_KEY, cannot parse");
     return { error: "LLM API key not configured (set XAI_API_KEY or OPENAI_API_KEY)" };
   }
 
   try {
     const llm = createLLM();
-    const systemPrompt = formatParsePrompt("UTC");
+    const timezone = state.timezone ?? "UTC";
+    const now = deps.now();
+    const systemPrompt = formatParsePrompt(timezone, now);
 
     console.log("[intakeParse] Sending to OpenAI:", userMessage);
 
@@ -294,6 +457,7 @@ async function intakeParse(
     console.log("[intakeParse] Alcohol OK:", result.alcoholOk);
     console.log("[intakeParse] Family friendly:", result.familyFriendly);
     console.log("[intakeParse] Party size:", result.partySize);
+    console.log("[intakeParse] Mobility:", result.mobility);
     console.log("[intakeParse] Requested activities:", result.requestedActivities);
 
     // Build preferences from extracted data
@@ -303,15 +467,64 @@ async function intakeParse(
       likes: result.likes,
       alcoholOk: result.alcoholOk,
       walking: result.walkingTolerance,
+      mobility: result.mobility,
       indoorsPreferred: result.indoorsPreferred,
       familyFriendly: result.familyFriendly,
+      cycling: result.cycling,
     };
 
+    // Unknown currencies fall back to EUR (we have no exchange rate for them)
+    if (!isSupportedCurrency(result.budgetCurrency)) {
+      console.log(
+        `[intakeParse] Unsupported currency "${result.budgetCurrency}", using EUR`,
+      );
+    }
+
+    // Resolve relative dates in code - a calendar date the user named ("Saturday, March 14")
+    // is left to the LLM, or the resolver would read it as the coming Saturday
+    const namedDate =
+      isIsoDate(result.dateResolved) &&
+      (hasAbsoluteDate(result.dateExpression) || hasAbsoluteDate(userMessage));
+    const resolvedDate = namedDate
+      ? undefined
+      : resolveRelativeDate(result.dateExpression, timezone, now) ??
+        resolveRelativeDate(userMessage, timezone, now);
+    let dateResolved = result.dateResolved;
+    if (resolvedDate) {
+      if (resolvedDate.date !== result.dateResolved) {
+        console.log(
+          `[intakeParse] "${resolvedDate.expression}" is ${resolvedDate.date} in ${timezone}, not ${result.dateResolved} - using ${resolvedDate.date}`,
+        );
+      }
+      dateResolved = resolvedDate.date;
+    } else if (!isIsoDate(dateResolved)) {
+      dateResolved = getTodayInTimezone(timezone, now);
+      console.log(
+        `[intakeParse] Invalid date "${result.dateResolved}", using today (${dateResolved})`,
+      );
+    }
+
+    // Absolute instants for opening hours and transit departure times
+    const instants = resolveWindowInstants(
+      dateResolved,
+      result.timeWindowStart,
+      result.timeWindowEnd,
+      timezone,
+    );
+    console.log(
+      `[intakeParse] Window: ${instants ? `${instants.startsAt} - ${instants.endsAt}` : "unresolved"} (${timezone})`,
+    );
+
     return {
       city: result.city,
-      budget: { amount: result.budgetAmount, currency: result.budgetCurrency },
-      dateResolved: result.dateResolved,
+      budget: {
+        amount: result.budgetAmount,
+        currency: normalizeCurrency(result.budgetCurrency),
+      },
+      dateResolved,
       timeWindow: `${result.timeWindowStart}-${result.timeWindowEnd}`,
+      startsAt: instants?.startsAt,
+      endsAt: instants?.endsAt,
       partySize: result.partySize,
       preferences,
       requestedActivities: result.requestedActivities ?? [],
@@ -323,6 +536,261 @@ async function intakeParse(
   }
 }
 
+// Nodes a refinement can resume the pipeline from
+type RerunNode =
+  | "intake_parse"
+  | "check_weather"
+  | "search_slots"
+  | "rank_cluster"
+  | "select_finalists"
+  | "generate_variants"
+  | "adjust_timeline";
+
+// A refinement applied to the current state
+interface RefinementChange {
+  update: Partial<GraphStateType>;
+  rerunFrom: RerunNode;
+  note: string;
+}
+
+// Helper to summarize the current plan for the refinement prompt
+function describeCurrentPlan(state: GraphStateType): string {
+  const budget = state.budget ?? { amount: 100, currency: "EUR" };
+  const stops = (state.plans?.[0]?.stops ?? [])
+    .map((s) => `${s.time} ${s.label} (${s.venue.category}): ${s.venue.name}`)
+    .join("; ");
+  return [
+    `City: ${state.city}`,
+    `Date: ${state.dateResolved ?? "today"}`,
+    `Time window: ${state.timeWindow ?? "evening"}`,
+    `Budget: ${formatMoney(budget.amount, budget.currency)} for ${state.partySize ?? 2} people`,
+    `Stops: ${stops || "none"}`,
+  ].join("\n");
+}
+
+// Helper to apply a classified follow-up to the state
+// Returns undefined when the change can't be applied to the current plan
+function applyRefinement(
+  state: GraphStateType,
+  refinement: Refinement,
+  now: Date,
+): RefinementChange | undefined {
+  const timezone = state.timezone ?? "UTC";
+  const skeleton = state.skeleton;
+  const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const requestedActivities = state.requestedActivities ?? [];
+  const type = refinement.stopType || undefined;
+  const { start, end } = resolveTimeWindow(state);
+
+  switch (refinement.kind) {
+    case "change_date": {
+      const namedDate =
+        isIsoDate(refinement.dateResolved) &&
+        (hasAbsoluteDate(refinement.dateExpression) || hasAbsoluteDate(state.query ?? ""));
+      const resolved = namedDate
+        ? undefined
+        : resolveRelativeDate(refinement.dateExpression, timezone, now) ??
+          resolveRelativeDate(state.query ?? "", timezone, now);
+      const date =
+        resolved?.date ?? (isIsoDate(refinement.dateResolved) ? refinement.dateResolved : undefined);
+      if (!date) return undefined;
+      const instants = resolveWindowInstants(date, start, end, timezone);
+      return {
+        // The forecast was for the old date - check_weather fetches the new one
+        update: {
+          dateResolved: date,
+          startsAt: instants?.startsAt,
+          endsAt: instants?.endsAt,
+          weather: undefined,
+        },
+        rerunFrom: "check_weather",
+        note: `Moved to ${date}`,
+      };
+    }
+
+    case "change_time": {
+      const newStart = refinement.timeWindowStart || start;
+      const newEnd = refinement.timeWindowEnd || end;
+      if (!/^\d{2}:\d{2}$/.test(newStart) || !/^\d{2}:\d{2}$/.test(newEnd)) return undefined;
+      const instants = resolveWindowInstants(state.dateResolved ?? "", newStart, newEnd, timezone);
+      return {
+        update: {
+          timeWindow: `${newStart}-${newEnd}`,
+          startsAt: instants?.startsAt,
+          endsAt: instants?.endsAt,
+          weather: undefined,
+          skeleton: skeleton
+            ? retimeSkeleton({ ...skeleton, timeWindow: { start: newStart, end: newEnd } }, [])
+            : undefined,
+        },
+        rerunFrom: "check_weather",
+        note: `Time window changed to ${newStart}-${newEnd}`,
+      };
+    }
+
+    case "change_budget": {
+      if (refinement.budgetAmount <= 0) return undefined;
+      const budget = { ...(state.budget ?? { amount: 100, currency: "EUR" }), amount: refinement.budgetAmount };
+      return {
+        update: {
+          budget,
+          skeleton: skeleton ? { ...skeleton, totalBudget: budget.amount } : undefined,
+        },
+        rerunFrom: "rank_cluster",
+        note: `Budget changed to ${formatMoney(budget.amount, budget.currency)}`,
+      };
+    }
+
+    case "drop_stop": {
+      if (!type || !skeleton) return undefined;
+      // A specific requested activity ("drop the bowling") or every stop of the type
+      const request = refinement.activity ? normalizeRequest(refinement.activity) : undefined;
+      const byRequest = request !== undefined && skeleton.slots.some((s) => s.request === request);
+      const matches = (slot: SkeletonSlot) =>
+        byRequest ? slot.request === request : slot.type === type;
+      if (!skeleton.slots.some(matches)) return undefined;
+      const dropped = new Set(skeleton.slots.filter(matches).map((s) => s.request));
+      return {
+        update: {
+          skeleton: removeSlots(skeleton, matches),
+          requestedActivities: requestedActivities.filter(
+            (a) => !dropped.has(normalizeRequest(a)),
+          ),
+        },
+        rerunFrom: "generate_variants",
+        note: `Dropped the ${request ?? type} stop`,
+      };
+    }
+
+    case "add_stop": {
+      const addType = type ?? (refinement.activity ? getSlotTypeForActivity(refinement.activity) : undefined);
+      if (!addType || !skeleton) return undefined;
+      const request = refinement.activity || undefined;
+      const key = request ? normalizeRequest(request) : undefined;
+      // Search only if there are no candidates for the new stop yet
+      const needsSearch = getSlotPool(pools, { type: addType, request: key }).length === 0;
+      return {
+        update: {
+          skeleton: addSlot(skeleton, addType, request),
+          requestedActivities: request ? [...requestedActivities, request] : requestedActivities,
+          refreshSlots: needsSearch ? [addType === "activity" && key ? key : addType] : [],
+        },
+        rerunFrom: needsSearch ? "search_slots" : "generate_variants",
+        note: `Added ${request ?? addType}`,
+      };
+    }
+
+    case "swap_stop": {
+      if (!type || !skeleton) return undefined;
+
+      // Another activity ("bowling instead of the museum") gets its own search
+      if (type === "activity" && refinement.activity) {
+        const request = normalizeRequest(refinement.activity);
+        const previous = skeleton.slots.find((s) => s.type === "activity")?.request;
+        return {
+          update: {
+            skeleton: swapSlotRequest(skeleton, "activity", refinement.activity),
+            requestedActivities: [
+              ...requestedActivities.filter((a) => normalizeRequest(a) !== previous),
+              refinement.activity,
+            ],
+            refreshSlots: [request],
+          },
+          rerunFrom: "search_slots",
+          note: `Swapped the activity for ${request}`,
+        };
+      }
+
+      // Dietary needs ("something vegan") change the search for that stop
+      if (refinement.dietary.length > 0) {
+        const preferences = state.preferences ?? DEFAULT_PREFERENCES;
+        const dietary = [...new Set([...preferences.dietary, ...refinement.dietary])];
+        return {
+          update: { preferences: { ...preferences, dietary }, refreshSlots: [type] },
+          rerunFrom: "search_slots",
+          note: `Swapped ${type} for a ${refinement.dietary.join("/")} option`,
+        };
+      }
+
+      // Same kind of stop, different venue - take the current picks out of the pools
+      const current = new Set(
+        (state.plans?.[0]?.stops ?? [])
+          .filter((s) => s.venue.category === type)
+          .map((s) => s.venue.placeId),
+      );
+      const without = (venues: Venue[]) => venues.filter((v) => !current.has(v.placeId));
+      const requested = Object.fromEntries(
+        Object.entries(pools.requested).map(([key, venues]) => [
+          key,
+          type === "activity" ? without(venues) : venues,
+        ]),
+      );
+      return {
+        update: { candidatePools: { ...pools, [type]: without(pools[type]), requested } },
+        rerunFrom: "select_finalists",
+        note: `Swapped the ${type} stop for another option`,
+      };
+    }
+
+    case "new_request":
+      return undefined;
+  }
+}
+
+// Refine the plans from an earlier turn, re-running only what the change affects
+async function refineRequest(
+  state: GraphStateType,
+  deps: GraphDeps,
+): Promise<Partial<GraphStateType>> {
+  const userMessage = state.query ?? "";
+  const timezone = state.timezone ?? "UTC";
+  const now = deps.now();
+  console.log("[refineRequest] Follow-up message:", userMessage);
+
+  // Classify the change - anything we can't read is planned from scratch
+  let refinement: Refinement | undefined;
+  try {
+    const llm = createLLM();
+    const response = await llm.invoke([
+      { role: "system", content: formatRefinePrompt(describeCurrentPlan(state), timezone, now) },
+      { role: "user", content: formatUserPrompt(userMessage) },
+    ]);
+    const content = typeof response.content === "string" ? response.content : "";
+    console.log("[refineRequest] LLM response:", content);
+
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    const parsed = jsonMatch
+      ? RefinementSchema.safeParse(JSON.parse(jsonMatch[0]))
+      : undefined;
+    if (parsed?.success) {
+      refinement = parsed.data;
+    } else {
+      console.log("[refineRequest] Could not classify follow-up:", parsed?.error.message ?? "no JSON");
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.log("[refineRequest] Error:", message);
+  }
+
+  const change = refinement ? applyRefinement(state, refinement, now) : undefined;
+  if (!change) {
+    console.log(`[refineRequest] ${refinement?.kind ?? "Unclassified"} - planning from scratch`);
+    return { ...getNewRequestState(state, userMessage, timezone), rerunFrom: "intake_parse" };
+  }
+
+  const revision = (state.revision ?? 1) + 1;
+  console.log(
+    `[refineRequest] ${refinement?.kind}: ${change.note} (revision ${revision}, re-running from ${change.rerunFrom})`,
+  );
+  return {
+    ...change.update,
+    previousPlans: state.plans ?? [],
+    revision,
+    revisionNote: change.note,
+    rerunFrom: change.rerunFrom,
+  };
+}
+
 async function buildSkeletonNode(
   state: GraphStateType,
 ): Promise<Partial<GraphStateType>> {
@@ -342,8 +810,13 @@ async function buildSkeletonNode(
 
   console.log("[buildSkeleton] Time window:", startTime, "-", endTime);
 
-  // Build the skeleton
-  const skeleton = createSkeleton(budget, startTime, endTime);
+  // Build the skeleton, then fit it to what the user asked for (if anything)
+  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
+  const skeleton = fitSkeletonToRequest(
+    createSkeleton(budget, startTime, endTime),
+    state.requestedActivities ?? [],
+    preferences.alcoholOk !== false && !preferences.familyFriendly,
+  );
 
   console.log(
     "[buildSkeleton] Created skeleton with",
@@ -362,282 +835,236 @@ async function buildSkeletonNode(
   };
 }
 
-async function searchActivity(
-  state: GraphStateType,
-): Promise<Partial<GraphStateType>> {
-  const city = state.city ?? "Barcelona";
-  const callBudget = state.callBudget ?? DEFAULT_CALL_BUDGET;
-  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
-  const requestedActivities = state.requestedActivities ?? [];
-
-  console.log("[searchActivity] Searching activities in:", city);
-  console.log("[searchActivity] Requested activities:", requestedActivities);
+function getCallLedger(state: GraphStateType): CallLedger {
+  return {
+    callBudget: state.callBudget ?? DEFAULT_CALL_BUDGET,
+    cacheStats: state.cacheStats ?? DEFAULT_CACHE_STATS,
+  };
+}
 
-  // Get city center coordinates - try cache first, then geocode
-  let cityCenter = getCityCenter(city);
-  if (!cityCenter) {
-    console.log("[searchActivity] City not in cache, geocoding...");
-    cityCenter = await geocodeCity(city);
-  }
-  if (!cityCenter) {
-    return {
-      error: `Could not find location for "${city}". Please check the city name.`,
-    };
+// Helper to get city center coordinates - caches first, then geocoding within its budget
+async function resolveCityCenter(
+  provider: VenueProvider,
+  city: string,
+  ledger: CallLedger,
+  tier: CallBudgetTier,
+): Promise<{ location: Location | undefined; ledger: CallLedger }> {
+  const known = provider.getCachedCityCenter(city);
+  if (known) {
+    return { location: known, ledger };
   }
 
-  // Find the specific activity requested by user (skip dinner/drinks/dessert as those have their own search)
-  const foodRelated = ["dinner", "lunch", "breakfast", "brunch", "drinks", "dessert", "food", "restaurant", "cafe", "bar"];
-  const specificActivity = requestedActivities.find(
-    (a) => !foodRelated.some((f) => a.toLowerCase().includes(f))
+  // Geocoding has its own budget so it never costs a slot its search
+  console.log("[resolveCityCenter] City not in cache, geocoding...");
+  const geocoded = await budgetedCall(
+    "resolveCityCenter",
+    "geocode",
+    ledger,
+    tier,
+    (options) => provider.geocode(city, options),
   );
-
-  let query: string;
-  if (specificActivity) {
-    // User requested a specific activity - search for it directly
-    // Map common terms to better search queries
-    const activityMappings: Record<string, string> = {
-      "golf": "golf course golf club",
-      "minigolf": "mini golf putt putt",
-      "bowling": "bowling alley",
-      "museum": "museum gallery",
-      "beach": "beach seaside",
-      "hiking": "hiking trail walking path",
-      "spa": "spa wellness massage",
-      "zoo": "zoo animal park",
-      "aquarium": "aquarium sea life",
-      "theater": "theater theatre show",
-      "cinema": "cinema movie theater",
-      "shopping": "shopping mall shopping center",
-      "park": "park garden",
-    };
-
-    // Check if we have a mapping for this activity
-    const normalizedActivity = specificActivity.toLowerCase();
-    let searchTerm = specificActivity;
-    for (const [key, value] of Object.entries(activityMappings)) {
-      if (normalizedActivity.includes(key)) {
-        searchTerm = value;
-        break;
-      }
-    }
-
-    query = `best ${searchTerm} in ${city}`;
-    console.log("[searchActivity] Using SPECIFIC activity search:", query);
-  } else {
-    // No specific activity requested - use generic search based on preferences
-    query = buildSearchQuery("activity", city, {
-      vibe: preferences.vibe,
-      likes: preferences.likes,
-      familyFriendly: preferences.familyFriendly,
-    });
-    console.log("[searchActivity] Using GENERIC activity search:", query);
-  }
-
-  console.log("[searchActivity] Query:", query);
-  console.log("[searchActivity] Family friendly:", preferences.familyFriendly);
-
-  // Execute search
-  const result = await googlePlacesSearch({
-    query,
-    location: cityCenter,
-    radiusMeters: 5000,
-    maxResults: 10,
-    minRating: 4.0,
-  });
-
-  if (result.error) {
-    console.log("[searchActivity] Error:", result.error);
+  if (!geocoded.result.location) {
+    console.log(`[resolveCityCenter] Could not geocode ${city}`);
   }
-
-  console.log("[searchActivity] Found", result.venues.length, "venues");
-
-  // Override category to "activity" since that's what we searched for
-  // (Google might return a golf resort as "restaurant" due to its restaurant)
-  const activityVenues = result.venues.map((v) => ({ ...v, category: "activity" }));
-
-  // Update state with results (track calls for cost reporting)
-  const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
-  return {
-    candidatePools: {
-      ...pools,
-      activity: activityVenues,
-    },
-    callBudget: {
-      ...callBudget,
-      placesSearch: (callBudget.placesSearch ?? 0) + 1,
-    },
-  };
+  return { location: geocoded.result.location, ledger: geocoded.ledger };
 }
 
-async function searchDinner(
+// Forecast for the city over the outing's window - with bad weather (or when the user asked
+// to stay in) the skeleton drops its walks and ranking favours indoor venues
+// (preferences.indoorsPreferred stays the user's own choice - see getRankingPreferences)
+async function checkWeather(
   state: GraphStateType,
+  deps: GraphDeps,
 ): Promise<Partial<GraphStateType>> {
   const city = state.city ?? "Barcelona";
-  const callBudget = state.callBudget ?? DEFAULT_CALL_BUDGET;
   const preferences = state.preferences ?? DEFAULT_PREFERENCES;
-  const requestedActivities = state.requestedActivities ?? [];
-
-  // Check if dinner/meal was requested
-  const mealRequested = requestedActivities.some((a) => {
-    const lower = a.toLowerCase();
-    return lower.includes("dinner") || lower.includes("lunch") ||
-           lower.includes("food") || lower.includes("restaurant") ||
-           lower.includes("eat") || lower.includes("meal");
-  });
-
-  console.log("[searchDinner] Searching dinner in:", city);
-  console.log("[searchDinner] Dinner explicitly requested:", mealRequested);
+  let ledger = getCallLedger(state);
+  let weather: Forecast | undefined;
 
-  // Get city center coordinates - try cache first, then geocode
-  let cityCenter = getCityCenter(city);
-  if (!cityCenter) {
-    cityCenter = await geocodeCity(city);
-  }
-  if (!cityCenter) {
-    return {};
+  if (!deps.weatherProvider || !state.startsAt || !state.endsAt) {
+    console.log("[checkWeather] No weather provider or date - skipping the forecast");
+  } else {
+    const tier = getCallBudgetTier(state.paid ?? true);
+    const center = await resolveCityCenter(deps.venueProvider, city, ledger, tier);
+    ledger = center.ledger;
+
+    const provider = deps.weatherProvider;
+    const location = center.location;
+    const startsAt = state.startsAt;
+    const endsAt = state.endsAt;
+    let result: ForecastResult = { error: `Could not locate ${city}` };
+    if (location) {
+      const fetched = await budgetedCall(
+        "checkWeather",
+        "forecast",
+        ledger,
+        tier,
+        (options) => provider.forecast(
+          { city, location, date: state.dateResolved, startsAt, endsAt },
+          options,
+        ),
+      );
+      result = fetched.result;
+      ledger = fetched.ledger;
+    }
+    weather = result.forecast;
+    console.log(
+      `[checkWeather] ${deps.weatherProvider.name}:`,
+      weather ? describeForecast(weather) : result.error,
+    );
   }
 
-  // Build search query based on preferences
-  const query = buildSearchQuery("dinner", city, {
-    vibe: preferences.vibe,
-    dietary: preferences.dietary,
-    familyFriendly: preferences.familyFriendly,
-  });
-
-  console.log("[searchDinner] Query:", query);
-
-  // Execute search
-  const result = await googlePlacesSearch({
-    query,
-    location: cityCenter,
-    radiusMeters: 5000,
-    maxResults: 10,
-    minRating: 4.0,
-  });
-
-  if (result.error) {
-    console.log("[searchDinner] Error:", result.error);
+  const badWeather = weather !== undefined && isBadWeather(weather);
+  if (!badWeather && !preferences.indoorsPreferred) {
+    return { weather, ...ledger };
   }
 
-  console.log("[searchDinner] Found", result.venues.length, "venues");
-
-  // Override category to "dinner" since that's what we searched for
-  const dinnerVenues = result.venues.map((v) => ({ ...v, category: "dinner" }));
-
-  // Update state with results (track calls for cost reporting)
-  const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const skeleton = state.skeleton ? toIndoorSkeleton(state.skeleton) : undefined;
+  console.log(
+    `[checkWeather] ${badWeather ? "Bad weather" : "Indoors preferred"} - indoor slots:`,
+    skeleton?.slots.map((s) => s.label) ?? [],
+  );
   return {
-    candidatePools: {
-      ...pools,
-      dinner: dinnerVenues,
-    },
-    callBudget: {
-      ...callBudget,
-      placesSearch: (callBudget.placesSearch ?? 0) + 1,
-    },
+    weather,
+    skeleton,
+    ...ledger,
   };
 }
 
-async function searchFinish(
+// After a date or time refinement the new forecast only needs the pools re-ranked;
+// a new request goes on to search
+function routeAfterWeather(state: GraphStateType): string {
+  return state.rerunFrom === "check_weather" ? "rank_cluster" : "search_slots";
+}
+
+// Preferences for ranking - bad weather counts as wanting to stay in
+function getRankingPreferences(state: GraphStateType): Preferences {
+  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
+  const badWeather = state.weather !== undefined && isBadWeather(state.weather);
+  return badWeather ? { ...preferences, indoorsPreferred: true } : preferences;
+}
+
+async function searchSlots(
   state: GraphStateType,
+  deps: GraphDeps,
 ): Promise<Partial<GraphStateType>> {
   const city = state.city ?? "Barcelona";
-  const callBudget = state.callBudget ?? DEFAULT_CALL_BUDGET;
+  const tier = getCallBudgetTier(state.paid ?? true);
   const preferences = state.preferences ?? DEFAULT_PREFERENCES;
-  const candidatePools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
-  const requestedActivities = state.requestedActivities ?? [];
-
-  // Check if drinks/dessert was explicitly requested
-  const drinksRequested = requestedActivities.some((a) => {
-    const lower = a.toLowerCase();
-    return lower.includes("drink") || lower.includes("bar") ||
-           lower.includes("cocktail") || lower.includes("wine") ||
-           lower.includes("beer") || lower.includes("pub");
-  });
-  const dessertRequested = requestedActivities.some((a) => {
-    const lower = a.toLowerCase();
-    return lower.includes("dessert") || lower.includes("ice cream") ||
-           lower.includes("gelato") || lower.includes("coffee") ||
-           lower.includes("cafe") || lower.includes("sweet");
-  });
-
-  // If user specified activities and didn't include drinks/dessert, skip this search
-  if (requestedActivities.length > 0 && !drinksRequested && !dessertRequested) {
-    console.log("[searchFinish] User has specific activities but didn't request drinks/dessert - skipping");
-    return {
-      candidatePools: {
-        ...candidatePools,
-        finish: [],
-      },
-      callBudget: callBudget, // Don't increment since we skipped
-    };
-  }
+  const slots = state.skeleton?.slots ?? [];
 
-  console.log("[searchFinish] Searching finish venues in:", city);
-  console.log("[searchFinish] Drinks requested:", drinksRequested);
-  console.log("[searchFinish] Dessert requested:", dessertRequested);
+  console.log("[searchSlots] Searching in:", city);
+  console.log(
+    "[searchSlots] Slots:",
+    slots.map((s) => s.request ?? s.type),
+  );
 
   // Get city center coordinates - try cache first, then geocode
-  let cityCenter = getCityCenter(city);
-  if (!cityCenter) {
-    cityCenter = await geocodeCity(city);
-  }
+  const center = await resolveCityCenter(
+    deps.venueProvider,
+    city,
+    getCallLedger(state),
+    tier,
+  );
+  const cityCenter = center.location;
   if (!cityCenter) {
-    return {};
+    return {
+      error: `Could not find location for "${city}". Please check the city name.`,
+      ...center.ledger,
+    };
   }
 
-  // Build search query based on preferences (include alcoholOk and familyFriendly for finish venues)
-  const query = buildSearchQuery("finish", city, {
-    vibe: preferences.vibe,
-    alcoholOk: preferences.alcoholOk,
-    familyFriendly: preferences.familyFriendly,
-  });
+  // A refinement only searches the slots it changed and keeps every other pool
+  const refresh = state.refreshSlots ?? [];
+  const previous = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const pools: CandidatePools = refresh.length > 0
+    ? { ...previous, requested: { ...previous.requested } }
+    : { ...DEFAULT_CANDIDATE_POOLS, requested: {} };
+  let ledger = center.ledger;
+  const jobs = planSearchJobs(
+    slots,
+    city,
+    preferences,
+    getRemainingBudget(ledger.callBudget, tier).placesSearch,
+    deps.now(),
+  ).filter((job) =>
+    refresh.length === 0 ||
+    (job.requests.length > 0
+      ? job.requests.some((r) => refresh.includes(r))
+      : refresh.includes(job.type)),
+  );
 
-  console.log("[searchFinish] Query:", query);
-  console.log("[searchFinish] alcoholOk:", preferences.alcoholOk);
-  console.log("[searchFinish] familyFriendly:", preferences.familyFriendly);
-
-  // Execute search
-  const result = await googlePlacesSearch({
-    query,
-    location: cityCenter,
-    radiusMeters: 5000,
-    maxResults: 10,
-    minRating: 4.0,
-  });
+  for (const job of jobs) {
+    const name = job.requests.length > 0 ? job.requests.join(" + ") : job.type;
+    console.log(`[searchSlots] ${name} query:`, job.query);
+
+    // Execute search (from cache only once the search budget is spent)
+    const search = await budgetedCall(
+      "searchSlots",
+      "placesSearch",
+      ledger,
+      tier,
+      (options) => deps.venueProvider.search({
+        query: job.query,
+        location: cityCenter,
+        radiusMeters: 5000,
+        maxResults: 10,
+        minRating: 4.0,
+      }, options),
+    );
+    ledger = search.ledger;
 
-  if (result.error) {
-    console.log("[searchFinish] Error:", result.error);
-  }
+    if (search.result.error) {
+      console.log(`[searchSlots] ${name} error:`, search.result.error);
+    }
 
-  // Override category based on alcohol preference
-  // This ensures finish venues are properly categorized as drinks or dessert
-  let venues = result.venues;
-  if (preferences.alcoholOk === false || preferences.familyFriendly === true) {
-    // No alcohol - categorize as dessert
-    venues = venues.map((v) => ({ ...v, category: "dessert" }));
-    console.log("[searchFinish] Categorized as dessert (no alcohol)");
-  } else {
-    // Alcohol OK - categorize as drinks
-    venues = venues.map((v) => ({ ...v, category: "drinks" }));
-    console.log("[searchFinish] Categorized as drinks");
+    // Override category to the slot type since that's what we searched for
+    // (Google might return a golf resort as "restaurant" due to its restaurant)
+    const venues = search.result.venues.map((v) => ({ ...v, category: job.type }));
+    if (job.requests.length === 0) {
+      pools[job.type] = venues;
+      console.log(`[searchSlots] Found ${venues.length} ${job.type} venues`);
+      continue;
+    }
+    for (const [request, matched] of Object.entries(splitByRequest(venues, job.requests))) {
+      pools.requested[request] = matched;
+      console.log(`[searchSlots] Found ${matched.length} venues for "${request}"`);
+    }
   }
 
-  console.log("[searchFinish] Found", venues.length, "venues");
-
   // Update state with results (track calls for cost reporting)
   return {
-    candidatePools: {
-      ...candidatePools,
-      finish: venues,
-    },
-    callBudget: {
-      ...callBudget,
-      placesSearch: (callBudget.placesSearch ?? 0) + 1,
-    },
+    candidatePools: pools,
+    refreshSlots: [],
+    ...ledger,
   };
 }
 
+// Share of the budget per slot type when there is no skeleton
+const DEFAULT_SLOT_BUDGET_SHARE: Record<SlotType, number> = {
+  drinks: 0.15,
+  activity: 0.25,
+  dinner: 0.5,
+  dessert: 0.1,
+  scenic: 0.05,
+};
+
+// Helper to get the per-person budget for one visit of each slot type
+function getPerPersonSlotBudgets(state: GraphStateType): Record<SlotType, number> {
+  const budget = state.budget ?? { amount: 100, currency: "EUR" };
+  const partySize = state.partySize ?? 2;
+  const skeleton = state.skeleton;
+
+  const budgets = {} as Record<SlotType, number>;
+  for (const type of SlotTypeSchema.options) {
+    const slotBudget = skeleton
+      ? getBudgetForSlot(skeleton, type)
+      : budget.amount * DEFAULT_SLOT_BUDGET_SHARE[type];
+    budgets[type] = slotBudget / partySize;
+  }
+  return budgets;
+}
+
 async function rankCluster(
   state: GraphStateType,
 ): Promise<Partial<GraphStateType>> {
@@ -645,85 +1072,52 @@ async function rankCluster(
 
   const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
   const budget = state.budget ?? { amount: 100, currency: "EUR" };
-  const partySize = state.partySize ?? 2;
-  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
-  const totalCandidates =
-    pools.activity.length + pools.dinner.length + pools.finish.length;
+  const preferences = getRankingPreferences(state);
+  const totalCandidates = listPools(pools).reduce(
+    (sum, pool) => sum + pool.venues.length,
+    0,
+  );
 
   if (totalCandidates === 0) {
     console.log("[rankCluster] No candidates to rank");
     return {};
   }
 
-  // Calculate budget per category from skeleton
-  const skeleton = state.skeleton;
-  const budgetPerCategory = {
-    activity: skeleton
-      ? getBudgetForSlot(skeleton, "activity")
-      : budget.amount * 0.25,
-    dinner: skeleton
-      ? getBudgetForSlot(skeleton, "dinner")
-      : budget.amount * 0.5,
-    finish: skeleton
-      ? getBudgetForSlot(skeleton, "drinks") +
-        getBudgetForSlot(skeleton, "dessert")
-      : budget.amount * 0.15,
-  };
-
-  // Per-person budget (divide by party size)
-  const perPersonBudget = {
-    activity: budgetPerCategory.activity / partySize,
-    dinner: budgetPerCategory.dinner / partySize,
-    finish: budgetPerCategory.finish / partySize,
-  };
-
+  // Per-person budget for each slot type (from the skeleton)
+  const perPersonBudget = getPerPersonSlotBudgets(state);
+  const travelMins = getTravelEstimate(state);
   console.log("[rankCluster] Budget per person:", perPersonBudget);
 
-  // Rank each pool
-  const rankedActivity = rankVenues(
-    pools.activity,
-    preferences,
-    perPersonBudget.activity,
-  );
-  const rankedDinner = rankVenues(
-    pools.dinner,
-    preferences,
-    perPersonBudget.dinner,
-  );
-  const rankedFinish = rankVenues(
-    pools.finish,
-    preferences,
-    perPersonBudget.finish,
-  );
-
-  console.log(`[rankCluster] Ranked ${rankedActivity.length} activities`);
-  console.log(`[rankCluster] Ranked ${rankedDinner.length} dinner options`);
-  console.log(`[rankCluster] Ranked ${rankedFinish.length} finish venues`);
+  // Rank each pool and store ranked venues back in pools (sorted order)
+  const rankedPools: CandidatePools = { ...DEFAULT_CANDIDATE_POOLS, requested: {} };
+  for (const { type, request, venues } of listPools(pools)) {
+    if (venues.length === 0) continue;
 
-  // Log top picks
-  if (rankedActivity[0]) {
-    console.log(
-      `[rankCluster] Top activity: ${rankedActivity[0].venue.name} (score: ${rankedActivity[0].score.toFixed(2)})`,
-    );
-  }
-  if (rankedDinner[0]) {
-    console.log(
-      `[rankCluster] Top dinner: ${rankedDinner[0].venue.name} (score: ${rankedDinner[0].score.toFixed(2)})`,
-    );
-  }
-  if (rankedFinish[0]) {
-    console.log(
-      `[rankCluster] Top finish: ${rankedFinish[0].venue.name} (score: ${rankedFinish[0].score.toFixed(2)})`,
+    const ranked = rankVenues(
+      venues,
+      preferences,
+      perPersonBudget[type],
+      budget.currency,
+      undefined,
+      travelMins,
     );
+    if (request !== undefined) {
+      rankedPools.requested[request] = ranked.map((r) => r.venue);
+    } else {
+      rankedPools[type] = ranked.map((r) => r.venue);
+    }
+
+    const name = request ?? type;
+    console.log(`[rankCluster] Ranked ${ranked.length} ${name} venues`);
+    if (ranked[0]) {
+      console.log(
+        `[rankCluster] Top ${name}: ${ranked[0].venue.name} (score: ${ranked[0].score.toFixed(2)})`,
+      );
+    }
   }
 
-  // Store ranked venues back in pools (sorted order)
   return {
-    candidatePools: {
-      activity: rankedActivity.map((r) => r.venue),
-      dinner: rankedDinner.map((r) => r.venue),
-      finish: rankedFinish.map((r) => r.venue),
-    },
+    candidatePools: rankedPools,
   };
 }
 
@@ -734,36 +1128,15 @@ async function selectFinalists(
 
   const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
   const budget = state.budget ?? { amount: 100, currency: "EUR" };
-  const partySize = state.partySize ?? 2;
-  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
-
-  // Calculate budget per category
-  const skeleton = state.skeleton;
-  const budgetPerCategory = {
-    activity: skeleton
-      ? getBudgetForSlot(skeleton, "activity")
-      : budget.amount * 0.25,
-    dinner: skeleton
-      ? getBudgetForSlot(skeleton, "dinner")
-      : budget.amount * 0.5,
-    finish: skeleton
-      ? getBudgetForSlot(skeleton, "drinks") +
-        getBudgetForSlot(skeleton, "dessert")
-      : budget.amount * 0.15,
-  };
-
-  // Per-person budget
-  const perPersonBudget = {
-    activity: budgetPerCategory.activity / partySize,
-    dinner: budgetPerCategory.dinner / partySize,
-    finish: budgetPerCategory.finish / partySize,
-  };
+  const preferences = getRankingPreferences(state);
 
   // Use the selectBestVenues function which handles proximity re-ranking
   const { selected, backups } = selectBestVenues(
     pools,
     preferences,
-    perPersonBudget,
+    getPerPersonSlotBudgets(state),
+    budget.currency,
+    getTravelEstimate(state),
   );
 
   console.log("[selectFinalists] Selected venues:");
@@ -785,8 +1158,50 @@ async function selectFinalists(
   };
 }
 
+// Helper to merge Place Details into a venue from search results
+function enrichVenue(venue: Venue, details: PlaceDetails): Venue {
+  let openingHours = venue.openingHours;
+  let openingPeriods = venue.openingPeriods;
+  if (details.openingHours?.weekdayDescriptions.length) {
+    openingHours = {};
+    details.openingHours.weekdayDescriptions.forEach((desc, i) => {
+      if (openingHours) {
+        openingHours[`day_${i}`] = desc;
+      }
+    });
+  }
+  if (details.openingHours?.periods.length) {
+    openingPeriods = details.openingHours.periods;
+  }
+
+  return {
+    ...venue,
+    rating: details.rating ?? venue.rating,
+    reviewCount: details.reviewCount ?? venue.reviewCount,
+    priceLevel: details.priceLevel ?? venue.priceLevel,
+    openingHours,
+    openingPeriods,
+    servesVegetarianFood: details.servesVegetarianFood ?? venue.servesVegetarianFood,
+    reservable: details.reservable ?? venue.reservable,
+    outdoorSeating: details.outdoorSeating ?? venue.outdoorSeating,
+    goodForChildren: details.goodForChildren ?? venue.goodForChildren,
+    goodForGroups: details.goodForGroups ?? venue.goodForGroups,
+    servesBeer: details.servesBeer ?? venue.servesBeer,
+    servesWine: details.servesWine ?? venue.servesWine,
+    servesCocktails: details.servesCocktails ?? venue.servesCocktails,
+    editorialSummary: details.editorialSummary ?? venue.editorialSummary,
+    accessibility: details.accessibility ?? venue.accessibility,
+    businessStatus: details.businessStatus ?? venue.businessStatus,
+  };
+}
+
+// Max pool candidates checked (one details call each) when replacing a finalist its details
+// rule out (closed down, not accessible enough, or contradicting dietary restrictions)
+const MAX_FINALIST_REPLACEMENT_CHECKS = 2;
+
 async function getDetails(
   state: GraphStateType,
+  deps: GraphDeps,
 ): Promise<Partial<GraphStateType>> {
   console.log("[getDetails] Fetching place details for selected venues");
 
@@ -798,84 +1213,325 @@ async function getDetails(
     venuesToEnrich.push(...Object.values(state.selectedVenues));
   } else {
     // Take top 2 from each pool as finalists (will be refined later)
-    const pools = state.candidatePools;
-    if (pools.activity.length > 0)
-      venuesToEnrich.push(...pools.activity.slice(0, 2));
-    if (pools.dinner.length > 0)
-      venuesToEnrich.push(...pools.dinner.slice(0, 2));
-    if (pools.finish.length > 0)
-      venuesToEnrich.push(...pools.finish.slice(0, 2));
+    for (const pool of listPools(state.candidatePools)) {
+      venuesToEnrich.push(...pool.venues.slice(0, 2));
+    }
   }
 
   console.log(`[getDetails] Need to enrich ${venuesToEnrich.length} venues`);
 
-  let detailsCalls = state.callBudget?.placeDetails ?? 0;
+  const tier = getCallBudgetTier(state.paid ?? true);
+  let ledger = getCallLedger(state);
   const enrichedVenues: Record<string, Venue> = {};
+  const detailedVenues = { ...(state.detailedVenues ?? {}) };
   const includeHours = (state.mode ?? "standard") === "verified";
-
-  // Fetch details for each venue
-  for (const venue of venuesToEnrich) {
+  const { dietary, mobility } = state.preferences ?? DEFAULT_PREFERENCES;
+  const includeDietary = isDietaryVerifiable(dietary);
+  const includeAttributes = deps.richDetails || mobility !== "full"; // Accessibility options
+
+  // Reuse details fetched earlier in this thread (unless they lack the dietary attributes
+  // of a restaurant, or accessibility options the party needs)
+  // Out of budget (and not cached) - keep the search-level data instead of spending more
+  const fetchDetails = async (venue: Venue): Promise<Venue> => {
+    const known = detailedVenues[venue.placeId];
+    const needsDietary =
+      includeDietary && venue.category === "dinner" && known?.servesVegetarianFood === undefined;
+    const needsAccessibility = mobility !== "full" && known?.accessibility === undefined;
+    if (known && !needsDietary && !needsAccessibility) {
+      return known;
+    }
     console.log(`[getDetails] Fetching details for: ${venue.name}`);
 
-    const result = await googlePlaceDetails({
-      placeId: venue.placeId,
-      includeHours,
-    });
-    detailsCalls++;
+    const fetched = await budgetedCall(
+      "getDetails",
+      "placeDetails",
+      ledger,
+      tier,
+      (options) =>
+        deps.venueProvider.details(
+          { placeId: venue.placeId, includeHours, includeDietary, includeAttributes },
+          options,
+        ),
+    );
+    const result = fetched.result;
+    ledger = fetched.ledger;
 
-    if (result.error) {
-      console.log(`[getDetails] Error for ${venue.name}:`, result.error);
-      enrichedVenues[venue.placeId] = venue;
-    } else if (result.details) {
-      let openingHours = venue.openingHours;
-      if (result.details.openingHours?.weekdayDescriptions) {
-        openingHours = {};
-        result.details.openingHours.weekdayDescriptions.forEach((desc, i) => {
-          if (openingHours) {
-            openingHours[`day_${i}`] = desc;
-          }
-        });
-      }
+    if (!result.details) {
+      console.log(`[getDetails] Using search data for ${venue.name}:`, result.error);
+      return known ?? venue;
+    }
+    const enriched = enrichVenue(known ?? venue, result.details);
+    detailedVenues[venue.placeId] = enriched;
+    return enriched;
+  };
 
-      enrichedVenues[venue.placeId] = {
-        ...venue,
-        rating: result.details.rating ?? venue.rating,
-        reviewCount: result.details.reviewCount ?? venue.reviewCount,
-        priceLevel: result.details.priceLevel ?? venue.priceLevel,
-        openingHours,
-      };
+  for (const venue of venuesToEnrich) {
+    enrichedVenues[venue.placeId] = await fetchDetails(venue);
+  }
+
+  // A finalist whose details rule it out (closed down, not accessible enough for the party, or
+  // a restaurant contradicting the dietary restrictions) gives way to the next candidate in its
+  // pool that passes, when one is found within MAX_FINALIST_REPLACEMENT_CHECKS
+  const getRejection = (venue: Venue): string | undefined => {
+    const known = detailedVenues[venue.placeId] ?? venue;
+    if (known.businessStatus === "CLOSED_PERMANENTLY") return "has closed permanently";
+    if (known.businessStatus === "CLOSED_TEMPORARILY") return "is temporarily closed";
+    if (getAccessibilityMatch(known, mobility) === "contradicted") {
+      return mobility === "wheelchair" ? "isn't wheelchair accessible" : "has no step-free entrance";
+    }
+    if (
+      includeDietary &&
+      known.category === "dinner" &&
+      getDietaryMatch(known, dietary) === "contradicted"
+    ) {
+      return "lists no vegetarian options";
+    }
+    return undefined;
+  };
+
+  for (const venue of Object.values(enrichedVenues)) {
+    const rejection = getRejection(venue);
+    if (!rejection) continue;
+
+    const candidates = getPoolForVenue(state.candidatePools ?? DEFAULT_CANDIDATE_POOLS, venue)
+      .filter((v) => !enrichedVenues[v.placeId])
+      .slice(0, MAX_FINALIST_REPLACEMENT_CHECKS);
+    for (const candidate of candidates) {
+      const checked = await fetchDetails(candidate);
+      if (getRejection(checked)) continue;
+
+      console.log(`[getDetails] ${venue.name} ${rejection} - replaced with ${checked.name}`);
+      delete enrichedVenues[venue.placeId];
+      enrichedVenues[checked.placeId] = checked;
+      break;
+    }
+    if (enrichedVenues[venue.placeId]) {
+      console.log(`[getDetails] ${venue.name} ${rejection} - kept, no alternative checked out`);
     }
   }
 
+  // Pools carry what details told us (for ranking and swaps) and lose the venues ruled out,
+  // so no plan or backup picks them
+  const candidatePools = mapPools(state.candidatePools ?? DEFAULT_CANDIDATE_POOLS, (venues) => {
+    const kept = venues
+      .filter((v) => !getRejection(v))
+      .map((v) => detailedVenues[v.placeId] ?? v);
+    return kept.length > 0 ? kept : venues;
+  });
+
   console.log(
-    `[getDetails] Enriched ${Object.keys(enrichedVenues).length} venues`,
+    `[getDetails] Enriched ${Object.keys(enrichedVenues).length} venues (${formatBudgetUsage(ledger.callBudget, tier)})`,
   );
 
   return {
     selectedVenues: enrichedVenues,
-    callBudget: {
-      ...(state.callBudget ?? DEFAULT_CALL_BUDGET),
-      placeDetails: detailsCalls,
-    },
+    detailedVenues,
+    candidatePools,
+    ...ledger,
   };
 }
 
+// Max pool candidates checked (one details call each) when replacing a closed stop
+const MAX_REPLACEMENT_CHECKS = 3;
+
+// Helper to find the candidate pool a venue was found in (falls back to its category's pool)
+function getPoolForVenue(pools: CandidatePools, venue: Venue): Venue[] {
+  const found = listPools(pools).find((pool) =>
+    pool.venues.some((v) => v.placeId === venue.placeId),
+  );
+  if (found) return found.venues;
+  const type = SlotTypeSchema.safeParse(venue.category);
+  return type.success ? pools[type.data] : [];
+}
+
 async function validateHours(
   state: GraphStateType,
+  deps: GraphDeps,
 ): Promise<Partial<GraphStateType>> {
-  // TODO: Validate opening hours against planned arrival (verified mode)
-  console.log("[validateHours] Validating hours");
-  return {};
+  console.log("[validateHours] Validating opening hours for all plans");
+
+  const plans = state.plans ?? [];
+  if (plans.length === 0) {
+    console.log("[validateHours] No plans to validate");
+    return {};
+  }
+
+  const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const dayOfWeek = resolveDayOfWeek(state.dateResolved, state.timezone ?? "UTC", deps.now());
+  const windowStart =
+    state.timeWindow?.split("-")[0] ?? plans[0]?.stops[0]?.time ?? "00:00";
+
+  console.log(
+    `[validateHours] Day of week: ${dayOfWeek} (${state.dateResolved ?? "today"}, ${state.timezone ?? "UTC"})`,
+  );
+
+  // Venues with hours already fetched (finalists, and any B/C venue get_details enriched) -
+  // shared across plans so each venue costs at most one call
+  const withHours: Record<string, Venue> = {};
+  for (const venue of [
+    ...Object.values(state.detailedVenues ?? {}),
+    ...Object.values(state.selectedVenues ?? {}),
+  ]) {
+    if (venue.openingPeriods) {
+      withHours[venue.placeId] = venue;
+    }
+  }
+  // Venues whose hours weren't checked, and why (budget spent / lookup failed)
+  const unchecked = new Map<string, string>();
+  const tier = getCallBudgetTier(state.paid ?? true);
+  let ledger = getCallLedger(state);
+  const travel = getTravelLookup(state);
+  const { start, end } = resolveTimeWindow(state);
+
+  const fetchHours = async (venue: Venue): Promise<Venue> => {
+    const known = withHours[venue.placeId];
+    if (known) return known;
+
+    // Out of budget (and not cached) - the stop stays unverified rather than spending more
+    console.log(`[validateHours] Fetching hours for: ${venue.name}`);
+    const affordable = canMakeCall(ledger.callBudget, "placeHours", tier).allowed;
+    const fetched = await budgetedCall(
+      "validateHours",
+      "placeHours",
+      ledger,
+      tier,
+      (options) =>
+        deps.venueProvider.details(
+          { placeId: venue.placeId, includeHours: true, includeAttributes: deps.richDetails },
+          options,
+        ),
+    );
+    const result = fetched.result;
+    ledger = fetched.ledger;
+
+    if (result.error) {
+      console.log(`[validateHours] No hours for ${venue.name}:`, result.error);
+      unchecked.set(venue.placeId, affordable ? "lookup failed" : "budget spent");
+    }
+    const enriched = result.details ? enrichVenue(venue, result.details) : venue;
+    withHours[venue.placeId] = enriched;
+    return enriched;
+  };
+
+  const validatedPlans: Plan[] = [];
+  for (const plan of plans) {
+    const usedIds = new Set(plan.stops.map((s) => s.venue.placeId));
+    const stops: Plan["stops"] = [];
+    const replaced = new Map<string, string>(); // Replacement placeId -> the closed venue's name
+
+    for (const stop of plan.stops) {
+      const venue = await fetchHours(stop.venue);
+      const open = isVenueOpenAtArrival(venue, dayOfWeek, stop.time, windowStart);
+
+      if (open === true) {
+        stops.push({ ...stop, venue, openCheck: `Verified: open at ${stop.time}` });
+        continue;
+      }
+      if (open === undefined) {
+        const reason = unchecked.get(venue.placeId);
+        stops.push({
+          ...stop,
+          venue,
+          openCheck: reason
+            ? `Unverified: hours not checked (${reason}) - confirm in Maps`
+            : "Unverified: no opening hours listed (confirm in Maps)",
+        });
+        continue;
+      }
+
+      // Closed at arrival - swap in the best open candidate from the same pool
+      console.log(
+        `[validateHours] Plan ${plan.id}: ${venue.name} is closed at ${stop.time}`,
+      );
+      let replacement: Venue | undefined;
+      let checked = 0;
+      for (const candidate of getPoolForVenue(pools, venue)) {
+        if (checked >= MAX_REPLACEMENT_CHECKS) break;
+        if (usedIds.has(candidate.placeId)) continue;
+        checked++;
+
+        const enriched = await fetchHours(candidate);
+        if (isVenueOpenAtArrival(enriched, dayOfWeek, stop.time, windowStart) === true) {
+          replacement = enriched;
+          break;
+        }
+      }
+
+      if (replacement) {
+        console.log(
+          `[validateHours] Plan ${plan.id}: replaced ${venue.name} with ${replacement.name}`,
+        );
+        usedIds.add(replacement.placeId);
+        replaced.set(replacement.placeId, venue.name);
+        stops.push({
+          ...stop,
+          label:
+            replacement.category === "activity"
+              ? getActivityLabel(replacement.name)
+              : stop.label,
+          venue: replacement,
+          durationMins: estimateStopDuration(replacement),
+          whyItFits: describeWhyItFits(replacement),
+          openCheck: `Verified: open at ${stop.time} (replaced ${venue.name}, closed at that time)`,
+        });
+      } else {
+        stops.push({
+          ...stop,
+          venue,
+          openCheck: `Closed at ${stop.time} per Google hours - no open alternative found, confirm in Maps`,
+        });
+      }
+    }
+
+    // Don't offer a venue as backup if it has been promoted into the plan
+    const stopNames = new Set(stops.map((s) => s.venue.name));
+    const backups = plan.backups.filter((b) => !stopNames.has(b.name));
+
+    if (replaced.size === 0) {
+      validatedPlans.push({ ...plan, stops, backups });
+      continue;
+    }
+
+    // A replacement brings its own visit length and legs - re-time the plan and re-check
+    // the stops that moved (hours are already fetched, so this costs no calls)
+    const closedNames = [...replaced.values()];
+    const notes = plan.notes.filter((note) => !closedNames.some((name) => note.includes(name)));
+    const reflowed = reflowPlan({ ...plan, stops, backups, notes }, start, end, travel);
+    validatedPlans.push({
+      ...reflowed,
+      stops: reflowed.stops.map((stop) => {
+        const before = stops.find((s) => s.venue.placeId === stop.venue.placeId);
+        if (before?.time === stop.time) return stop;
+        const open = isVenueOpenAtArrival(stop.venue, dayOfWeek, stop.time, windowStart);
+        if (open === undefined) return stop;
+        const replacedName = replaced.get(stop.venue.placeId);
+        return {
+          ...stop,
+          openCheck: open
+            ? `Verified: open at ${stop.time}${replacedName ? ` (replaced ${replacedName}, closed at ${before?.time ?? "that time"})` : ""}`
+            : `Closed at ${stop.time} per Google hours once re-timed - confirm in Maps`,
+        };
+      }),
+    });
+  }
+
+  console.log(
+    `[validateHours] Validated ${validatedPlans.length} plans (${formatBudgetUsage(ledger.callBudget, tier)})`,
+  );
+
+  return {
+    plans: validatedPlans,
+    ...ledger,
+  };
 }
 
 async function computeRoutes(
   state: GraphStateType,
+  deps: GraphDeps,
 ): Promise<Partial<GraphStateType>> {
   console.log("[computeRoutes] Computing travel times between venues");
 
-  const callBudget = state.callBudget ?? DEFAULT_CALL_BUDGET;
-
-  // Get the selected venues in order (activity -> dinner -> finish)
+  // Get the selected venues (one finalist per slot type)
   const selectedVenues = state.selectedVenues ?? {};
   const venues = Object.values(selectedVenues);
   if (venues.length < 2) {
@@ -883,88 +1539,337 @@ async function computeRoutes(
     return {};
   }
 
-  // Sort venues by category to establish route order
-  const categoryOrder = [
-    "activity",
-    "dinner",
-    "drinks",
-    "dessert",
-    "finish",
-    "scenic",
+  // Pick the shortest valid stop order for the finalists - it drives both the route and
+  // (through the skeleton's slot order) the plan timelines
+  const { start } = resolveTimeWindow(state);
+  const slots = state.skeleton?.slots ?? [];
+  const finalists = matchSlots(slots, state.candidatePools ?? DEFAULT_CANDIDATE_POOLS, venues);
+  const travel = getTravelLookup(state);
+  const ordered = orderFilledSlots(finalists, start, travel);
+
+  // Finalists' slots take the optimised order; slots without a finalist keep their place
+  const finalistPositions = slots.flatMap((slot, i) =>
+    finalists.some((f) => f.slot === slot) ? [i] : [],
+  );
+  const orderedSlots = [...slots];
+  ordered.forEach(({ slot }, k) => {
+    const position = finalistPositions[k];
+    if (position !== undefined) orderedSlots[position] = slot;
+  });
+  const reordered = orderedSlots.some((slot, i) => slot !== slots[i]);
+  const skeletonUpdate =
+    reordered && state.skeleton
+      ? { skeleton: retimeSkeleton({ ...state.skeleton, slots: orderedSlots }, []) }
+      : {};
+
+  // Venues not matched to a slot (none expected) go last
+  const matchedIds = new Set(ordered.map(({ venue }) => venue.placeId));
+  const sortedVenues = [
+    ...ordered.map(({ venue }) => venue),
+    ...venues.filter((v) => !matchedIds.has(v.placeId)),
   ];
-  const sortedVenues = [...venues].sort((a, b) => {
-    const aIndex = categoryOrder.indexOf(a.category);
-    const bIndex = categoryOrder.indexOf(b.category);
-    return (aIndex === -1 ? 999 : aIndex) - (bIndex === -1 ? 999 : bIndex);
+  console.log(
+    `[computeRoutes] Stop order${reordered ? " (optimised)" : ""}: ${sortedVenues.map((v) => v.name).join(" → ")}`,
+  );
+
+  // Each leg in the mode chosen for it, departing when the previous stop is expected to end
+  const legs: LegRequest[] = [];
+  let departure = start;
+  sortedVenues.forEach((venue, i) => {
+    const prev = sortedVenues[i - 1];
+    if (prev) {
+      const leg = travel(prev, venue, departure);
+      legs.push({ from: prev, to: venue, mode: leg.mode, departure });
+      departure = addMinutes(departure, leg.mins);
+    }
+    departure = addMinutes(departure, estimateStopDuration(venue));
   });
+  console.log(
+    `[computeRoutes] Routing ${legs.length} legs: ${legs.map((l) => `${l.from.name} → ${l.to.name} (${l.mode})`).join(", ")}`,
+  );
+
+  // Keep legs routed earlier in the thread; out of budget (and not cached) legs stay estimated
+  const travelTimes: Record<string, number> = { ...(state.travelTimes ?? {}) };
+  const ledger = await routeLegs(
+    "computeRoutes",
+    state,
+    legs.filter((l) => !(getLegKey(l.from.placeId, l.to.placeId, l.mode) in travelTimes)),
+    travelTimes,
+    getCallLedger(state),
+    deps.now(),
+  );
 
-  // Extract locations for route computation
-  const stops = sortedVenues.map((v) => v.location);
+  for (const { from, to, mode } of legs) {
+    const mins = travelTimes[getLegKey(from.placeId, to.placeId, mode)];
+    if (mins !== undefined && !isTravelTimeAcceptable(mins)) {
+      console.log(
+        `[computeRoutes] Warning: ${from.name} -> ${to.name} takes ${mins} min (exceeds 20 min threshold)`,
+      );
+    }
+  }
+  console.log("[computeRoutes] Travel times:", travelTimes);
 
-  console.log(`[computeRoutes] Computing route through ${stops.length} stops`);
+  return {
+    ...skeletonUpdate,
+    travelTimes,
+    travelCalibration: getTravelCalibration(
+      travelTimes,
+      new Map(sortedVenues.map((v) => [v.placeId, v.location])),
+      state.city,
+    ),
+    ...ledger,
+  };
+}
 
-  // Compute the itinerary route
-  const result = await computeItineraryRoute(stops, "WALK");
+// Max points in one Routes call (origin, destination and 25 intermediates)
+const MAX_ROUTE_POINTS = 27;
 
-  if (result.error) {
-    console.log("[computeRoutes] Error:", result.error);
-    return {
-      callBudget: {
-        ...callBudget,
-        routes: (callBudget.routes ?? 0) + 1,
-      },
-    };
+// A leg to route, in the mode chosen for it
+interface LegRequest {
+  from: Venue;
+  to: Venue;
+  mode: TravelMode;
+  departure: string; // Local HH:MM
+}
+
+// One Routes call: a path through venues in a single mode
+interface RouteCall {
+  mode: TravelMode;
+  path: Venue[];
+  departure?: string; // Local HH:MM (transit only - its timetable depends on it)
+}
+
+// Helper to get what besides distance decides each leg's travel mode
+function getTravelContext(state: GraphStateType): TravelContext {
+  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
+  return {
+    city: state.city ?? "Barcelona",
+    walking: preferences.walking,
+    mobility: preferences.mobility,
+    cycling: preferences.cycling,
+    // The forecast, not an indoor preference - staying in doesn't rule out a walk between stops
+    badWeather: state.weather !== undefined && isBadWeather(state.weather),
+  };
+}
+
+// Helper to estimate travel minutes for ranking - offline (no API call), in the mode the
+// leg would take at the window start
+function getTravelEstimate(state: GraphStateType): TravelEstimate {
+  const context = getTravelContext(state);
+  const { start } = resolveTimeWindow(state);
+  return (from, to) =>
+    estimateTravelMins(from, to, chooseLegMode(from, to, start, context), { city: context.city });
+}
+
+// Helper to get travel for any leg - routed in its mode where known, else the calibrated estimate
+function getTravelLookup(state: GraphStateType): TravelLookup {
+  return createTravelLookup(
+    state.travelTimes ?? {},
+    state.travelCalibration ?? 1,
+    getTravelContext(state),
+  );
+}
+
+// Helper to get a transit departure time - timetables need a future one,
+// so past (or unresolved) departures leave it out
+function getDepartureTime(
+  state: GraphStateType,
+  departure: string,
+  now: Date,
+): string | undefined {
+  if (!state.dateResolved) return undefined;
+  const { start } = resolveTimeWindow(state);
+  const instant = resolveTimeInWindow(state.dateResolved, start, departure, state.timezone ?? "UTC");
+  return instant && Date.parse(instant) > now.getTime() ? instant : undefined;
+}
+
+// Helper to group legs into Routes calls: legs in the same mode chain into one path (with a
+// bridging leg where they don't meet), transit legs get a call each
+function planRouteCalls(legs: LegRequest[]): RouteCall[] {
+  const calls: RouteCall[] = [];
+  const chains = new Map<TravelMode, RouteCall>();
+
+  for (const leg of legs) {
+    if (leg.mode === "TRANSIT") {
+      calls.push({ mode: leg.mode, path: [leg.from, leg.to], departure: leg.departure });
+      continue;
+    }
+    let chain = chains.get(leg.mode);
+    const joins = chain?.path[chain.path.length - 1]?.placeId === leg.from.placeId;
+    if (!chain || chain.path.length + (joins ? 1 : 2) > MAX_ROUTE_POINTS) {
+      chain = { mode: leg.mode, path: [] };
+      calls.push(chain);
+      chains.set(leg.mode, chain);
+    }
+    if (!joins) chain.path.push(leg.from);
+    chain.path.push(leg.to);
   }
+  return calls;
+}
 
-  if (!result.route) {
-    console.log("[computeRoutes] No route returned");
-    return {
-      callBudget: {
-        ...callBudget,
-        routes: (callBudget.routes ?? 0) + 1,
-      },
-    };
+// Helper to route legs in their modes, recording minutes in measured (by leg key)
+// Standard mode is the cost-free tier by design: it never calls Routes live, only cached routes
+// are used and the rest is estimated offline (policy_gate says so). Verified mode routes live
+// while the routes budget allows; out of budget (and not cached) its legs stay estimated
+async function routeLegs(
+  nodeName: string,
+  state: GraphStateType,
+  legs: LegRequest[],
+  measured: Record<string, number>,
+  ledger: CallLedger,
+  now: Date,
+): Promise<CallLedger> {
+  const tier = getCallBudgetTier(state.paid ?? true);
+  const cacheOnly = (state.mode ?? "standard") === "standard";
+  const lessWalking = (state.preferences ?? DEFAULT_PREFERENCES).mobility !== "full";
+  if (cacheOnly && legs.length > 0) {
+    console.log(`[${nodeName}] Standard mode - estimating legs offline (cached routes only)`);
   }
 
-  // Build travel times map (placeId1->placeId2: minutes)
-  const travelTimes: Record<string, number> = {};
-  for (let i = 0; i < sortedVenues.length - 1; i++) {
-    const from = sortedVenues[i];
-    const to = sortedVenues[i + 1];
-    const leg = result.route.legs[i];
+  for (const call of planRouteCalls(legs)) {
+    const departureTime = call.departure ? getDepartureTime(state, call.departure, now) : undefined;
+    const routed = await budgetedCall(
+      nodeName,
+      "routes",
+      ledger,
+      tier,
+      (options) =>
+        computeItineraryRoute(
+          call.path.map((v) => v.location),
+          call.mode,
+          options,
+          departureTime,
+          lessWalking,
+        ),
+      cacheOnly,
+    );
+    ledger = routed.ledger;
+    const route = routed.result.route;
+    if (routed.result.error || !route) {
+      if (cacheOnly) continue;
+      console.log(
+        `[${nodeName}] Estimating ${call.mode} legs ${call.path.map((v) => v.name).join(" → ")}:`,
+        routed.result.error ?? "no route returned",
+      );
+      continue;
+    }
 
-    if (from && to && leg) {
-      const key = `${from.placeId}->${to.placeId}`;
-      travelTimes[key] = leg.durationMinutes;
+    call.path.slice(1).forEach((to, i) => {
+      const from = call.path[i];
+      const leg = route.legs[i];
+      if (from && leg) measured[getLegKey(from.placeId, to.placeId, call.mode)] = leg.durationMinutes;
+    });
+  }
+  return ledger;
+}
 
-      if (!isTravelTimeAcceptable(leg.durationMinutes)) {
-        console.log(
-          `[computeRoutes] Warning: ${from.name} -> ${to.name} takes ${leg.durationMinutes} min (exceeds 20 min threshold)`,
-        );
-      }
-    }
+async function routePlans(
+  state: GraphStateType,
+  deps: GraphDeps,
+): Promise<Partial<GraphStateType>> {
+  console.log("[routePlans] Routing every plan's legs");
+
+  const plans = state.plans ?? [];
+  const tier = getCallBudgetTier(state.paid ?? true);
+  const measured = { ...(state.travelTimes ?? {}) };
+  const travel = getTravelLookup(state);
+
+  // Every plan's legs in the mode chosen for them (by leg key, so shared legs are routed once)
+  const legs = new Map<string, LegRequest>();
+  for (const plan of plans) {
+    plan.stops.forEach((stop, i) => {
+      const prev = plan.stops[i - 1];
+      if (!prev) return;
+      const departure = addMinutes(prev.time, prev.durationMins);
+      const { mode } = travel(prev.venue, stop.venue, departure);
+      legs.set(getLegKey(prev.venue.placeId, stop.venue.placeId, mode), {
+        from: prev.venue,
+        to: stop.venue,
+        mode,
+        departure,
+      });
+    });
   }
 
-  console.log("[computeRoutes] Travel times:", travelTimes);
+  // One call routes a mode's legs across plans
+  const ledger = await routeLegs(
+    "routePlans",
+    state,
+    [...legs].filter(([key]) => !(key in measured)).map(([, leg]) => leg),
+    measured,
+    getCallLedger(state),
+    deps.now(),
+  );
+
+  const travelCalibration = getTravelCalibration(
+    measured,
+    new Map(plans.flatMap((p) => p.stops.map((s) => [s.venue.placeId, s.venue.location] as const))),
+    state.city,
+  );
+  const routedLegs = [...legs.keys()].filter((key) => key in measured).length;
+  const estimatedLegs = legs.size - routedLegs;
   console.log(
-    `[computeRoutes] Total route: ${result.route.totalDurationMinutes} min, ${Math.round((result.route.totalDistanceMeters / 1000) * 10) / 10} km`,
+    `[routePlans] ${routedLegs}/${legs.size} legs routed${estimatedLegs > 0 ? `, ${estimatedLegs} estimated (calibration ×${travelCalibration})` : ""} (${formatBudgetUsage(ledger.callBudget, tier)})`,
   );
 
   return {
-    travelTimes,
-    callBudget: {
-      ...callBudget,
-      routes: (callBudget.routes ?? 0) + 1,
-    },
+    travelTimes: measured,
+    travelCalibration,
+    ...ledger,
   };
 }
 
+// Helper to resolve the outing's time window (family outings default to daytime)
+function resolveTimeWindow(state: GraphStateType): { start: string; end: string } {
+  const isFamily = state.preferences?.familyFriendly === true;
+  let start = isFamily ? "11:00" : "18:00";
+  let end = isFamily ? "18:00" : "23:30";
+  if (state.timeWindow) {
+    const parts = state.timeWindow.split("-");
+    if (parts[0]) start = parts[0];
+    if (parts[1]) end = parts[1];
+  }
+  return { start, end };
+}
+
 async function adjustTimeline(
   state: GraphStateType,
 ): Promise<Partial<GraphStateType>> {
-  // TODO: Adjust timeline based on travel times
-  console.log("[adjustTimeline] Adjusting timeline");
-  return {};
+  console.log("[adjustTimeline] Reflowing plan timelines");
+
+  const plans = state.plans ?? [];
+  if (plans.length === 0) {
+    console.log("[adjustTimeline] No plans to adjust");
+    return {};
+  }
+
+  // Every leg gets a mode and a time - routed where we have one, else the calibrated estimate
+  const travel = getTravelLookup(state);
+  const { start, end } = resolveTimeWindow(state);
+
+  const adjustedPlans = plans.map((plan) => {
+    const adjusted = reflowPlan(plan, start, end, travel);
+    const last = adjusted.stops[adjusted.stops.length - 1];
+    console.log(
+      `[adjustTimeline] Plan ${plan.id}: ${adjusted.stops.length} stops, last at ${last?.time ?? "n/a"} for ${last?.durationMins ?? 0} min (window ${start}-${end})`,
+    );
+    for (const note of adjusted.notes) {
+      console.log(`[adjustTimeline]   ${note}`);
+    }
+    return adjusted;
+  });
+
+  // Re-time the skeleton with Plan A's real legs instead of the default buffer
+  const planALegs =
+    adjustedPlans[0]?.stops.slice(1).map((s) => s.travelFromPrevMins) ?? [];
+  if (!state.skeleton) {
+    return { plans: adjustedPlans };
+  }
+
+  return {
+    plans: adjustedPlans,
+    skeleton: retimeSkeleton(state.skeleton, planALegs),
+  };
 }
 
 // Helper to add minutes to time string
@@ -976,10 +1881,64 @@ function addMinutes(time: string, mins: number): string {
   return `${newH.toString().padStart(2, "0")}:${newM.toString().padStart(2, "0")}`;
 }
 
+// Helper to derive a specific stop label from an activity venue's name
+function getActivityLabel(name: string): string {
+  const venueName = name.toLowerCase();
+  if (venueName.includes("golf")) return "Golf";
+  if (venueName.includes("spa") || venueName.includes("wellness")) return "Spa";
+  if (venueName.includes("museum")) return "Museum";
+  if (venueName.includes("gallery")) return "Gallery";
+  if (venueName.includes("zoo")) return "Zoo";
+  if (venueName.includes("aquarium")) return "Aquarium";
+  if (venueName.includes("beach")) return "Beach";
+  if (venueName.includes("bowling")) return "Bowling";
+  if (venueName.includes("escape")) return "Escape Room";
+  if (venueName.includes("park")) return "Park";
+  return "Activity";
+}
+
+// Helper for a stop's "why it fits" until write_blurbs replaces it (the fallback text)
+function describeWhyItFits(venue: Venue): string {
+  return `Great option with ${venue.rating ?? "good"} rating`;
+}
+
+// Helper to estimate time spent at a venue based on its type
+function estimateStopDuration(venue: Venue): number {
+  const venueName = venue.name.toLowerCase();
+
+  if (venue.category === "activity") {
+    // Check for specific activity types that need more time
+    if (venueName.includes("golf")) {
+      return 270; // 4.5 hours for a round of golf
+    } else if (venueName.includes("spa") || venueName.includes("wellness")) {
+      return 180; // 3 hours for spa
+    } else if (venueName.includes("museum") || venueName.includes("gallery")) {
+      return 120; // 2 hours for museum
+    } else if (venueName.includes("zoo") || venueName.includes("aquarium") || venueName.includes("theme park")) {
+      return 180; // 3 hours for zoo/aquarium
+    } else if (venueName.includes("escape") || venueName.includes("bowling")) {
+      return 90; // 1.5 hours for escape room/bowling
+    } else if (venueName.includes("beach")) {
+      return 180; // 3 hours for beach
+    } else {
+      return 120; // 2 hours default for activities
+    }
+  } else {
+    // Standard durations for non-activity categories
+    const durations: Record<string, number> = {
+      drinks: 60,    // 1 hour for drinks
+      dinner: 105,   // 1.75 hours for dinner
+      dessert: 45,   // 45 min for dessert
+      scenic: 45,    // 45 min for scenic
+    };
+    return durations[venue.category] ?? 60;
+  }
+}
+
 // Helper to convert Venue to Backup format
 function venueToBackup(venue: Venue): Plan["backups"][0] {
   const label =
-    venue.category === "dinner" ? "Dinner backup" : "Activity backup";
+    venue.category.charAt(0).toUpperCase() + venue.category.slice(1) + " backup";
   return {
     label,
     name: venue.name,
@@ -988,177 +1947,173 @@ function venueToBackup(venue: Venue): Plan["backups"][0] {
   };
 }
 
-// Helper to build a plan from selected venues
-// Each venue gets a unique label based on order, not category
-function buildPlanFromVenues(
+// A skeleton slot filled with a venue from its pool
+interface FilledSlot {
+  slot: SkeletonSlot;
+  venue: Venue;
+}
+
+// Helper to fill each skeleton slot from its own pool (slots with empty pools are skipped)
+// pick() gets the slot's ranked pool and the venues already used in this plan
+function fillSlots(
+  slots: SkeletonSlot[],
+  pools: CandidatePools,
+  pick: (pool: Venue[], used: Set<string>) => Venue | undefined,
+): FilledSlot[] {
+  const used = new Set<string>();
+  const filled: FilledSlot[] = [];
+  for (const slot of slots) {
+    const venue = pick(getSlotPool(pools, slot), used);
+    if (!venue) continue;
+    used.add(venue.placeId);
+    filled.push({ slot, venue });
+  }
+  return filled;
+}
+
+// Helper to pair venues with the skeleton slots whose pools they came from (in slot order)
+function matchSlots(
+  slots: SkeletonSlot[],
+  pools: CandidatePools,
+  venues: Venue[],
+): FilledSlot[] {
+  const used = new Set<string>();
+  const filled: FilledSlot[] = [];
+  for (const slot of slots) {
+    const poolIds = new Set(getSlotPool(pools, slot).map((v) => v.placeId));
+    const venue = venues.find((v) => !used.has(v.placeId) && poolIds.has(v.placeId));
+    if (!venue) continue;
+    used.add(venue.placeId);
+    filled.push({ slot, venue });
+  }
+  return filled;
+}
+
+// Helper to get ordering options - each leg's travel in its mode (departing at the window start)
+function getOrderingOptions(windowStart: string, travel: TravelLookup): OrderingOptions {
+  return {
+    windowStart,
+    travelMins: (from, to) => travel(from, to, windowStart).mins,
+  };
+}
+
+// Helper to put filled slots in their shortest valid order (requested stops keep the user's order)
+function orderFilledSlots(
+  filled: FilledSlot[],
+  windowStart: string,
+  travel: TravelLookup,
+): FilledSlot[] {
+  const items = filled.map(({ slot, venue }) => ({
+    placeId: venue.placeId,
+    category: venue.category,
+    location: venue.location,
+    durationMins: estimateStopDuration(venue),
+    pinned: slot.request !== undefined,
+  }));
+  return optimiseStopOrder(items, getOrderingOptions(windowStart, travel))
+    .map((i) => filled[i])
+    .filter((f): f is FilledSlot => f !== undefined);
+}
+
+// Helper to get every activity candidate (the activity pool plus each requested activity's pool)
+function getActivityCandidates(pools: CandidatePools): Venue[] {
+  return listPools(pools)
+    .filter((pool) => pool.type === "activity")
+    .flatMap((pool) => pool.venues);
+}
+
+// Helper to note each requested activity a plan has no stop for
+function getUnmetRequestNotes(
+  requestedActivities: string[],
+  slots: SkeletonSlot[],
+  filled: FilledSlot[],
+  city: string,
+): string[] {
+  const filledSlots = new Set(filled.map(({ slot }) => slot));
+  const notes: string[] = [];
+  for (const activity of new Set(requestedActivities.map(normalizeRequest))) {
+    const serving = slots.filter((slot) => slot.request === activity);
+    if (serving.length > 0 && !serving.some((slot) => filledSlots.has(slot))) {
+      notes.push(`No stop for "${activity}" in this plan - not enough matching places near ${city}.`);
+    }
+  }
+  return notes;
+}
+
+// Helper to build a plan from filled skeleton slots, in slot order
+// Each stop gets a unique label based on its slot (or the specific activity)
+function buildPlanFromSlots(
   id: "A" | "B" | "C",
   title: string,
-  venues: Venue[],
+  filled: FilledSlot[],
   backupVenues: Venue[],
   startTime: string,
-  travelTimes: Record<string, number>,
-  mode: Mode,
-  familyFriendly: boolean = false,
+  travel: TravelLookup,
   budget: number = 100,
   partySize: number = 2,
 ): Plan {
-  // Deduplicate venues by placeId
-  const seen = new Set<string>();
-  const uniqueVenues = venues.filter((v) => {
-    if (seen.has(v.placeId)) return false;
-    seen.add(v.placeId);
-    return true;
-  });
-
-  // Sort by category preference - activity first, then dinner, then finish/drinks/dessert
-  // This respects the typical flow: do the activity, then eat, then maybe drinks/dessert
-  const categoryOrder = familyFriendly
-    ? ["activity", "dinner", "dessert", "scenic", "finish", "drinks"]
-    : ["activity", "dinner", "drinks", "dessert", "finish", "scenic"];
-
-  const sortedVenues = [...uniqueVenues].sort((a, b) => {
-    const aIndex = categoryOrder.indexOf(a.category);
-    const bIndex = categoryOrder.indexOf(b.category);
-    return (aIndex === -1 ? 999 : aIndex) - (bIndex === -1 ? 999 : bIndex);
-  });
-
-  // Calculate budget allocation per category (per person)
-  const numStops = sortedVenues.length || 3;
   const perPersonBudget = budget / partySize;
 
-  // Budget distribution: dinner gets ~45%, activity ~30%, drinks/dessert ~25%
-  const categoryBudgets: Record<string, number> = {
-    dinner: perPersonBudget * 0.45,
-    activity: perPersonBudget * 0.30,
-    drinks: perPersonBudget * 0.15,
-    dessert: perPersonBudget * 0.10,
-    finish: perPersonBudget * 0.15,
-    scenic: perPersonBudget * 0.05,
-  };
-
   const stops: Plan["stops"] = [];
   let currentTime = startTime;
-  let prevVenueId: string | undefined;
+  let prevVenue: Venue | undefined;
 
   // Track labels used to avoid duplicates like "Dinner", "Dinner"
   const labelCounts: Record<string, number> = {};
 
-  for (const venue of sortedVenues) {
-    // Get venue name for label and duration logic
-    const venueName = venue.name.toLowerCase();
-
-    // Get travel time from previous venue
-    let travelFromPrev = 0;
-    if (prevVenueId) {
-      const key = `${prevVenueId}->${venue.placeId}`;
-      travelFromPrev = travelTimes[key] ?? 10;
+  for (const { slot, venue } of filled) {
+    // Travel from the previous venue, in the mode chosen for the leg
+    const leg = prevVenue ? travel(prevVenue, venue, currentTime) : undefined;
+    if (leg) {
+      currentTime = addMinutes(currentTime, leg.mins);
     }
 
-    if (prevVenueId) {
-      currentTime = addMinutes(currentTime, travelFromPrev);
-    }
-
-    // Estimate cost based on budget allocation and price level
-    const categoryBudget = categoryBudgets[venue.category] ?? (perPersonBudget / numStops);
+    // Estimate cost based on the slot's budget share and price level
+    const slotBudget = (perPersonBudget * slot.budgetPercent) / 100;
     const priceLevel = venue.priceLevel ?? 2;
 
     // Adjust based on price level: 0=cheap, 2=moderate, 4=expensive
-    const priceMultiplier = [0.5, 0.75, 1.0, 1.3, 1.6][priceLevel] ?? 1.0;
-    const baseCost = categoryBudget * priceMultiplier;
+    const priceMultiplier = PRICE_LEVEL_MULTIPLIERS[priceLevel] ?? 1.0;
+    const baseCost = slotBudget * priceMultiplier;
 
     const estimatedCostRange: [number, number] = [
       Math.round(baseCost * 0.8),
       Math.round(baseCost * 1.2),
     ];
 
-    // Create descriptive label based on venue type
-    let baseLabel: string;
-    if (venue.category === "activity") {
-      // Use specific activity name based on venue
-      if (venueName.includes("golf")) {
-        baseLabel = "Golf";
-      } else if (venueName.includes("spa") || venueName.includes("wellness")) {
-        baseLabel = "Spa";
-      } else if (venueName.includes("museum")) {
-        baseLabel = "Museum";
-      } else if (venueName.includes("gallery")) {
-        baseLabel = "Gallery";
-      } else if (venueName.includes("zoo")) {
-        baseLabel = "Zoo";
-      } else if (venueName.includes("aquarium")) {
-        baseLabel = "Aquarium";
-      } else if (venueName.includes("beach")) {
-        baseLabel = "Beach";
-      } else if (venueName.includes("bowling")) {
-        baseLabel = "Bowling";
-      } else if (venueName.includes("escape")) {
-        baseLabel = "Escape Room";
-      } else if (venueName.includes("park")) {
-        baseLabel = "Park";
-      } else {
-        baseLabel = "Activity";
-      }
-    } else {
-      baseLabel = venue.category.charAt(0).toUpperCase() + venue.category.slice(1);
-    }
+    // Descriptive label: the specific activity if we can tell, else the slot's label
+    const activityLabel =
+      venue.category === "activity" ? getActivityLabel(venue.name) : "Activity";
+    const baseLabel = activityLabel !== "Activity" ? activityLabel : slot.label;
 
     const count = (labelCounts[baseLabel] ?? 0) + 1;
     labelCounts[baseLabel] = count;
     const label = count > 1 ? `${baseLabel} ${count}` : baseLabel;
 
+    const durationMins = estimateStopDuration(venue);
+
     stops.push({
       time: currentTime,
       label,
       venue,
       estimatedCostRange,
-      whyItFits: `Great option with ${venue.rating ?? "good"} rating`,
-      travelFromPrevMins: travelFromPrev,
-      openCheck:
-        mode === "verified"
-          ? "Verified: Check hours in Maps"
-          : "Standard (confirm hours in Maps)",
+      whyItFits: describeWhyItFits(venue),
+      travelFromPrevMins: leg?.mins ?? 0,
+      ...(leg && { travelMode: leg.mode, travelSource: leg.source }),
+      durationMins,
+      // Verified mode overwrites this in validate_hours
+      openCheck: "Standard (confirm hours in Maps)",
+      ...(slot.request !== undefined && { request: slot.request }),
     });
 
-    // Add duration at venue - estimate based on activity type
-    let duration: number;
-
-    if (venue.category === "activity") {
-      // Check for specific activity types that need more time
-      if (venueName.includes("golf")) {
-        duration = 270; // 4.5 hours for a round of golf
-      } else if (venueName.includes("spa") || venueName.includes("wellness")) {
-        duration = 180; // 3 hours for spa
-      } else if (venueName.includes("museum") || venueName.includes("gallery")) {
-        duration = 120; // 2 hours for museum
-      } else if (venueName.includes("zoo") || venueName.includes("aquarium") || venueName.includes("theme park")) {
-        duration = 180; // 3 hours for zoo/aquarium
-      } else if (venueName.includes("escape") || venueName.includes("bowling")) {
-        duration = 90; // 1.5 hours for escape room/bowling
-      } else if (venueName.includes("beach")) {
-        duration = 180; // 3 hours for beach
-      } else {
-        duration = 120; // 2 hours default for activities
-      }
-    } else {
-      // Standard durations for non-activity categories
-      const durations: Record<string, number> = {
-        drinks: 60,    // 1 hour for drinks
-        dinner: 105,   // 1.75 hours for dinner
-        dessert: 45,   // 45 min for dessert
-        finish: 60,    // 1 hour
-        scenic: 45,    // 45 min for scenic
-      };
-      duration = durations[venue.category] ?? 60;
-    }
-
-    currentTime = addMinutes(currentTime, duration);
-    prevVenueId = venue.placeId;
+    currentTime = addMinutes(currentTime, durationMins);
+    prevVenue = venue;
   }
 
   // Convert venue backups to Backup format
   const backups = backupVenues.map(venueToBackup);
 
-  return { id, title, stops, backups };
+  return { id, title, stops, backups, notes: [] };
 }
 
 async function generateVariants(
@@ -1167,20 +2122,18 @@ async function generateVariants(
   console.log("[generateVariants] Generating Plan A, B, and C variants");
 
   const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const activityCandidates = getActivityCandidates(pools);
   const city = state.city ?? "Barcelona";
-  const travelTimes = state.travelTimes ?? {};
-  const mode = state.mode ?? "standard";
+  const travel = getTravelLookup(state);
   const preferences = state.preferences ?? DEFAULT_PREFERENCES;
   const selectedVenues = Object.values(state.selectedVenues ?? {});
   const isFamily = preferences.familyFriendly === true;
   const budget = state.budget?.amount ?? 100;
   const partySize = state.partySize ?? 2;
-  const requestedActivities = state.requestedActivities ?? [];
 
   console.log("[generateVariants] Family friendly:", isFamily);
   console.log("[generateVariants] City:", city);
   console.log("[generateVariants] Budget:", budget, "Party size:", partySize);
-  console.log("[generateVariants] Requested activities:", requestedActivities);
 
   if (selectedVenues.length === 0) {
     console.log("[generateVariants] No selected venues");
@@ -1188,94 +2141,40 @@ async function generateVariants(
   }
 
   // Parse time window and calculate duration
-  let startTime = isFamily ? "11:00" : "18:00";
-  let endTime = isFamily ? "18:00" : "23:30";
-  if (state.timeWindow) {
-    const parts = state.timeWindow.split("-");
-    if (parts[0]) startTime = parts[0];
-    if (parts[1]) endTime = parts[1];
-  }
-
-  // Calculate available hours
-  const [startH, startM] = startTime.split(":").map(Number);
-  const [endH, endM] = endTime.split(":").map(Number);
-  const availableMinutes = ((endH ?? 18) * 60 + (endM ?? 0)) - ((startH ?? 11) * 60 + (startM ?? 0));
-  const availableHours = availableMinutes / 60;
+  const { start: startTime, end: endTime } = resolveTimeWindow(state);
+  const slots =
+    state.skeleton?.slots ??
+    createSkeleton(state.budget ?? { amount: budget, currency: "EUR" }, startTime, endTime).slots;
 
-  console.log("[generateVariants] Available hours:", availableHours);
-
-  // Determine which categories to include based on requestedActivities
-  const foodRelated = ["dinner", "lunch", "breakfast", "brunch", "food", "restaurant", "eat", "meal"];
-  const drinkRelated = ["drink", "bar", "cocktail", "wine", "beer", "pub"];
-  const dessertRelated = ["dessert", "ice cream", "gelato", "coffee", "cafe", "sweet"];
-
-  const hasMealRequest = requestedActivities.some(a =>
-    foodRelated.some(f => a.toLowerCase().includes(f))
-  );
-  const hasDrinksRequest = requestedActivities.some(a =>
-    drinkRelated.some(d => a.toLowerCase().includes(d))
-  );
-  const hasDessertRequest = requestedActivities.some(a =>
-    dessertRelated.some(d => a.toLowerCase().includes(d))
-  );
-  const hasActivityRequest = requestedActivities.some(a =>
-    !foodRelated.some(f => a.toLowerCase().includes(f)) &&
-    !drinkRelated.some(d => a.toLowerCase().includes(d)) &&
-    !dessertRelated.some(d => a.toLowerCase().includes(d))
+  console.log(
+    "[generateVariants] Slots:",
+    slots.map((s) => `${s.label} (${s.type})`),
   );
 
-  console.log("[generateVariants] Has activity request:", hasActivityRequest);
-  console.log("[generateVariants] Has meal request:", hasMealRequest);
-  console.log("[generateVariants] Has drinks request:", hasDrinksRequest);
-  console.log("[generateVariants] Has dessert request:", hasDessertRequest);
-
-  // Build the venue list based ONLY on what was requested
-  const extendedVenues: Venue[] = [];
-  const extendedIds = new Set<string>();
-
-  // Add activity venue if requested
-  if (hasActivityRequest && pools.activity.length > 0) {
-    const activityVenue = pools.activity[0];
-    if (activityVenue) {
-      extendedVenues.push(activityVenue);
-      extendedIds.add(activityVenue.placeId);
-    }
-  }
-
-  // Add dinner venue if requested
-  if (hasMealRequest && pools.dinner.length > 0) {
-    const dinnerVenue = pools.dinner[0];
-    if (dinnerVenue) {
-      extendedVenues.push(dinnerVenue);
-      extendedIds.add(dinnerVenue.placeId);
-    }
-  }
-
-  // Add finish venue if drinks or dessert requested
-  if ((hasDrinksRequest || hasDessertRequest) && pools.finish.length > 0) {
-    const finishVenue = pools.finish[0];
-    if (finishVenue) {
-      extendedVenues.push(finishVenue);
-      extendedIds.add(finishVenue.placeId);
-    }
-  }
-
-  // If no specific requests OR no venues found, fall back to selected venues
-  if (extendedVenues.length === 0) {
-    console.log("[generateVariants] No specific requests or venues - using selected venues");
-    extendedVenues.push(...selectedVenues);
-    selectedVenues.forEach(v => extendedIds.add(v.placeId));
-  }
+  // Finalists carry Place Details (rating, hours) - prefer them over raw search results
+  const enriched = new Map(selectedVenues.map((v) => [v.placeId, v]));
+  const withDetails = (filled: FilledSlot[]): FilledSlot[] =>
+    filled.map(({ slot, venue }) => ({ slot, venue: enriched.get(venue.placeId) ?? venue }));
+
+  // --- Plan A: Best overall fit (the finalist for each slot, then the next best) ---
+  const planAFilled = withDetails(
+    fillSlots(slots, pools, (pool, used) =>
+      pool.find((v) => enriched.has(v.placeId) && !used.has(v.placeId)) ??
+      pool.find((v) => !used.has(v.placeId)),
+    ),
+  );
 
-  console.log("[generateVariants] Extended venues:", extendedVenues.map(v => `${v.name} (${v.category})`));
+  console.log(
+    "[generateVariants] Plan A venues:",
+    planAFilled.map(({ venue }) => `${venue.name} (${venue.category})`),
+  );
 
   // Get IDs of venues used in Plan A
-  const planAIds = new Set(extendedVenues.map((v) => v.placeId));
+  const planAIds = new Set(planAFilled.map(({ venue }) => venue.placeId));
 
-  // --- Plan A: Best overall fit (uses selected venues + extras) ---
   const planABackups = [
     ...pools.dinner.filter((v) => !planAIds.has(v.placeId)).slice(0, 2),
-    ...pools.activity.filter((v) => !planAIds.has(v.placeId)).slice(0, 1),
+    ...activityCandidates.filter((v) => !planAIds.has(v.placeId)).slice(0, 1),
   ];
 
   // Different title for family vs date
@@ -1283,79 +2182,62 @@ async function generateVariants(
     ? "Family Day in " + city
     : "Romantic Evening in " + city;
 
-  const planA = buildPlanFromVenues(
+  const planA = buildPlanFromSlots(
     "A",
     planATitle,
-    extendedVenues,
+    planAFilled,
     planABackups,
     startTime,
-    travelTimes,
-    mode,
-    isFamily,
+    travel,
     budget,
     partySize,
   );
 
   // --- Plan B: "Playful & Memorable" - pick alternative venues emphasizing fun ---
-  // Use 2nd-ranked venues from each pool (or 3rd if 2nd is used in Plan A)
-  const planBVenues: Venue[] = [];
-  const planBIds = new Set<string>();
-
-  for (const category of ["activity", "dinner", "finish"] as const) {
-    const pool = pools[category];
-    // Find first venue not in Plan A
-    const alt = pool.find((v) => !planAIds.has(v.placeId));
-    if (alt) {
-      planBVenues.push(alt);
-      planBIds.add(alt.placeId);
-    } else if (pool[0]) {
-      // Fallback to first if all are used
-      planBVenues.push(pool[0]);
-      planBIds.add(pool[0].placeId);
-    }
-  }
+  // Use the best venue of each pool not in Plan A (or reuse one if the pool runs out)
+  const planBFilled = withDetails(
+    fillSlots(slots, pools, (pool, used) =>
+      pool.find((v) => !planAIds.has(v.placeId) && !used.has(v.placeId)) ??
+      pool.find((v) => !used.has(v.placeId)),
+    ),
+  );
+  const planBIds = new Set(planBFilled.map(({ venue }) => venue.placeId));
 
   const planBBackups = [
     ...pools.dinner
       .filter((v) => !planAIds.has(v.placeId) && !planBIds.has(v.placeId))
       .slice(0, 2),
-    ...pools.activity
+    ...activityCandidates
       .filter((v) => !planAIds.has(v.placeId) && !planBIds.has(v.placeId))
       .slice(0, 1),
   ];
 
   const planBTitle = isFamily ? "Fun for Everyone" : "Playful & Memorable";
-  const planB = buildPlanFromVenues(
+  const planB = buildPlanFromSlots(
     "B",
     planBTitle,
-    planBVenues,
+    orderFilledSlots(planBFilled, startTime, travel),
     planBBackups,
     startTime,
-    travelTimes,
-    mode,
-    isFamily,
+    travel,
     budget,
     partySize,
   );
 
   // --- Plan C: "Budget-Friendly Adventure" - pick lower price level venues ---
-  const planCVenues: Venue[] = [];
   const usedIds = new Set([...planAIds, ...planBIds]);
-
-  for (const category of ["activity", "dinner", "finish"] as const) {
-    const pool = pools[category];
-    // Sort by price level (ascending) and pick cheapest unused
-    const sortedByPrice = [...pool].sort(
-      (a, b) => (a.priceLevel ?? 2) - (b.priceLevel ?? 2),
-    );
-    const cheap = sortedByPrice.find((v) => !usedIds.has(v.placeId));
-    if (cheap) {
-      planCVenues.push(cheap);
-      usedIds.add(cheap.placeId);
-    } else if (sortedByPrice[0]) {
-      planCVenues.push(sortedByPrice[0]);
-    }
-  }
+  const byPrice = (pool: Venue[]) =>
+    [...pool].sort((a, b) => (a.priceLevel ?? 2) - (b.priceLevel ?? 2));
+  const planCFilled = withDetails(
+    fillSlots(slots, pools, (pool, used) => {
+      const sortedByPrice = byPrice(pool);
+      return (
+        sortedByPrice.find((v) => !usedIds.has(v.placeId) && !used.has(v.placeId)) ??
+        sortedByPrice.find((v) => !used.has(v.placeId))
+      );
+    }),
+  );
+  for (const { venue } of planCFilled) usedIds.add(venue.placeId);
 
   const planCBackups = pools.dinner
     .filter((v) => !usedIds.has(v.placeId))
@@ -1364,15 +2246,13 @@ async function generateVariants(
   const planCTitle = isFamily
     ? "Budget Family Fun"
     : "Budget-Friendly Adventure";
-  const planC = buildPlanFromVenues(
+  const planC = buildPlanFromSlots(
     "C",
     planCTitle,
-    planCVenues,
+    orderFilledSlots(planCFilled, startTime, travel),
     planCBackups,
     startTime,
-    travelTimes,
-    mode,
-    isFamily,
+    travel,
     budget * 0.7, // Budget-friendly plan uses 70% of budget
     partySize,
   );
@@ -1381,147 +2261,520 @@ async function generateVariants(
   console.log(`[generateVariants] Plan B: ${planB.stops.length} stops`);
   console.log(`[generateVariants] Plan C: ${planC.stops.length} stops`);
 
+  // Say which requested activities a plan couldn't include instead of dropping them silently
+  const requestedActivities = state.requestedActivities ?? [];
+  const plans = (
+    [[planA, planAFilled], [planB, planBFilled], [planC, planCFilled]] as const
+  ).map(([plan, filled]) => ({
+    ...plan,
+    notes: [
+      ...plan.notes,
+      ...getUnmetRequestNotes(requestedActivities, slots, filled, city),
+    ],
+  }));
+  for (const plan of plans) {
+    for (const note of plan.notes) {
+      console.log(`[generateVariants] Plan ${plan.id}: ${note}`);
+    }
+  }
+
   return {
-    plans: [planA, planB, planC],
+    plans,
   };
 }
 
-async function buildSwapMenu(
-  state: GraphStateType,
-): Promise<Partial<GraphStateType>> {
-  console.log("[buildSwapMenu] Building swap menu");
+// Venue name keywords for the swap menu
+const ALCOHOL_FREE_KEYWORDS = ["cafe", "coffee", "tea", "dessert", "ice cream", "gelato", "bakery"];
 
-  const pools = state.candidatePools;
-  const swapMenu: SwapMenuItem[] = [];
+// Slot types a budget swap skips first (least important first)
+const BUDGET_DROP_ORDER: SlotType[] = ["dessert", "drinks", "scenic"];
 
-  // --- Rain Mode: Suggest indoor alternatives ---
-  const indoorActivities = pools.activity.filter(
-    (v) =>
-      v.name.toLowerCase().includes("museum") ||
-      v.name.toLowerCase().includes("gallery") ||
-      v.name.toLowerCase().includes("cinema") ||
-      v.name.toLowerCase().includes("theater") ||
-      v.name.toLowerCase().includes("escape") ||
-      v.name.toLowerCase().includes("bowling") ||
-      v.name.toLowerCase().includes("spa"),
+// Max rebuilds of a swap plan while replacing stops closed at their new time
+const MAX_SWAP_ATTEMPTS = 12;
+
+// Helper to check a venue's name for any of the keywords
+function nameHas(venue: Venue, keywords: string[]): boolean {
+  const name = venue.name.toLowerCase();
+  return keywords.some((k) => name.includes(k));
+}
+
+// Helper to tell if a venue serves no alcohol: by the drinks its details list, else by its name
+function isAlcoholFree(venue: Venue): boolean {
+  const drinks = [venue.servesBeer, venue.servesWine, venue.servesCocktails];
+  if (drinks.some((d) => d !== undefined)) {
+    return !drinks.includes(true);
+  }
+  return venue.category === "dessert" || nameHas(venue, ALCOHOL_FREE_KEYWORDS);
+}
+
+// Helper to pair Plan A's stops with the skeleton slots they fill (in slot order)
+function getPlanASlots(state: GraphStateType): FilledSlot[] {
+  return matchSlots(
+    state.skeleton?.slots ?? [],
+    state.candidatePools ?? DEFAULT_CANDIDATE_POOLS,
+    (state.plans?.[0]?.stops ?? []).map((s) => s.venue),
   );
+}
+
+// A Plan A slot in a swap: its current venue and the venues to try instead (best first, none skips it)
+interface SwapSlot extends FilledSlot {
+  candidates: Venue[];
+}
+
+// Plan A with a swap applied, and what changed ("swap X for Y", "skip Z")
+interface SwapPlan {
+  plan: Plan;
+  changes: string[];
+}
 
-  const indoorFinish = pools.finish.filter(
-    (v) =>
-      v.name.toLowerCase().includes("bar") ||
-      v.name.toLowerCase().includes("lounge") ||
-      v.name.toLowerCase().includes("club") ||
-      v.name.toLowerCase().includes("jazz") ||
-      v.name.toLowerCase().includes("cocktail"),
+// Helper to keep a Plan A slot as is (falling back to its pool if the venue is closed at its new time)
+function keepSlot(pools: CandidatePools, { slot, venue }: FilledSlot): SwapSlot {
+  return { slot, venue, candidates: [venue, ...getSlotPool(pools, slot)] };
+}
+
+// Helper to check a plan's estimated spend (mid-range, whole party) against the budget
+function isOverBudget(stops: Plan["stops"], budget: number, partySize: number): boolean {
+  const [min, max] = getPerPersonTotal(stops);
+  return ((min + max) / 2) * partySize > budget;
+}
+
+/**
+ * Build Plan A with a swap applied: re-timed stops, substituted venues, costs and travel recomputed
+ * Stops known to be closed at their new time are replaced from the slot's candidates,
+ * and with fitBudget the least important stops are skipped until the plan is within budget
+ * No API calls - opening hours are the ones fetched earlier in this thread
+ */
+function buildSwapPlan(
+  state: GraphStateType,
+  title: string,
+  swapSlots: SwapSlot[],
+  knownVenues: Map<string, Venue>,
+  now: Date,
+  fitBudget: boolean = false,
+): SwapPlan {
+  const { start, end } = resolveTimeWindow(state);
+  const budget = state.budget ?? { amount: 100, currency: "EUR" };
+  const partySize = state.partySize ?? 2;
+  const dayOfWeek = resolveDayOfWeek(state.dateResolved, state.timezone ?? "UTC", now);
+
+  const candidates = swapSlots.map(({ candidates }) =>
+    candidates.map((v) => knownVenues.get(v.placeId) ?? v),
   );
+  const travel = getTravelLookup(state);
+
+  const rejected = swapSlots.map(() => new Set<string>()); // Closed at their planned time
+  const skipped = new Set<number>(); // Slots skipped to fit the budget
+
+  const build = () => {
+    const used = new Set<string>();
+    const chosen = candidates.map((list, i) => {
+      if (skipped.has(i)) return undefined;
+      const venue = list.find((v) => !used.has(v.placeId) && !rejected[i]?.has(v.placeId));
+      if (venue) used.add(venue.placeId);
+      return venue;
+    });
+    const filled = swapSlots.flatMap(({ slot }, i) => {
+      const venue = chosen[i];
+      return venue ? [{ slot, venue }] : [];
+    });
+    const plan = reflowPlan(
+      buildPlanFromSlots("A", title, filled, [], start, travel, budget.amount, partySize),
+      start,
+      end,
+      travel,
+    );
+    return { plan, chosen };
+  };
 
-  let rainInstruction = "If weather turns bad: ";
-  if (indoorActivities.length > 0) {
-    rainInstruction += `swap activity to ${indoorActivities[0]?.name}`;
-    if (indoorActivities[0]?.mapsUrl) {
-      rainInstruction += ` (${indoorActivities[0].mapsUrl})`;
+  let built = build();
+  for (let attempt = 1; attempt < MAX_SWAP_ATTEMPTS; attempt++) {
+    const closed = built.plan.stops.find(
+      (s) => isVenueOpenAtArrival(s.venue, dayOfWeek, s.time, start) === false,
+    );
+    if (closed) {
+      const i = built.chosen.findIndex((v) => v?.placeId === closed.venue.placeId);
+      rejected[i]?.add(closed.venue.placeId);
+      built = build();
+      continue;
     }
-  } else {
-    rainInstruction += "move directly to dinner (skip outdoor activity)";
+
+    if (fitBudget && isOverBudget(built.plan.stops, budget.amount, partySize)) {
+      const droppable = BUDGET_DROP_ORDER.flatMap((type) =>
+        swapSlots
+          .map(({ slot }, i) => ({ type: slot.type, i }))
+          .filter(({ type: t, i }) => t === type && built.chosen[i] !== undefined)
+          .reverse(),
+      )[0];
+      if (droppable) {
+        skipped.add(droppable.i);
+        built = build();
+        continue;
+      }
+    }
+    break;
   }
-  if (indoorFinish.length > 0) {
-    rainInstruction += `. For drinks, try ${indoorFinish[0]?.name}`;
+
+  const { plan, chosen } = built;
+  const notes: string[] = [];
+  const changes: string[] = [];
+  swapSlots.forEach(({ venue }, i) => {
+    const next = chosen[i];
+    if (next) {
+      if (next.placeId !== venue.placeId) changes.push(`swap ${venue.name} for ${next.name}`);
+      return;
+    }
+    changes.push(`skip ${venue.name}`);
+    if (skipped.has(i)) {
+      notes.push(`Skipped ${venue.name} to stay within the ${formatMoney(budget.amount, budget.currency)} budget.`);
+    } else if ((candidates[i]?.length ?? 0) > 0) {
+      notes.push(`No alternative for ${venue.name} is open at that time - stop skipped.`);
+    }
+  });
+  if (isOverBudget(plan.stops, budget.amount, partySize)) {
+    const perPerson = getPerPersonTotal(plan.stops);
+    notes.push(
+      `Estimated ${formatMoneyRange([perPerson[0] * partySize, perPerson[1] * partySize], budget.currency)} is over the ${formatMoney(budget.amount, budget.currency)} budget.`,
+    );
   }
-  rainInstruction += ". All restaurants in the plan are indoors.";
 
-  swapMenu.push({
-    swap: "rain_mode",
-    instruction: rainInstruction,
+  // Same opening hours wording as validate_hours
+  const stops = plan.stops.map((stop) => {
+    const open = isVenueOpenAtArrival(stop.venue, dayOfWeek, stop.time, start);
+    const openCheck =
+      open === true
+        ? `Verified: open at ${stop.time}`
+        : open === false
+          ? `Closed at ${stop.time} per Google hours - no open alternative found, confirm in Maps`
+          : "Unverified: no opening hours listed (confirm in Maps)";
+    return { ...stop, openCheck };
   });
 
-  // --- Budget Lower: Find cheaper alternatives ---
-  const cheaperDinner = [...pools.dinner]
-    .sort((a, b) => (a.priceLevel ?? 2) - (b.priceLevel ?? 2))
-    .find((v) => (v.priceLevel ?? 2) <= 1);
+  const stopNames = new Set(stops.map((s) => s.venue.name));
+  const backups = (state.plans?.[0]?.backups ?? []).filter((b) => !stopNames.has(b.name));
+
+  return {
+    plan: { ...plan, stops, backups, notes: [...plan.notes, ...notes] },
+    changes,
+  };
+}
+
+// Helper to build a swap menu entry - the plan is only attached when the swap changes Plan A
+function toSwapMenuItem(
+  swap: string,
+  swapPlan: SwapPlan | undefined,
+  describe: (changes: string[]) => string,
+  unchanged: string,
+): SwapMenuItem {
+  if (!swapPlan || swapPlan.changes.length === 0) {
+    return { swap, instruction: unchanged };
+  }
+  return { swap, instruction: describe(swapPlan.changes), plan: swapPlan.plan };
+}
 
-  const cheaperActivity = [...pools.activity]
-    .sort((a, b) => (a.priceLevel ?? 2) - (b.priceLevel ?? 2))
-    .find((v) => (v.priceLevel ?? 2) <= 1);
+// Helper to get the straight-line walking distance of a plan in km (one decimal)
+function getWalkingKm(stops: Plan["stops"]): number {
+  return Math.round(calculateItineraryDistance(stops.map((s) => s.venue)) / 100) / 10;
+}
 
-  let budgetInstruction = "To reduce spend: ";
-  const budgetTips: string[] = [];
+async function buildSwapMenu(
+  state: GraphStateType,
+  deps: GraphDeps,
+): Promise<Partial<GraphStateType>> {
+  console.log("[buildSwapMenu] Building swap menu");
 
-  if (cheaperDinner) {
-    budgetTips.push(`swap dinner to ${cheaperDinner.name} (€€ or less)`);
-  } else {
-    budgetTips.push("share dishes at dinner");
+  const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const planA = state.plans?.[0];
+  const planASlots = getPlanASlots(state);
+  const activityCandidates = getActivityCandidates(pools);
+
+  // Hours fetched earlier in the thread (validate_hours puts them on the plan's stops)
+  const knownVenues = new Map<string, Venue>([
+    ...Object.values(state.detailedVenues ?? {}).map((v) => [v.placeId, v] as const),
+    ...Object.values(state.selectedVenues ?? {}).map((v) => [v.placeId, v] as const),
+    ...(planA?.stops ?? []).map((s) => [s.venue.placeId, s.venue] as const),
+  ]);
+  const swapPlan = (name: string, swapSlots: SwapSlot[], fitBudget: boolean = false) =>
+    planA && swapSlots.length > 0
+      ? buildSwapPlan(
+          state,
+          `${planA.title} - ${name}`,
+          swapSlots,
+          knownVenues,
+          deps.now(),
+          fitBudget,
+        )
+      : undefined;
+
+  const swapMenu: SwapMenuItem[] = [];
+
+  // --- Rain Mode: Swap outdoor stops for indoor activities ---
+  const indoorActivities = activityCandidates.filter(isIndoorVenue);
+  const isOutdoor = ({ slot, venue }: FilledSlot) =>
+    slot.type === "scenic" ||
+    (slot.type === "activity" && (isOutdoorVenue(venue) || isOutdoorRequest(slot.request)));
+  const rainPlan = planASlots.some(isOutdoor)
+    ? swapPlan(
+        "Rain Mode",
+        planASlots.map((filled) =>
+          isOutdoor(filled)
+            ? {
+                slot: { label: "Indoor activity", type: filled.slot.type, budgetPercent: filled.slot.budgetPercent },
+                venue: filled.venue,
+                candidates: indoorActivities,
+              }
+            : keepSlot(pools, filled),
+        ),
+      )
+    : undefined;
+
+  swapMenu.push(
+    toSwapMenuItem(
+      "rain_mode",
+      rainPlan,
+      (changes) => `If weather turns bad: ${changes.join("; ")}. Everything else in the plan is indoors.`,
+      "If weather turns bad: no changes needed - every stop in the plan is indoors.",
+    ),
+  );
+
+  // --- Outdoor Mode: the plan was kept indoors for the forecast - swap the activity back out ---
+  if (state.weather && isBadWeather(state.weather)) {
+    const outdoorOptions = [...activityCandidates, ...pools.scenic].filter(isOutdoorVenue);
+    const indoorActivity = planASlots.findIndex(
+      (filled) => filled.slot.type === "activity" && filled.slot.request === undefined && !isOutdoor(filled),
+    );
+    const outdoorPlan = indoorActivity !== -1
+      ? swapPlan(
+          "Outdoor Mode",
+          planASlots.map((filled, i) =>
+            i === indoorActivity
+              ? {
+                  slot: { ...filled.slot, label: "Outdoor activity" },
+                  venue: filled.venue,
+                  candidates: [...outdoorOptions, filled.venue], // Kept if none is open
+                }
+              : keepSlot(pools, filled),
+          ),
+        )
+      : undefined;
+
+    swapMenu.push(
+      toSwapMenuItem(
+        "outdoor_mode",
+        outdoorPlan,
+        (changes) => `If the weather clears: ${changes.join("; ")}.`,
+        "If the weather clears: no outdoor alternative found nearby - the plan stays as is.",
+      ),
+    );
   }
 
-  if (cheaperActivity) {
-    budgetTips.push(`try ${cheaperActivity.name} for activity`);
-  } else {
-    budgetTips.push("opt for a free walking activity like a scenic stroll");
+  // --- Budget Lower: Cheapest option for each stop, skipping dessert/drinks if still over budget ---
+  const byPrice = (venues: Venue[]) =>
+    [...venues].sort((a, b) => (a.priceLevel ?? 2) - (b.priceLevel ?? 2));
+  const budgetPlan = swapPlan(
+    "Budget Saver",
+    planASlots.map(({ slot, venue }) => ({
+      slot,
+      venue,
+      candidates: byPrice([venue, ...getSlotPool(pools, slot)]),
+    })),
+    true,
+  );
+
+  swapMenu.push(
+    toSwapMenuItem(
+      "budget_lower",
+      budgetPlan,
+      (changes) => `To reduce spend: ${changes.join("; ")}.`,
+      "To reduce spend: the plan already uses the cheapest places found - share dishes at dinner or skip dessert/after-dinner drinks.",
+    ),
+  );
+
+  // --- No Alcohol: Swap drinks stops for alcohol-free venues ---
+  const alcoholFree = [...pools.dessert, ...pools.drinks].filter(isAlcoholFree);
+  const noAlcoholPlan = planASlots.some(({ slot }) => slot.type === "drinks")
+    ? swapPlan(
+        "Alcohol-Free",
+        planASlots.map((filled) =>
+          filled.slot.type === "drinks"
+            ? {
+                slot: { ...filled.slot, label: "Café / Treat", type: "dessert" as const },
+                venue: filled.venue,
+                candidates: alcoholFree,
+              }
+            : keepSlot(pools, filled),
+        ),
+      )
+    : undefined;
+
+  swapMenu.push(
+    toSwapMenuItem(
+      "no_alcohol",
+      noAlcoholPlan,
+      (changes) =>
+        `For an alcohol-free evening: ${changes.join("; ")}. Most restaurants offer non-alcoholic pairings on request.`,
+      "For an alcohol-free evening: the plan has no bar stops - most restaurants offer non-alcoholic pairings on request.",
+    ),
+  );
+
+  // --- More Walkable: Pick the places closest to dinner (or the first stop) ---
+  const anchor =
+    planASlots.find(({ slot }) => slot.type === "dinner")?.venue ?? planASlots[0]?.venue;
+  const byDistance = (venues: Venue[]) =>
+    anchor
+      ? [...venues].sort(
+          (a, b) =>
+            calculateDistance(anchor.location, a.location) -
+            calculateDistance(anchor.location, b.location),
+        )
+      : venues;
+  const walkablePlan = swapPlan(
+    "Short Walks",
+    planASlots.map((filled) =>
+      filled.venue.placeId === anchor?.placeId
+        ? keepSlot(pools, filled)
+        : { ...filled, candidates: byDistance([filled.venue, ...getSlotPool(pools, filled.slot)]) },
+    ),
+  );
+
+  const planAKm = getWalkingKm(planA?.stops ?? []);
+  const walkableKm = getWalkingKm(walkablePlan?.plan.stops ?? []);
+  const longestLeg = Math.max(0, ...(walkablePlan?.plan.stops ?? []).map((s) => s.travelFromPrevMins));
+  swapMenu.push(
+    toSwapMenuItem(
+      "more_walkable",
+      walkablePlan && walkableKm < planAKm ? walkablePlan : undefined,
+      (changes) =>
+        `To reduce walking: ${changes.join("; ")} - about ${walkableKm} km between stops instead of ${planAKm} km.` +
+        (longestLeg > 15 ? " Consider transit for the longer legs (check Google Maps for metro/bus)." : ""),
+      "To reduce walking: the stops are already the closest options found. Ask the restaurant for nearby bar recommendations to minimize the final walk.",
+    ),
+  );
+
+  console.log(
+    `[buildSwapMenu] Created ${swapMenu.length} swap options (${swapMenu.filter((s) => s.plan).length} with alternate plans)`,
+  );
+  for (const item of swapMenu) {
+    console.log(`[buildSwapMenu]   ${item.swap}: ${item.instruction}`);
   }
 
-  budgetTips.push("skip dessert/after-dinner drinks");
-  budgetInstruction += budgetTips.join("; ") + ".";
+  return {
+    swapMenu,
+  };
+}
 
-  swapMenu.push({
-    swap: "budget_lower",
-    instruction: budgetInstruction,
-  });
+async function checkBudget(
+  state: GraphStateType,
+): Promise<Partial<GraphStateType>> {
+  console.log("[checkBudget] Checking plan costs against the budget");
 
-  // --- No Alcohol: Suggest alcohol-free venues ---
-  const nonBarFinish = pools.finish.filter(
-    (v) =>
-      v.name.toLowerCase().includes("cafe") ||
-      v.name.toLowerCase().includes("coffee") ||
-      v.name.toLowerCase().includes("tea") ||
-      v.name.toLowerCase().includes("dessert") ||
-      v.name.toLowerCase().includes("ice cream") ||
-      v.name.toLowerCase().includes("gelato") ||
-      v.name.toLowerCase().includes("bakery"),
+  const budget = state.budget ?? { amount: 100, currency: "EUR" };
+  const pools = state.candidatePools ?? DEFAULT_CANDIDATE_POOLS;
+  const budgetBreakdown = buildBudgetBreakdown(
+    state.plans ?? [],
+    budget,
+    state.partySize ?? 2,
+    (venue) => getPoolForVenue(pools, venue),
   );
 
-  let noAlcoholInstruction = "For an alcohol-free evening: ";
-  if (nonBarFinish.length > 0) {
-    noAlcoholInstruction += `replace bar stops with ${nonBarFinish[0]?.name}`;
-    if (nonBarFinish.length > 1) {
-      noAlcoholInstruction += ` or ${nonBarFinish[1]?.name}`;
-    }
-  } else {
-    noAlcoholInstruction +=
-      "ask for mocktails at bar venues, or swap to a dessert cafe";
+  for (const plan of budgetBreakdown.plans) {
+    console.log(
+      `[checkBudget] Plan ${plan.planId}: ${describePlanBudget(plan, budget, state.partySize ?? 2)}`,
+    );
   }
-  noAlcoholInstruction +=
-    ". Most restaurants offer non-alcoholic pairings on request.";
 
-  swapMenu.push({
-    swap: "no_alcohol",
-    instruction: noAlcoholInstruction,
-  });
+  return {
+    budgetBreakdown,
+  };
+}
+
+async function bookingChecklist(
+  state: GraphStateType,
+  deps: GraphDeps,
+): Promise<Partial<GraphStateType>> {
+  console.log("[bookingChecklist] Deciding what to book ahead");
 
-  // --- More Walkable: Reduce walking distance ---
-  // Find venues that are closer together (use travel times if available)
+  // The checklist is for Plan A (the recommended plan)
   const planA = state.plans?.[0];
-  const avgTravelTime =
-    planA?.stops?.reduce((sum, s) => sum + s.travelFromPrevMins, 0) ?? 0;
-  const stopCount = planA?.stops?.length ?? 1;
-  const avgPerLeg = Math.round(avgTravelTime / Math.max(stopCount - 1, 1));
-
-  let walkableInstruction = "To reduce walking: ";
-  if (avgPerLeg > 15) {
-    walkableInstruction +=
-      "consider using transit between stops (check Google Maps for metro/bus). ";
-  }
-  walkableInstruction += "Keep all venues in the same neighborhood. ";
-  walkableInstruction +=
-    "Ask restaurant for nearby bar recommendations to minimize final walk.";
-
-  swapMenu.push({
-    swap: "more_walkable",
-    instruction: walkableInstruction,
+  if (!planA) {
+    return { bookingChecklist: [] };
+  }
+
+  const { start } = resolveTimeWindow(state);
+  const checklist = buildBookingChecklist(planA, {
+    partySize: state.partySize ?? 2,
+    dayOfWeek: resolveDayOfWeek(state.dateResolved, state.timezone ?? "UTC", deps.now()),
+    windowStart: start,
   });
 
-  console.log(`[buildSwapMenu] Created ${swapMenu.length} swap options`);
+  console.log(`[bookingChecklist] ${checklist.length} of ${planA.stops.length} stops to book`);
+  for (const item of checklist) {
+    console.log(`[bookingChecklist]   ${item.priority}: ${item.venue} - ${item.note}`);
+  }
 
   return {
-    swapMenu,
+    bookingChecklist: checklist,
+  };
+}
+
+// Write a short blurb per venue in the plans and swap menu with one batched LLM call,
+// grounded in the venue's data and the user's vibes/likes - venues blurbed earlier in the
+// thread are reused, and without the LLM the heuristic text stays
+async function writeBlurbs(
+  state: GraphStateType,
+  deps: GraphDeps,
+): Promise<Partial<GraphStateType>> {
+  if (!deps.llmBlurbs) {
+    console.log("[writeBlurbs] LLM blurbs are off - keeping the heuristic text");
+    return {};
+  }
+
+  const plans = state.plans ?? [];
+  const swapMenu = state.swapMenu ?? [];
+  const preferences = state.preferences ?? DEFAULT_PREFERENCES;
+  let blurbs = state.blurbs ?? {};
+
+  // One entry per venue not blurbed yet (its first stop says why it was picked)
+  const facts = new Map<string, Record<string, unknown>>();
+  const stops = [...plans, ...swapMenu.flatMap((item) => (item.plan ? [item.plan] : []))]
+    .flatMap((plan) => plan.stops);
+  for (const stop of stops) {
+    const id = stop.venue.placeId;
+    if (!blurbs[id] && !facts.has(id)) facts.set(id, getVenueFacts(stop));
+  }
+
+  if (facts.size > 0) {
+    console.log(`[writeBlurbs] Writing blurbs for ${facts.size} venues`);
+    try {
+      const llm = createLLM();
+      const response = await llm.invoke([
+        { role: "system", content: formatBlurbPrompt(describeOuting(preferences, state.partySize ?? 2)) },
+        { role: "user", content: JSON.stringify([...facts.values()]) },
+      ]);
+      const content = typeof response.content === "string" ? response.content : "";
+
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch
+        ? BlurbsSchema.safeParse(JSON.parse(jsonMatch[0]))
+        : undefined;
+      if (parsed?.success) {
+        const written = validateBlurbs(parsed.data, facts);
+        console.log(`[writeBlurbs] ${Object.keys(written).length}/${facts.size} blurbs passed validation`);
+        blurbs = { ...blurbs, ...written };
+      } else {
+        console.log("[writeBlurbs] Invalid blurbs:", parsed?.error.message ?? "no JSON");
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      console.log("[writeBlurbs] Error:", message);
+    }
+  }
+
+  return {
+    blurbs,
+    plans: plans.map((plan) => applyBlurbs(plan, blurbs)),
+    swapMenu: swapMenu.map((item) =>
+      item.plan ? { ...item, plan: applyBlurbs(item.plan, blurbs) } : item,
+    ),
   };
 }
 
@@ -1550,6 +2803,27 @@ async function formatOutput(
   return {};
 }
 
+// How each travel mode is shown in the itinerary
+const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  WALK: "🚶",
+  BICYCLE: "🚲",
+  TRANSIT: "🚇",
+  DRIVE: "🚕",
+};
+const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  WALK: "walk",
+  BICYCLE: "by bike",
+  TRANSIT: "by transit",
+  DRIVE: "by taxi",
+};
+
+// Booking checklist priority markers
+const BOOKING_PRIORITY_ICONS: Record<BookingChecklistItem["priority"], string> = {
+  high: "🔴",
+  medium: "🟠",
+  low: "⚪",
+};
+
 async function policyGate(
   state: GraphStateType,
 ): Promise<Partial<GraphStateType>> {
@@ -1603,42 +2877,69 @@ async function policyGate(
     return "Highly rated local spot";
   };
 
+  // Budget status per plan (check_budget normally sets it)
+  const partySize = state.partySize ?? 2;
+  const { dietary, mobility } = state.preferences ?? DEFAULT_PREFERENCES;
+  const budgetBreakdown =
+    state.budgetBreakdown ??
+    buildBudgetBreakdown(plans, budget, partySize, () => []);
+
   // Build markdown response for Warden App
   const planText = plans
     .map((plan) => {
       // Build Google Maps route URL for this plan
-      const routeStops = plan.stops
-        ?.map((stop) => {
-          const loc = stop.venue?.location;
-          return loc ? `${loc.lat},${loc.lng}` : "";
-        })
-        .filter(Boolean)
-        .join("/");
-      const routeUrl = `https://www.google.com/maps/dir/${routeStops}`;
+      const routeUrl = getRouteUrl(plan.stops);
 
       const stopsText = plan.stops
         ?.map((stop, i) => {
           const rating = stop.venue?.rating ? `⭐ ${stop.venue.rating}` : "";
+          const price =
+            stop.venue?.priceLevel !== undefined
+              ? formatPriceLevel(stop.venue.priceLevel, budget.currency)
+              : "";
           const cost = stop.estimatedCostRange
-            ? `€${stop.estimatedCostRange[0]}-${stop.estimatedCostRange[1]}/person`
+            ? `${formatMoneyRange(stop.estimatedCostRange, budget.currency)}/person`
             : "";
+          // "~" marks an estimated (not routed) travel time; legs not on foot link their directions
+          const prev = plan.stops[i - 1];
+          const mode = stop.travelMode ?? "WALK";
+          const directions =
+            prev && mode !== "WALK"
+              ? ` ([directions](${getDirectionsUrl([prev.venue.location, stop.venue.location], mode)}))`
+              : "";
+          // Transit step-free access can't be checked (the Routes API has no such option)
+          const stepFree = mode === "TRANSIT" && mobility !== "full" ? ", check step-free access" : "";
           const walk =
             i > 0 && stop.travelFromPrevMins > 0
-              ? `🚶 ${stop.travelFromPrevMins} min`
+              ? `${TRAVEL_MODE_ICONS[mode]} ${stop.travelSource === "estimated" ? "~" : ""}${stop.travelFromPrevMins} min ${TRAVEL_MODE_LABELS[mode]}${stepFree}${directions}`
               : "";
 
-          const description = getDescription(stop.venue?.category ?? "", stop.venue?.name ?? "");
+          // The LLM blurb, else Google's summary, else a guess from the category and name
+          const description =
+            stop.description ??
+            stop.venue.editorialSummary ??
+            getDescription(stop.venue?.category ?? "", stop.venue?.name ?? "");
+          const why = stop.description ? `\n\n${stop.whyItFits}` : "";
+          const dietaryCheck = describeDietaryCheck(stop.venue, dietary);
+          const accessibilityCheck = describeAccessibilityCheck(stop.venue, mobility);
+          const checkLines = [
+            dietaryCheck && `🥗 ${dietaryCheck}`,
+            accessibilityCheck && `♿ ${accessibilityCheck}`,
+          ]
+            .filter(Boolean)
+            .map((line) => `\n\n${line}`)
+            .join("");
 
           // Markdown block for each stop
           return `### ${stop.time} ${stop.label}
 
 **${stop.venue?.name}**
 
-_${description}_
+_${description}_${why}${checkLines}
 
 ${stop.venue?.address}
 
-${[rating, cost, walk].filter(Boolean).join(" · ")}
+${[rating, price, cost, walk].filter(Boolean).join(" · ")}
 
 [Open in Maps](${stop.venue?.mapsUrl})`;
         })
@@ -1648,52 +2949,113 @@ ${[rating, cost, walk].filter(Boolean).join(" · ")}
         ? `\n\n**Alternatives:** ${plan.backups.map((b) => b.name).join(", ")}`
         : "";
 
+      const notes = plan.notes?.length
+        ? `\n\n${plan.notes.map((n) => `> ⚠️ ${n}`).join("\n>\n")}`
+        : "";
+
+      const planBudget = budgetBreakdown.plans.find((b) => b.planId === plan.id);
+      const spend = planBudget
+        ? `\n\n${planBudget.overBy !== undefined ? "⚠️" : "💶"} **Estimated:** ${describePlanBudget(planBudget, budget, partySize)}` +
+          `\n\n${Object.entries(planBudget.byCategory)
+            .map(([category, range]) => `${category.charAt(0).toUpperCase()}${category.slice(1)} ${formatMoneyRange(range, budget.currency)}`)
+            .join(" · ")}`
+        : "";
+
       return `## ${plan.title}
 
-${stopsText}${backups}
+${stopsText}${backups}${notes}${spend}
 
 🗺️ [View Full Route in Google Maps](${routeUrl})`;
     })
     .join("\n\n---\n\n");
 
-  // Calculate totals (per-person costs * party size = total)
-  const partySize = state.partySize ?? 2;
-  const perPersonTotal = plans[0]?.stops?.reduce<[number, number]>(
-    (acc, stop) => [
-      acc[0] + (stop.estimatedCostRange?.[0] ?? 0),
-      acc[1] + (stop.estimatedCostRange?.[1] ?? 0),
-    ],
-    [0, 0],
-  ) ?? [0, 0];
-
-  // Total for the whole party
-  const estimatedTotal: [number, number] = [
-    perPersonTotal[0] * partySize,
-    perPersonTotal[1] * partySize,
-  ];
+  // Say what a follow-up changed
+  const revision = state.revision ?? 1;
+  const revisionLine = revision > 1 && state.revisionNote
+    ? `\n**Updated (revision ${revision}):** ${state.revisionNote}\n`
+    : "";
+
+  // Forecast for the window, and what it means for Plan A
+  const weatherLine = state.weather
+    ? `\n\n**Weather:** ${isBadWeather(state.weather) ? "🌧️" : "🌤️"} ${describeWeatherNote(state.weather, plans[0]?.stops ?? [])}`
+    : "";
+
+  // Standard mode never calls Routes live, so say where the "~" times come from
+  const estimatedLegs = (state.mode ?? "standard") === "standard" &&
+    plans.some((plan) => plan.stops.some((stop, i) => i > 0 && stop.travelSource === "estimated"));
+  const travelLine = estimatedLegs
+    ? "\n\n_~ Travel times are offline estimates: standard mode stays free of Routes calls, verified mode routes legs live._"
+    : "";
+
+  // What to book ahead for Plan A, most urgent first
+  const checklist = state.bookingChecklist ?? [];
+  const checklistText = checklist.length
+    ? `\n\n---\n\n## ✅ Book Ahead (${plans[0]?.title ?? "Plan A"})\n\n${checklist
+        .map((item) => `- ${BOOKING_PRIORITY_ICONS[item.priority]} **${item.venue}:** ${item.note}`)
+        .join("\n")}`
+    : "";
 
   // Build the full markdown response
   const outputContent = `# 📍 Your Plan for ${city}
-
+${revisionLine}
 **Date:** ${state.dateResolved ?? "TBD"}
 
-**Time:** ${state.timeWindow ?? "Evening"}
+**Time:** ${state.timeWindow ?? "Evening"}${weatherLine}
 
-**Budget:** €${budget.amount} · **Estimated Total:** €${estimatedTotal[0]}-${estimatedTotal[1]} (${partySize} people)
+**Budget:** ${formatMoney(budget.amount, budget.currency)} · **Estimated Total:** ${formatMoneyRange(budgetBreakdown.planATotal, budget.currency)} (${partySize} people)
 
-${planText}`;
+${planText}${travelLine}${checklistText}`;
 
   console.log(`[policyGate] Output: ${plans.length} plans`);
   console.log("[policyGate] Content:\n", outputContent);
 
-  return { messages: [new AIMessage({ content: outputContent })] };
+  // Structured payload for apps - the markdown still goes out if it fails validation
+  const parsedOutput = PlanOutputSchema.safeParse(
+    buildPlanOutput({
+      city,
+      dateResolved: state.dateResolved,
+      timeWindow: state.timeWindow,
+      timezone: state.timezone ?? "UTC",
+      startsAt: state.startsAt,
+      endsAt: state.endsAt,
+      partySize,
+      budget,
+      dietary,
+      mobility,
+      weather: state.weather,
+      plans,
+      previousPlans: state.previousPlans ?? [],
+      revision: state.revision ?? 1,
+      revisionNote: state.revisionNote,
+      swapMenu: state.swapMenu ?? [],
+      bookingChecklist: state.bookingChecklist ?? [],
+      budgetBreakdown,
+      callBudget: state.callBudget ?? DEFAULT_CALL_BUDGET,
+      cacheStats: state.cacheStats ?? DEFAULT_CACHE_STATS,
+    }),
+  );
+  if (!parsedOutput.success) {
+    console.log("[policyGate] Structured output failed validation:", parsedOutput.error.message);
+  }
+  const output = parsedOutput.success ? parsedOutput.data : undefined;
+
+  return {
+    output,
+    messages: [
+      new AIMessage({
+        content: outputContent,
+        additional_kwargs: output ? { plan_output: output } : {},
+      }),
+    ],
+  };
 }
 
 // Conditional edge functions
+// Verified mode checks every plan's arrival times against opening hours
 function shouldValidateHours(
   state: GraphStateType,
-): "validate_hours" | "compute_routes" {
-  return state.mode === "verified" ? "validate_hours" : "compute_routes";
+): "validate_hours" | "build_swap_menu" {
+  return state.mode === "verified" ? "validate_hours" : "build_swap_menu";
 }
 
 // Check if we should continue or handle error
@@ -1709,55 +3071,122 @@ function checkError(nextNode: string) {
   };
 }
 
+// A follow-up in a thread that already has plans is refined, anything else parsed fresh
+function isFollowUp(state: GraphStateType): string {
+  return (state.plans?.length ?? 0) > 0 ? "refine_request" : "intake_parse";
+}
+
+// Resume the pipeline where the refinement needs it
+function routeRefinement(state: GraphStateType): string {
+  return state.rerunFrom ?? "intake_parse";
+}
+
+// Per-instance dependencies handed to nodes that talk to external services
+export interface GraphOptions {
+  /** Where venues come from (defaults to VENUE_PROVIDER env, else Google) */
+  venueProvider?: VenueProvider;
+  /**
+   * Fetch venue attributes (reservations, seating, drinks, accessibility, summary) with
+   * Place Details - a pricier field mask (defaults to VIBEDAY_RICH_DETAILS=on)
+   */
+  richDetails?: boolean;
+  /** Where forecasts come from (defaults to WEATHER_PROVIDER env, else local fixed forecasts) */
+  weatherProvider?: WeatherProvider;
+  /**
+   * Write each stop's blurb with one LLM call once the plans are built - heuristic
+   * text otherwise (defaults to VIBEDAY_LLM_BLURBS=on)
+   */
+  llmBlurbs?: boolean;
+  /**
+   * Current time for "today" in date resolution, search variety and transit departures
+   * (defaults to the system clock) - fix it to replay a cassette deterministically
+   */
+  now?: () => Date;
+}
+
+interface GraphDeps {
+  venueProvider: VenueProvider;
+  richDetails: boolean;
+  weatherProvider: WeatherProvider | undefined;
+  llmBlurbs: boolean;
+  now: () => Date;
+}
+
 // Build the graph
-export function createGraph() {
+export function createGraph(options: GraphOptions = {}) {
+  const deps: GraphDeps = {
+    venueProvider: options.venueProvider ?? createVenueProviderFromEnv(),
+    richDetails: options.richDetails ?? process.env.VIBEDAY_RICH_DETAILS === "on",
+    weatherProvider: options.weatherProvider ?? createWeatherProviderFromEnv(),
+    llmBlurbs: options.llmBlurbs ?? process.env.VIBEDAY_LLM_BLURBS === "on",
+    now: options.now ?? (() => new Date()),
+  };
+  console.log(`[createGraph] Venue provider: ${deps.venueProvider.name}`);
+  console.log(`[createGraph] Weather provider: ${deps.weatherProvider?.name ?? "off"}`);
+
   const workflow = new StateGraph(GraphState)
     // Add all nodes
     .addNode("initialize", initializeState)
-    .addNode("intake_parse", intakeParse)
+    .addNode("intake_parse", (state) => intakeParse(state, deps))
+    .addNode("refine_request", (state) => refineRequest(state, deps))
     .addNode("build_skeleton", buildSkeletonNode)
-    .addNode("search_activity", searchActivity)
-    .addNode("search_dinner", searchDinner)
-    .addNode("search_finish", searchFinish)
+    .addNode("check_weather", (state) => checkWeather(state, deps))
+    .addNode("search_slots", (state) => searchSlots(state, deps))
     .addNode("rank_cluster", rankCluster)
     .addNode("select_finalists", selectFinalists)
-    .addNode("get_details", getDetails)
-    .addNode("validate_hours", validateHours)
-    .addNode("compute_routes", computeRoutes)
+    .addNode("get_details", (state) => getDetails(state, deps))
+    .addNode("validate_hours", (state) => validateHours(state, deps))
+    .addNode("compute_routes", (state) => computeRoutes(state, deps))
     .addNode("adjust_timeline", adjustTimeline)
     .addNode("generate_variants", generateVariants)
-    .addNode("build_swap_menu", buildSwapMenu)
+    .addNode("route_plans", (state) => routePlans(state, deps))
+    .addNode("build_swap_menu", (state) => buildSwapMenu(state, deps))
+    .addNode("check_budget", checkBudget)
+    .addNode("booking_checklist", (state) => bookingChecklist(state, deps))
+    .addNode("write_blurbs", (state) => writeBlurbs(state, deps))
     .addNode("format_output", formatOutput)
     .addNode("policy_gate", policyGate)
 
-    // Add edges - check for error after searchActivity (city validation)
+    // Add edges - check for error after searchSlots (city validation)
     .addEdge(START, "initialize")
-    .addEdge("initialize", "intake_parse")
+    .addConditionalEdges("initialize", isFollowUp, {
+      refine_request: "refine_request",
+      intake_parse: "intake_parse",
+    })
+    .addConditionalEdges("refine_request", routeRefinement, {
+      intake_parse: "intake_parse",
+      check_weather: "check_weather",
+      search_slots: "search_slots",
+      rank_cluster: "rank_cluster",
+      select_finalists: "select_finalists",
+      generate_variants: "generate_variants",
+      adjust_timeline: "adjust_timeline",
+    })
     .addEdge("intake_parse", "build_skeleton")
-    .addEdge("build_skeleton", "search_activity")
-    .addConditionalEdges("search_activity", checkError("search_dinner"), {
-      search_dinner: "search_dinner",
+    .addEdge("build_skeleton", "check_weather")
+    .addConditionalEdges("check_weather", routeAfterWeather, {
+      search_slots: "search_slots",
+      rank_cluster: "rank_cluster",
+    })
+    .addConditionalEdges("search_slots", checkError("rank_cluster"), {
+      rank_cluster: "rank_cluster",
       policy_gate: "policy_gate",
     })
-    .addEdge("search_dinner", "search_finish")
-    .addEdge("search_finish", "rank_cluster")
     .addEdge("rank_cluster", "select_finalists")
     .addEdge("select_finalists", "get_details")
-    .addConditionalEdges(
-      "get_details",
-      (state) => {
-        return state.mode === "verified" ? "validate_hours" : "compute_routes";
-      },
-      {
-        validate_hours: "validate_hours",
-        compute_routes: "compute_routes",
-      },
-    )
-    .addEdge("validate_hours", "compute_routes")
-    .addEdge("compute_routes", "adjust_timeline")
-    .addEdge("adjust_timeline", "generate_variants")
-    .addEdge("generate_variants", "build_swap_menu")
-    .addEdge("build_swap_menu", "format_output")
+    .addEdge("get_details", "compute_routes")
+    .addEdge("compute_routes", "generate_variants")
+    .addEdge("generate_variants", "route_plans")
+    .addEdge("route_plans", "adjust_timeline")
+    .addConditionalEdges("adjust_timeline", shouldValidateHours, {
+      validate_hours: "validate_hours",
+      build_swap_menu: "build_swap_menu",
+    })
+    .addEdge("validate_hours", "build_swap_menu")
+    .addEdge("build_swap_menu", "check_budget")
+    .addEdge("check_budget", "booking_checklist")
+    .addEdge("booking_checklist", "write_blurbs")
+    .addEdge("write_blurbs", "format_output")
     .addEdge("format_output", "policy_gate")
     .addEdge("policy_gate", END);
 
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { resolveDayOfWeek } from "./hours.js";
+
+// Wednesday 23:30 in UTC is already Thursday in Tokyo
+const WEDNESDAY_NIGHT = new Date("2026-10-14T23:30:00Z");
+
+describe("resolveDayOfWeek", () => {
+  it("uses the resolved date", () => {
+    expect(resolveDayOfWeek("2026-10-17", "Asia/Tokyo", WEDNESDAY_NIGHT)).toBe(6);
+  });
+
+  it("falls back to today in the request's timezone at the given time", () => {
+    expect(resolveDayOfWeek(undefined, "UTC", WEDNESDAY_NIGHT)).toBe(3);
+    expect(resolveDayOfWeek(undefined, "Asia/Tokyo", WEDNESDAY_NIGHT)).toBe(4);
+    expect(resolveDayOfWeek("next friday", "UTC", WEDNESDAY_NIGHT)).toBe(3);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Venue } from "../types/index.js";
+import { isOpenAt } from "../tools/index.js";
+
+// Parse time string (HH:MM) to minutes since midnight
+function parseTime(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+/**
+ * Get today's date (YYYY-MM-DD) in the given IANA timezone
+ * Falls back to UTC if the timezone is not recognised
+ */
+export function getTodayInTimezone(timezone: string, now: Date = new Date()): string {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(now);
+  } catch {
+    return now.toISOString().split("T")[0] ?? "";
+  }
+}
+
+/**
+ * Resolve the day of week (0-6, Sunday-Saturday) for the outing
+ *
+ * @param dateResolved - Local date of the outing (YYYY-MM-DD), if known
+ * @param timezone - Request timezone, used when no date was resolved
+ * @param now - Current time, for today's date when no date was resolved
+ */
+export function resolveDayOfWeek(
+  dateResolved: string | undefined,
+  timezone: string,
+  now: Date = new Date()
+): number {
+  const date = dateResolved && /^\d{4}-\d{2}-\d{2}$/.test(dateResolved)
+    ? dateResolved
+    : getTodayInTimezone(timezone, now);
+  const [y, m, d] = date.split("-").map(Number);
+  // The local calendar date already carries the timezone, so UTC math is safe here
+  return new Date(Date.UTC(y ?? 1970, (m ?? 1) - 1, d ?? 1)).getUTCDay();
+}
+
+/**
+ * Check if a venue is open at a planned arrival time
+ * Arrivals earlier than the window start are treated as after midnight (next day)
+ *
+ * @returns true if open, false if closed, undefined if hours are unknown
+ */
+export function isVenueOpenAtArrival(
+  venue: Venue,
+  dayOfWeek: number,
+  arrival: string,
+  windowStart: string
+): boolean | undefined {
+  if (!venue.openingPeriods || venue.openingPeriods.length === 0) {
+    return undefined;
+  }
+
+  const day = parseTime(arrival) < parseTime(windowStart)
+    ? (dayOfWeek + 1) % 7
+    : dayOfWeek;
+
+  return isOpenAt(
+    { periods: venue.openingPeriods, weekdayDescriptions: [] },
+    day,
+    arrival
+  );
+}
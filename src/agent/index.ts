@@ -1 +1,8 @@
-export { graph, createGraph, GraphState, type GraphStateType } from "./graph.js";
+export { graph, createGraph, GraphState, type GraphStateType, type GraphOptions } from "./graph.js";
+export {
+  calibrateTravelEstimator,
+  configureTravelEstimator,
+  getTravelEstimatorConfig,
+  estimateTravelMins,
+  type TravelEstimatorConfig,
+} from "./travel.js";
@@ -1,6 +1,12 @@
 import { ChatOpenAI } from "@langchain/openai";
-import OpenAI from "openai";
+import OpenAI, { type ClientOptions } from "openai";
 import { z } from "zod";
+import { llmFetch, isApiKeyRequired } from "../tools/index.js";
+import { getTodayInTimezone } from "./hours.js";
+
+// LLM calls go through the transport (record/replay) - the SDK types fetch after
+// node-fetch, but a standard Response is all it reads
+const sdkFetch = llmFetch as unknown as NonNullable<ClientOptions["fetch"]>;
 
 // Simple LLM interface for xAI that doesn't send unsupported parameters
 class XaiLLM {
@@ -12,6 +18,7 @@ class XaiLLM {
     this.client = new OpenAI({
       apiKey,
       baseURL: "https://api.x.ai/v1",
+      fetch: sdkFetch,
     });
     this.model = model;
     this.temperature = temperature;
@@ -43,11 +50,14 @@ export function createLLM() {
     return new XaiLLM(xaiKey, "grok-4-1-fast-reasoning", 0.3);
   }
 
-  if (openaiKey) {
+  // A replayed run answers from the cassette, so it needs no key
+  if (openaiKey || !isApiKeyRequired()) {
     // Fallback to OpenAI
     return new ChatOpenAI({
       modelName: "gpt-4o",
       temperature: 0.3,
+      apiKey: openaiKey ?? "replay",
+      configuration: { fetch: sdkFetch },
     });
   }
 
@@ -62,12 +72,16 @@ export const ParsedRequestSchema = z.object({
     .describe("City name extracted from query (e.g., 'Helsinki', 'Barcelona', 'Paris'). REQUIRED."),
   budgetAmount: z
     .number()
-    .describe("Budget amount extracted (e.g., 100 from '$100' or '100 euros'). Default to 100 if not specified."),
+    .describe("Budget amount extracted (e.g., 100 from '$100' or '100 euros'). Default to the equivalent of 100 euros in budgetCurrency (e.g., 100 USD, 15000 JPY) if not specified."),
   budgetCurrency: z
     .string()
-    .describe("Currency code: 'EUR' for euros/€, 'USD' for dollars/$, 'GBP' for pounds/£. Default to 'EUR'."),
+    .describe("ISO 4217 currency code (e.g., 'EUR' for €, 'USD' for $, 'GBP' for £, 'JPY' for ¥/yen). A bare '$' uses the city's dollar (CAD in Toronto, AUD in Sydney). Default to the city's local currency, or 'EUR' if unsure."),
 
   // Date/time parsing
+  dateExpression: z
+    .string()
+    .default("")
+    .describe("The date phrase exactly as the user wrote it (e.g., 'next Saturday', 'tomorrow evening', 'in two weeks'), or empty if none"),
   dateResolved: z
     .string()
     .describe("Resolved date in YYYY-MM-DD format"),
@@ -110,6 +124,14 @@ export const ParsedRequestSchema = z.object({
   walkingTolerance: z
     .enum(["low", "medium", "high"])
     .describe("low if kids/elderly, high if active/hiking, medium otherwise"),
+  mobility: z
+    .enum(["full", "limited", "wheelchair"])
+    .default("full")
+    .describe("wheelchair if anyone in the party uses a wheelchair, limited if anyone can't walk far or manage stairs (crutches, walker, bad knees), full otherwise"),
+  cycling: z
+    .boolean()
+    .default(false)
+    .describe("True only if the user wants to cycle between stops (bikes, cycling, Bicing)"),
 });
 
 export type ParsedRequest = z.infer<typeof ParsedRequestSchema>;
@@ -117,7 +139,7 @@ export type ParsedRequest = z.infer<typeof ParsedRequestSchema>;
 // System prompt for parsing - extracts ALL info from user's natural language
 export const PARSE_SYSTEM_PROMPT = `You are an outing/itinerary planning assistant. Extract ALL structured information from the user's request.
 
-Today's date is: {{TODAY_DATE}}
+Today's date is: {{TODAY_DATE}} ({{TODAY_WEEKDAY}}) in timezone {{TIMEZONE}}
 
 **MOST IMPORTANT - requestedActivities:**
 Extract the SPECIFIC activities the user explicitly wants to do, in order. Examples:
@@ -131,9 +153,10 @@ Do NOT add activities the user didn't ask for. Only extract what they explicitly
 
 **REQUIRED:**
 - city: The city name (Helsinki, Barcelona, Paris, etc.)
-- budgetAmount: Number (e.g., 100 from "$100" or "100 euros"). Default: 100
-- budgetCurrency: "EUR", "USD", or "GBP". Default: "EUR"
-- dateResolved: YYYY-MM-DD format. Convert "next Saturday", "tomorrow", etc.
+- budgetAmount: Number (e.g., 100 from "$100" or "100 euros"). Default: the equivalent of 100 euros in budgetCurrency (e.g., 100 USD, 15000 JPY)
+- budgetCurrency: ISO 4217 code - "EUR" (€, euros), "USD" ($, dollars), "GBP" (£, pounds), "JPY" (¥, yen), "CHF", "CAD", "AUD", "SEK", etc. A bare "$" means the city's dollar (CAD in Toronto, AUD in Sydney, USD in New York). Default: the city's local currency, or "EUR" if unsure
+- dateExpression: The date phrase as written ("next Saturday", "tonight", "this weekend"), or "" if none
+- dateResolved: YYYY-MM-DD format, relative to today in the timezone above. Convert "next Saturday", "tomorrow", etc.
 - timeWindowStart: HH:MM (24h). Evening=18:00, afternoon=12:00, morning=10:00
 - timeWindowEnd: HH:MM (24h). Evening=23:30, afternoon=18:00, morning=14:00
 
@@ -144,7 +167,9 @@ Do NOT add activities the user didn't ask for. Only extract what they explicitly
 - partySize: Number. Default 2 for dates, 3-4 for family
 - familyFriendly: true if family/kids/children mentioned
 - walkingTolerance: "low" (kids/elderly), "medium" (default), "high" (active)
+- mobility: "wheelchair" if anyone uses a wheelchair ("my mom uses a wheelchair"), "limited" if anyone can't walk far or manage stairs ("dad has bad knees", "I'm on crutches"), "full" otherwise
 - indoorsPreferred: true if rain/cold mentioned
+- cycling: true only if the user wants to get around by bike ("we'll cycle", "on our bikes"), false otherwise
 
 **CRITICAL - alcoholOk:**
 Set to FALSE if: "don't drink", "no drinks", "no alcohol", "sober", or family/kids.
@@ -152,14 +177,159 @@ Set to TRUE otherwise.
 
 Respond with valid JSON only. No explanation needed.`;
 
-// Format the system prompt with current date and timezone
-export function formatParsePrompt(timezone: string): string {
-  const today = new Date().toISOString().split("T")[0];
+// Today's date and weekday in the request timezone (e.g., ["2026-10-24", "Saturday"])
+function getToday(timezone: string, now: Date): [string, string] {
+  const today = getTodayInTimezone(timezone, now);
+  const weekday = new Intl.DateTimeFormat("en-US", { weekday: "long", timeZone: "UTC" })
+    .format(new Date(`${today}T12:00:00Z`));
+  return [today, weekday];
+}
+
+// Format the system prompt with the current date in the request timezone
+export function formatParsePrompt(timezone: string, now: Date = new Date()): string {
+  const [today, weekday] = getToday(timezone, now);
   return PARSE_SYSTEM_PROMPT
-    .replace("{{TODAY_DATE}}", today ?? "unknown")
+    .replace("{{TODAY_DATE}}", today)
+    .replace("{{TODAY_WEEKDAY}}", weekday)
     .replace("{{TIMEZONE}}", timezone);
 }
 
+// Schema for a follow-up message that refines the current plans
+export const RefinementSchema = z.object({
+  kind: z
+    .enum([
+      "change_date",
+      "change_time",
+      "change_budget",
+      "drop_stop",
+      "add_stop",
+      "swap_stop",
+      "new_request",
+    ])
+    .describe("What the follow-up changes"),
+  stopType: z
+    .enum(["drinks", "activity", "dinner", "dessert", "scenic", ""])
+    .default("")
+    .describe("The stop the change is about, or '' if none"),
+  activity: z
+    .string()
+    .default("")
+    .describe("For add_stop/swap_stop: what the user wants instead (e.g., 'bowling', 'ice cream'), or ''"),
+  dietary: z
+    .array(z.string())
+    .default([])
+    .describe("Dietary needs mentioned (vegan, vegetarian, gluten-free)"),
+  dateExpression: z
+    .string()
+    .default("")
+    .describe("For change_date: the date phrase as written (e.g., 'on Sunday'), or ''"),
+  dateResolved: z
+    .string()
+    .default("")
+    .describe("For change_date: the new date in YYYY-MM-DD format, or ''"),
+  timeWindowStart: z
+    .string()
+    .default("")
+    .describe("For change_time: new start time HH:MM (24-hour), or ''"),
+  timeWindowEnd: z
+    .string()
+    .default("")
+    .describe("For change_time: new end time HH:MM (24-hour), or ''"),
+  budgetAmount: z
+    .number()
+    .default(0)
+    .describe("For change_budget: the new total budget in the current currency, or 0"),
+});
+
+export type Refinement = z.infer<typeof RefinementSchema>;
+
+// System prompt for classifying a follow-up message against the current plans
+export const REFINE_SYSTEM_PROMPT = `You are an outing/itinerary planning assistant. The user already has a plan and sent a follow-up message. Classify what the follow-up changes.
+
+Today's date is: {{TODAY_DATE}} ({{TODAY_WEEKDAY}}) in timezone {{TIMEZONE}}
+
+**Current plan:**
+{{CURRENT_PLAN}}
+
+**kind** - exactly one of:
+- "change_date": same plan on another day ("same but on Sunday", "make it tomorrow")
+- "change_time": other start/end times ("start at 8pm", "make it lunch instead")
+- "change_budget": more or less money ("make it cheaper", "we can spend 200")
+- "drop_stop": remove a stop ("drop the bar", "skip dessert")
+- "add_stop": add a stop ("add ice cream after dinner", "and bowling too")
+- "swap_stop": replace one stop ("swap dinner for something vegan", "a different museum")
+- "new_request": anything else, e.g. another city or a completely different outing
+
+**Fields:**
+- stopType: the stop the change is about - "drinks", "activity", "dinner", "dessert", "scenic" - or ""
+- activity: for add_stop/swap_stop, what the user wants (e.g., "bowling", "ice cream"), or ""
+- dietary: dietary needs mentioned (vegan, vegetarian, gluten-free), or []
+- dateExpression / dateResolved: for change_date, the phrase as written and the new date (YYYY-MM-DD)
+- timeWindowStart / timeWindowEnd: for change_time, HH:MM (24h); keep the current value for a side that doesn't change
+- budgetAmount: for change_budget, the new total in the plan's currency ("cheaper" = about 30% less); 0 otherwise
+
+Respond with valid JSON only. No explanation needed.`;
+
+// Format the refinement prompt with the current plan summary and today's date
+export function formatRefinePrompt(
+  currentPlan: string,
+  timezone: string,
+  now: Date = new Date()
+): string {
+  const [today, weekday] = getToday(timezone, now);
+  return REFINE_SYSTEM_PROMPT
+    .replace("{{TODAY_DATE}}", today)
+    .replace("{{TODAY_WEEKDAY}}", weekday)
+    .replace("{{TIMEZONE}}", timezone)
+    .replace("{{CURRENT_PLAN}}", currentPlan);
+}
+
+// Longest blurb sentence we accept (keeps the reply scannable)
+export const MAX_BLURB_LENGTH = 160;
+
+// Schema for the per-venue blurbs written once the plans are built
+// No length limits here - one over-long entry shouldn't sink the batch (validateBlurbs drops it)
+export const BlurbsSchema = z.object({
+  blurbs: z
+    .array(
+      z.object({
+        placeId: z
+          .string()
+          .describe("The venue's placeId, exactly as given"),
+        description: z
+          .string()
+          .describe("One sentence on what the place is, from its data only"),
+        whyItFits: z
+          .string()
+          .describe("One sentence on why it suits this outing (vibes, likes, dietary needs, requested activity)"),
+      })
+    )
+    .describe("One entry per venue given"),
+});
+
+export type Blurbs = z.infer<typeof BlurbsSchema>;
+
+// System prompt for writing a short, truthful blurb per venue in the plans
+export const BLURB_SYSTEM_PROMPT = `You are an outing/itinerary planning assistant. Write a short blurb for each venue in the user's plans.
+
+**The outing:**
+{{OUTING}}
+
+The user message lists the venues as JSON. For EVERY venue return:
+- placeId: exactly as given
+- description: one sentence (max ${MAX_BLURB_LENGTH} characters) on what the place is
+- whyItFits: one sentence (max ${MAX_BLURB_LENGTH} characters) on why it suits this outing - the vibes, likes or dietary needs it matches, or the activity it was picked for
+
+**CRITICAL - stay truthful:**
+Use ONLY the venue data given and the outing above. Don't invent dishes, views, history, awards, prices, ratings, times or anything else the data doesn't say. If the data says little, keep the blurb plain ("Well-rated tapas bar in El Born" is fine, "famous for its rooftop sunsets" is not unless the data says so). Only use numbers that appear in the venue's data.
+
+Respond with valid JSON only: {"blurbs": [...]}. No explanation needed.`;
+
+// Format the blurb prompt with a summary of the outing (vibes, likes, party)
+export function formatBlurbPrompt(outing: string): string {
+  return BLURB_SYSTEM_PROMPT.replace("{{OUTING}}", outing);
+}
+
 // Simple user prompt - just pass the raw message
 export function formatUserPrompt(userMessage: string): string {
   return userMessage;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  getOrderingCost,
+  getValidOrderings,
+  optimiseStopOrder,
+  type OrderingItem,
+  type OrderingOptions,
+} from "./ordering.js";
+
+function makeItem(placeId: string, category: string, lng: number, pinned: boolean = false): OrderingItem {
+  return { placeId, category, location: { lat: 0, lng }, durationMins: 60, pinned };
+}
+
+// 10 minutes per unit of longitude
+const options: OrderingOptions = {
+  windowStart: "18:00",
+  travelMins: (from, to) => Math.abs(from.location.lng - to.location.lng) * 10,
+};
+
+describe("getValidOrderings", () => {
+  it("lists the planned order first", () => {
+    const items = [makeItem("a", "activity", 0), makeItem("b", "activity", 1), makeItem("c", "scenic", 2)];
+    const orders = getValidOrderings(items, options);
+
+    expect(orders[0]).toEqual([0, 1, 2]);
+    expect(orders).toHaveLength(6);
+  });
+
+  it("keeps pinned stops in the requested order", () => {
+    const items = [
+      makeItem("a", "activity", 0, true),
+      makeItem("b", "scenic", 1),
+      makeItem("c", "activity", 2, true),
+    ];
+    const orders = getValidOrderings(items, options);
+
+    expect(orders.every((order) => order.indexOf(0) < order.indexOf(2))).toBe(true);
+    expect(orders).toHaveLength(3);
+  });
+
+  it("keeps a drinks stop planned last at the end", () => {
+    const items = [makeItem("a", "activity", 0), makeItem("b", "scenic", 1), makeItem("c", "drinks", 2)];
+
+    for (const order of getValidOrderings(items, options)) {
+      expect(order.at(-1)).toBe(2);
+    }
+  });
+
+  it("keeps drinks and dessert on their side of dinner", () => {
+    const items = [
+      makeItem("aperitif", "drinks", 0),
+      makeItem("dinner", "dinner", 1),
+      makeItem("gelato", "dessert", 2),
+    ];
+
+    expect(getValidOrderings(items, options)).toEqual([[0, 1, 2]]);
+  });
+
+  it("keeps dinner within the meal window it was planned in", () => {
+    // Planned for 20:00 - after the 3-hour museum, dinner would be at 23:00
+    const items = [
+      makeItem("bowling", "activity", 0),
+      makeItem("dinner", "dinner", 0),
+      { ...makeItem("museum", "activity", 0), durationMins: 180 },
+    ];
+    const orders = getValidOrderings(items, { ...options, windowStart: "19:00" });
+
+    expect(orders).toEqual([
+      [0, 1, 2],
+      [1, 0, 2],
+      [1, 2, 0],
+      [2, 1, 0],
+    ]);
+  });
+
+  it("keeps the planned order for too many stops", () => {
+    const items = Array.from({ length: 8 }, (_, i) => makeItem(`p${i}`, "activity", i));
+
+    expect(getValidOrderings(items, options)).toEqual([[0, 1, 2, 3, 4, 5, 6, 7]]);
+  });
+});
+
+describe("getOrderingCost", () => {
+  it("adds weighted backtracking to the travel minutes", () => {
+    const items = [makeItem("a", "activity", 0), makeItem("b", "activity", 4), makeItem("c", "activity", 1)];
+
+    // Travel 40 + 30; the last leg heads 30 minutes back towards the first stop
+    expect(getOrderingCost(items, [0, 1, 2], options)).toBe(85);
+    expect(getOrderingCost(items, [0, 2, 1], options)).toBe(40);
+  });
+});
+
+describe("optimiseStopOrder", () => {
+  it("picks the valid order with the least travel", () => {
+    const items = [makeItem("a", "activity", 0), makeItem("b", "scenic", 4), makeItem("c", "activity", 1)];
+
+    expect(optimiseStopOrder(items, options)).toEqual([0, 2, 1]);
+  });
+
+  it("keeps the planned order on a tie", () => {
+    const items = [makeItem("a", "activity", 0), makeItem("b", "activity", 0), makeItem("c", "activity", 0)];
+
+    expect(optimiseStopOrder(items, options)).toEqual([0, 1, 2]);
+  });
+});
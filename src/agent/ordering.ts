@@ -0,0 +1,174 @@
+import type { Location } from "../types/index.js";
+
+// Above this many stops, permutations get too many - keep the planned order
+const MAX_ORDERING_STOPS = 7;
+
+// Weight of backtracking (moving back towards the first stop) against plain travel minutes
+const BACKTRACK_WEIGHT = 0.5;
+
+// Local meal windows a planned dinner stop stays within (HH:MM)
+const MEAL_WINDOWS = [
+  { start: "12:00", end: "15:30" }, // Lunch
+  { start: "18:00", end: "22:30" }, // Dinner
+];
+
+// Categories that stay on their planned side of dinner (aperitif before, nightcap after)
+const DINNER_SIDE_CATEGORIES = ["drinks", "dessert"];
+
+// A stop as the ordering optimiser sees it
+export interface OrderingItem {
+  placeId: string;
+  category: string; // Venue category (dinner, drinks, ...)
+  location: Location;
+  durationMins: number;
+  pinned: boolean; // Keeps its order relative to other pinned stops (the user's requested order)
+}
+
+export interface OrderingOptions {
+  windowStart: string; // HH:MM
+  travelMins: (from: OrderingItem, to: OrderingItem) => number;
+}
+
+// Parse time string (HH:MM) to minutes since midnight
+function parseTime(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+// Every ordering of indices 0..n-1 (the planned order first)
+function permutations(n: number): number[][] {
+  if (n <= 1) return [Array.from({ length: n }, (_, i) => i)];
+
+  const result: number[][] = [];
+  for (const tail of permutations(n - 1)) {
+    for (let at = tail.length; at >= 0; at--) {
+      result.push([...tail.slice(0, at), n - 1, ...tail.slice(at)]);
+    }
+  }
+  return result;
+}
+
+// Minute (since window start's midnight, may pass 24:00) each stop in an order is reached
+function getArrivals(items: OrderingItem[], order: number[], options: OrderingOptions): number[] {
+  let current = parseTime(options.windowStart);
+  let prev: OrderingItem | undefined;
+  return order.map((index) => {
+    const item = items[index];
+    if (!item) return current;
+    if (prev) current += options.travelMins(prev, item);
+    const arrival = current;
+    current += item.durationMins;
+    prev = item;
+    return arrival;
+  });
+}
+
+// Meal window the planned dinner arrival falls in (none if it falls outside them all)
+function getPlannedMealWindow(
+  items: OrderingItem[],
+  options: OrderingOptions
+): { start: number; end: number } | undefined {
+  const planned = items.map((_, i) => i);
+  const dinner = items.findIndex((item) => item.category === "dinner");
+  if (dinner === -1) return undefined;
+
+  const arrival = (getArrivals(items, planned, options)[dinner] ?? 0) % (24 * 60);
+  return MEAL_WINDOWS.map((w) => ({ start: parseTime(w.start), end: parseTime(w.end) })).find(
+    (w) => arrival >= w.start && arrival <= w.end
+  );
+}
+
+/**
+ * Orderings of the stops that keep the outing's shape (the planned order first)
+ *
+ * - Pinned stops keep their relative order
+ * - Drinks and dessert stay on their planned side of dinner (aperitif vs nightcap)
+ * - A drinks stop planned last stays last
+ * - Dinner stays within the meal window it was planned in (when another order can keep it there)
+ *
+ * @param items - Stops in their planned order
+ * @returns Index orders into items
+ */
+export function getValidOrderings(items: OrderingItem[], options: OrderingOptions): number[][] {
+  const planned = items.map((_, i) => i);
+  if (items.length > MAX_ORDERING_STOPS) return [planned];
+
+  const plannedDinner = items.findIndex((item) => item.category === "dinner");
+  const lastItem = items[items.length - 1];
+  const lastIsDrinks = lastItem?.category === "drinks";
+
+  const valid = permutations(items.length).filter((order) => {
+    const pinned = order.filter((i) => items[i]?.pinned);
+    if (pinned.some((i, k) => k > 0 && i < (pinned[k - 1] ?? 0))) return false;
+
+    if (lastIsDrinks && order[order.length - 1] !== items.length - 1) return false;
+
+    if (plannedDinner !== -1) {
+      const dinnerAt = order.indexOf(plannedDinner);
+      const keepsSide = order.every((index, position) => {
+        const category = items[index]?.category ?? "";
+        if (!DINNER_SIDE_CATEGORIES.includes(category)) return true;
+        return index < plannedDinner ? position < dinnerAt : position > dinnerAt;
+      });
+      if (!keepsSide) return false;
+    }
+    return true;
+  });
+
+  const mealWindow = getPlannedMealWindow(items, options);
+  if (!mealWindow || plannedDinner === -1) return valid;
+
+  const inWindow = valid.filter((order) => {
+    const arrival =
+      (getArrivals(items, order, options)[order.indexOf(plannedDinner)] ?? 0) % (24 * 60);
+    return arrival >= mealWindow.start && arrival <= mealWindow.end;
+  });
+  return inWindow.length > 0 ? inWindow : valid;
+}
+
+/**
+ * Cost of visiting stops in an order: travel minutes plus weighted backtracking
+ * (legs that head back towards the first stop)
+ */
+export function getOrderingCost(
+  items: OrderingItem[],
+  order: number[],
+  options: OrderingOptions
+): number {
+  const stops = order.map((i) => items[i]).filter((item): item is OrderingItem => !!item);
+  const first = stops[0];
+  let travel = 0;
+  let backtrack = 0;
+
+  for (let k = 1; k < stops.length; k++) {
+    const from = stops[k - 1];
+    const to = stops[k];
+    if (!first || !from || !to) continue;
+    travel += options.travelMins(from, to);
+    if (k > 1) {
+      backtrack += Math.max(0, options.travelMins(first, from) - options.travelMins(first, to));
+    }
+  }
+  return travel + BACKTRACK_WEIGHT * backtrack;
+}
+
+/**
+ * Pick the valid stop order with the least travel and backtracking
+ * Ties keep the planned order
+ *
+ * @param items - Stops in their planned order
+ * @returns Index order into items
+ */
+export function optimiseStopOrder(items: OrderingItem[], options: OrderingOptions): number[] {
+  let best = items.map((_, i) => i);
+  let bestCost = Infinity;
+
+  for (const order of getValidOrderings(items, options)) {
+    const cost = getOrderingCost(items, order, options);
+    if (cost < bestCost) {
+      best = order;
+      bestCost = cost;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  PLAN_OUTPUT_VERSION,
+  PlanOutputSchema,
+  type CacheStats,
+  type CallBudget,
+  type Plan,
+  type Stop,
+} from "../types/index.js";
+import { buildPlanOutput, type PlanOutputSource } from "./output.js";
+
+function makeStop(placeId: string, time: string, extra: Partial<Stop> = {}): Stop {
+  return {
+    time,
+    label: "Dinner",
+    venue: {
+      name: placeId,
+      placeId,
+      mapsUrl: `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+      address: "Carrer de Sepúlveda 173, Barcelona",
+      location: { lat: 41.38, lng: 2.17 },
+      category: "dinner",
+      rating: 4.6,
+      priceLevel: 2,
+    },
+    estimatedCostRange: [25, 50],
+    whyItFits: "Great option with 4.6 rating",
+    travelFromPrevMins: 0,
+    durationMins: 90,
+    openCheck: "Standard (confirm hours in Maps)",
+    ...extra,
+  };
+}
+
+const plan: Plan = {
+  id: "A",
+  title: "Old town",
+  stops: [
+    makeStop("bodega", "20:00", { request: "dinner" }),
+    makeStop("bar", "00:30", {
+      label: "Nightcap",
+      estimatedCostRange: [10, 20],
+      travelFromPrevMins: 12,
+      travelMode: "WALK",
+      travelSource: "estimated",
+    }),
+  ],
+  backups: [],
+  notes: ["Couldn't find bowling nearby"],
+};
+
+const ZERO: CallBudget = {
+  placesSearch: 0,
+  geocode: 0,
+  placeDetails: 0,
+  placeHours: 0,
+  routes: 0,
+  forecast: 0,
+};
+
+const source: PlanOutputSource = {
+  city: "Barcelona",
+  dateResolved: "2026-10-17",
+  timeWindow: "20:00-01:00",
+  timezone: "Europe/Madrid",
+  startsAt: "2026-10-17T18:00:00.000Z",
+  endsAt: "2026-10-17T23:00:00.000Z",
+  partySize: 2,
+  budget: { amount: 150, currency: "EUR" },
+  dietary: [],
+  mobility: "full",
+  weather: { condition: "rain", precipitationChance: 80, temperatureC: [12, 15] },
+  plans: [plan],
+  previousPlans: [],
+  revision: 1,
+  revisionNote: undefined,
+  swapMenu: [{ swap: "rain_mode", instruction: "Keep it indoors" }],
+  bookingChecklist: [],
+  budgetBreakdown: undefined,
+  callBudget: { ...ZERO, placesSearch: 3 },
+  cacheStats: Object.fromEntries(
+    Object.keys(ZERO).map((callType) => [callType, { hits: 0, misses: 1 }])
+  ) as CacheStats,
+};
+
+describe("buildPlanOutput", () => {
+  it("builds a payload the schema accepts", () => {
+    const output = buildPlanOutput(source);
+
+    expect(PlanOutputSchema.safeParse(output).success).toBe(true);
+    expect(output.version).toBe(PLAN_OUTPUT_VERSION);
+    expect(output.call_budget_used.placesSearch).toBe(3);
+  });
+
+  it("sums Plan A's stops for the whole party", () => {
+    const output = buildPlanOutput(source);
+
+    expect(output.plans[0]?.estimated_total_range).toEqual([70, 140]);
+    expect(output.summary.estimated_total_range).toEqual([70, 140]);
+    expect(output.plans[0]?.warnings).toEqual(["Couldn't find bowling nearby"]);
+  });
+
+  it("maps stops to snake_case, past midnight onto the next day", () => {
+    const [dinner, nightcap] = buildPlanOutput(source).plans[0]?.stops ?? [];
+
+    expect(dinner).toMatchObject({
+      place_id: "bodega",
+      starts_at: "2026-10-17T18:00:00.000Z",
+      fulfils_request: "dinner",
+      price_level: 2,
+    });
+    expect(dinner?.travel_source).toBeUndefined();
+    expect(nightcap).toMatchObject({
+      starts_at: "2026-10-17T22:30:00.000Z",
+      travel_from_prev_mins: 12,
+      travel_mode: "WALK",
+      travel_source: "estimated",
+    });
+  });
+
+  it("summarises the forecast and leaves out what isn't known", () => {
+    const output = buildPlanOutput({ ...source, dateResolved: undefined, weather: undefined });
+
+    expect(PlanOutputSchema.safeParse(output).success).toBe(true);
+    expect(output.summary.weather).toBeUndefined();
+    expect(output.plans[0]?.stops[0]?.starts_at).toBeUndefined();
+    expect(buildPlanOutput(source).summary.weather).toMatchObject({
+      condition: "rain",
+      precipitation_chance: 80,
+      bad_weather: true,
+    });
+  });
+
+  it("fails validation on a broken stop", () => {
+    const broken = makeStop("bodega", "20:00");
+    broken.venue.mapsUrl = "not a url";
+    const output = buildPlanOutput({ ...source, plans: [{ ...plan, stops: [broken] }] });
+
+    expect(PlanOutputSchema.safeParse(output).success).toBe(false);
+  });
+});
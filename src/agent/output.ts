@@ -0,0 +1,192 @@
+import {
+  PLAN_OUTPUT_VERSION,
+  type Budget,
+  type BookingChecklistItem,
+  type BudgetBreakdown,
+  type CacheStats,
+  type Forecast,
+  type CallBudget,
+  type Location,
+  type Mobility,
+  type SwapMenuItem,
+  type Plan,
+  type Stop,
+  type OutputPlan,
+  type PlanOutput,
+  type TravelMode,
+} from "../types/index.js";
+import { resolveTimeInWindow } from "./dates.js";
+import { describeDietaryCheck } from "./dietary.js";
+import { describeAccessibilityCheck } from "./accessibility.js";
+import { describeWeatherNote, isBadWeather } from "./weather.js";
+
+// State the structured output is built from
+export interface PlanOutputSource {
+  city: string;
+  dateResolved: string | undefined;
+  timeWindow: string | undefined;
+  timezone: string;
+  startsAt: string | undefined;
+  endsAt: string | undefined;
+  partySize: number;
+  budget: Budget;
+  dietary: string[];
+  mobility: Mobility;
+  weather: Forecast | undefined;
+  plans: Plan[];
+  previousPlans: Plan[];
+  revision: number;
+  revisionNote: string | undefined;
+  swapMenu: SwapMenuItem[];
+  bookingChecklist: BookingChecklistItem[];
+  budgetBreakdown: BudgetBreakdown | undefined;
+  callBudget: CallBudget;
+  cacheStats: CacheStats;
+}
+
+// Google Maps URL travelmode for each travel mode
+const MAPS_TRAVEL_MODES: Record<TravelMode, string> = {
+  WALK: "walking",
+  BICYCLE: "bicycling",
+  TRANSIT: "transit",
+  DRIVE: "driving",
+};
+
+/**
+ * Google Maps directions URL from the first point to the last (via the others) in a travel mode
+ */
+export function getDirectionsUrl(points: Location[], mode: TravelMode = "WALK"): string {
+  const [origin, ...rest] = points.map((p) => `${p.lat},${p.lng}`);
+  const destination = rest.pop() ?? origin;
+  const params = new URLSearchParams({ api: "1", origin: origin ?? "", destination: destination ?? "" });
+  if (rest.length > 0) params.set("waypoints", rest.join("|"));
+  params.set("travelmode", MAPS_TRAVEL_MODES[mode]);
+  return `https://www.google.com/maps/dir/?${params.toString()}`;
+}
+
+/**
+ * Mode most of a plan's legs use (walking when it has none)
+ */
+export function getPlanTravelMode(stops: Stop[]): TravelMode {
+  const counts = new Map<TravelMode, number>();
+  for (const stop of stops.slice(1)) {
+    const mode = stop.travelMode ?? "WALK";
+    counts.set(mode, (counts.get(mode) ?? 0) + 1);
+  }
+  let main: TravelMode = "WALK";
+  for (const [mode, count] of counts) {
+    if (count > (counts.get(main) ?? 0)) main = mode;
+  }
+  return main;
+}
+
+/**
+ * Google Maps directions URL through a plan's stops, in the plan's main travel mode
+ */
+export function getRouteUrl(stops: Stop[]): string {
+  return getDirectionsUrl(
+    stops.map((stop) => stop.venue.location),
+    getPlanTravelMode(stops)
+  );
+}
+
+/**
+ * Sum of the per-person cost ranges of a plan's stops
+ */
+export function getPerPersonTotal(stops: Stop[]): [number, number] {
+  return stops.reduce<[number, number]>(
+    (acc, stop) => [
+      acc[0] + stop.estimatedCostRange[0],
+      acc[1] + stop.estimatedCostRange[1],
+    ],
+    [0, 0]
+  );
+}
+
+function toOutputPlan(plan: Plan, source: PlanOutputSource): OutputPlan {
+  const windowStart = source.timeWindow?.split("-")[0] ?? plan.stops[0]?.time ?? "00:00";
+  const perPerson = getPerPersonTotal(plan.stops);
+
+  return {
+    id: plan.id,
+    title: plan.title,
+    stops: plan.stops.map((stop) => ({
+      time: stop.time,
+      starts_at: source.dateResolved
+        ? resolveTimeInWindow(source.dateResolved, windowStart, stop.time, source.timezone)
+        : undefined,
+      duration_mins: stop.durationMins,
+      label: stop.label,
+      name: stop.venue.name,
+      place_id: stop.venue.placeId,
+      category: stop.venue.category,
+      address: stop.venue.address,
+      location: stop.venue.location,
+      maps_url: stop.venue.mapsUrl,
+      estimated_cost_range: stop.estimatedCostRange,
+      travel_from_prev_mins: stop.travelFromPrevMins,
+      travel_mode: stop.travelMode,
+      travel_source: stop.travelSource,
+      rating: stop.venue.rating,
+      review_count: stop.venue.reviewCount,
+      price_level: stop.venue.priceLevel,
+      open_check: stop.openCheck,
+      dietary_check: describeDietaryCheck(stop.venue, source.dietary),
+      accessibility_check: describeAccessibilityCheck(stop.venue, source.mobility),
+      why_it_fits: stop.whyItFits,
+      description: stop.description,
+      fulfils_request: stop.request,
+    })),
+    backups: plan.backups.map((b) => ({
+      label: b.label,
+      name: b.name,
+      maps_url: b.mapsUrl,
+      why_backup: b.whyBackup,
+    })),
+    warnings: plan.notes,
+    estimated_total_range: [perPerson[0] * source.partySize, perPerson[1] * source.partySize],
+    route_url: getRouteUrl(plan.stops),
+  };
+}
+
+/**
+ * Build the versioned, machine-readable plan payload (validate with PlanOutputSchema)
+ */
+export function buildPlanOutput(source: PlanOutputSource): PlanOutput {
+  const plans = source.plans.map((plan) => toOutputPlan(plan, source));
+
+  return {
+    version: PLAN_OUTPUT_VERSION,
+    summary: {
+      city: source.city,
+      date: source.dateResolved,
+      time_window: source.timeWindow,
+      timezone: source.timezone,
+      starts_at: source.startsAt,
+      ends_at: source.endsAt,
+      party_size: source.partySize,
+      budget_target: source.budget,
+      estimated_total_range: plans[0]?.estimated_total_range ?? [0, 0],
+      revision: source.revision,
+      revision_note: source.revisionNote,
+      weather: source.weather && {
+        condition: source.weather.condition,
+        precipitation_chance: source.weather.precipitationChance,
+        temperature_c: source.weather.temperatureC,
+        bad_weather: isBadWeather(source.weather),
+        note: describeWeatherNote(source.weather, source.plans[0]?.stops ?? []),
+      },
+    },
+    plans,
+    previous_plans: source.previousPlans.map((plan) => toOutputPlan(plan, source)),
+    swap_menu: source.swapMenu.map((item) => ({
+      swap: item.swap,
+      instruction: item.instruction,
+      plan: item.plan ? toOutputPlan(item.plan, source) : undefined,
+    })),
+    booking_checklist: source.bookingChecklist,
+    budget_breakdown: source.budgetBreakdown,
+    call_budget_used: source.callBudget,
+    cache_stats: source.cacheStats,
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { PreferencesSchema, type Venue } from "../types/index.js";
+import { rankVenues } from "./ranking.js";
+
+const preferences = PreferencesSchema.parse({});
+
+function makeVenue(name: string, rating: number, extra: Partial<Venue> = {}): Venue {
+  return {
+    name,
+    placeId: name,
+    mapsUrl: "",
+    address: "",
+    location: { lat: 41.38, lng: 2.17 },
+    category: "activity",
+    rating,
+    reviewCount: 800,
+    priceLevel: 1,
+    ...extra,
+  };
+}
+
+const park = makeVenue("Parc de la Ciutadella", 4.7);
+const museum = makeVenue("Museu Picasso", 4.4);
+const names = (indoorsPreferred: boolean) =>
+  rankVenues([park, museum], { ...preferences, indoorsPreferred }, 20, "EUR").map(
+    (scored) => scored.venue.name
+  );
+
+describe("rankVenues", () => {
+  it("ranks by score when outdoors is fine", () => {
+    expect(names(false)).toEqual(["Parc de la Ciutadella", "Museu Picasso"]);
+  });
+
+  it("puts indoor venues first when the party would rather stay in", () => {
+    expect(names(true)).toEqual(["Museu Picasso", "Parc de la Ciutadella"]);
+  });
+
+  it("keeps an outdoor venue when nothing indoors comes close", () => {
+    const ranked = rankVenues(
+      [park, makeVenue("Museu de Cera", 3.0, { reviewCount: 5, priceLevel: 4 })],
+      { ...preferences, indoorsPreferred: true },
+      20,
+      "EUR"
+    );
+
+    expect(ranked[0]?.venue.name).toBe("Parc de la Ciutadella");
+  });
+});
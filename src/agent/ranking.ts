@@ -1,4 +1,13 @@
-import type { Venue, Preferences, Location } from "../types/index.js";
+import {
+  SlotTypeSchema,
+  type Venue,
+  type Preferences,
+  type Location,
+  type CandidatePools,
+  type SlotType,
+} from "../types/index.js";
+import { getPriceLevelBand, convertAmount } from "./currency.js";
+import { isOutdoorVenue } from "./weather.js";
 
 // Scoring weights
 const WEIGHTS = {
@@ -9,20 +18,14 @@ const WEIGHTS = {
   reviewCount: 0.10, // More reviews = more reliable
 };
 
-// Price level to EUR per person mapping (approximate)
-const PRICE_LEVEL_EUR: Record<number, [number, number]> = {
-  0: [0, 10],      // Free
-  1: [10, 25],     // Inexpensive
-  2: [25, 50],     // Moderate
-  3: [50, 100],    // Expensive
-  4: [100, 200],   // Very expensive
-};
+// Score multiplier for outdoor venues when the party would rather stay indoors (bad weather)
+const OUTDOOR_PENALTY = 0.6;
 
 /**
  * Calculate distance between two locations (Haversine formula)
  * Returns distance in meters
  */
-function calculateDistance(loc1: Location, loc2: Location): number {
+export function calculateDistance(loc1: Location, loc2: Location): number {
   const R = 6371000; // Earth's radius in meters
   const lat1 = (loc1.lat * Math.PI) / 180;
   const lat2 = (loc2.lat * Math.PI) / 180;
@@ -37,6 +40,9 @@ function calculateDistance(loc1: Location, loc2: Location): number {
   return R * c;
 }
 
+// Travel minutes between two points (e.g., the offline estimate in travel.ts)
+export type TravelEstimate = (from: Location, to: Location) => number;
+
 /**
  * Calculate centroid of a set of venues
  */
@@ -70,9 +76,21 @@ function scoreRating(venue: Venue): number {
 
 /**
  * Score proximity to a reference point (0-1 scale)
- * Closer is better, with 500m = 1.0, 2000m = 0.5, 5000m = 0.0
+ * By estimated travel time when given: 8 min = 1.0, 45 min = 0.0
+ * Else by straight-line distance: 500m = 1.0, 2000m = 0.5, 5000m = 0.0
  */
-function scoreProximity(venue: Venue, reference: Location): number {
+function scoreProximity(
+  venue: Venue,
+  reference: Location,
+  travelMins?: TravelEstimate
+): number {
+  if (travelMins) {
+    const mins = travelMins(reference, venue.location);
+    if (mins <= 8) return 1.0;
+    if (mins >= 45) return 0.0;
+    return 1 - (mins - 8) / 37;
+  }
+
   const distance = calculateDistance(venue.location, reference);
   if (distance <= 500) return 1.0;
   if (distance >= 5000) return 0.0;
@@ -82,11 +100,16 @@ function scoreProximity(venue: Venue, reference: Location): number {
 /**
  * Score price match (0-1 scale)
  * Perfect match = 1.0, within range = 0.7, outside = 0.3
+ * Price bands and the target are both in the budget's currency
  */
-function scorePriceMatch(venue: Venue, targetBudgetPerPerson: number): number {
+function scorePriceMatch(
+  venue: Venue,
+  targetBudgetPerPerson: number,
+  currency: string
+): number {
   if (venue.priceLevel === undefined) return 0.5; // Neutral if unknown
 
-  const range = PRICE_LEVEL_EUR[venue.priceLevel];
+  const range = getPriceLevelBand(venue.priceLevel, currency);
   if (!range) return 0.5;
 
   const [min, max] = range;
@@ -94,8 +117,8 @@ function scorePriceMatch(venue: Venue, targetBudgetPerPerson: number): number {
     return 1.0; // Perfect match
   }
   if (targetBudgetPerPerson < min) {
-    // Over budget
-    const overBy = min - targetBudgetPerPerson;
+    // Over budget (penalty tuned as 0.1 per €5 over)
+    const overBy = convertAmount(min - targetBudgetPerPerson, currency, "EUR");
     return Math.max(0.1, 0.7 - overBy / 50);
   }
   // Under budget (venue cheaper than target - that's okay)
@@ -104,25 +127,25 @@ function scorePriceMatch(venue: Venue, targetBudgetPerPerson: number): number {
 
 /**
  * Score preference match (0-1 scale)
- * Based on venue category matching user's vibe/likes
+ * Based on venue category matching user's vibe/likes, and venue attributes when details have them
  */
 function scorePreferenceMatch(venue: Venue, preferences: Preferences): number {
   let score = 0.5; // Base score
 
-  // Check if category aligns with likes
+  // Check if category aligns with likes (the editorial summary says more than the name)
   const likes = preferences.likes.map((l) => l.toLowerCase());
   const vibes = preferences.vibe.map((v) => v.toLowerCase());
-  const venueName = venue.name.toLowerCase();
+  const venueText = [venue.name, venue.editorialSummary ?? ""].join(" ").toLowerCase();
   const venueCategory = venue.category.toLowerCase();
 
   // Boost for matching likes
   for (const like of likes) {
-    if (venueName.includes(like) || venueCategory.includes(like)) {
+    if (venueText.includes(like) || venueCategory.includes(like)) {
       score += 0.15;
     }
   }
 
-  // Boost for matching vibes (if venue name suggests it)
+  // Boost for matching vibes (if the venue's name or summary suggests it)
   const vibeKeywords: Record<string, string[]> = {
     romantic: ["intimate", "candlelit", "cozy", "wine", "french", "italian"],
     adventurous: ["escape", "adventure", "tour", "climb", "explore"],
@@ -134,13 +157,23 @@ function scorePreferenceMatch(venue: Venue, preferences: Preferences): number {
   for (const vibe of vibes) {
     const keywords = vibeKeywords[vibe] ?? [];
     for (const keyword of keywords) {
-      if (venueName.includes(keyword)) {
+      if (venueText.includes(keyword)) {
         score += 0.1;
       }
     }
   }
 
-  return Math.min(1.0, score);
+  // A terrace suits a relaxed or romantic outing
+  if (venue.outdoorSeating && vibes.some((v) => v === "relaxed" || v === "romantic")) {
+    score += 0.1;
+  }
+
+  // Families: Google's "good for children" beats guessing from the name
+  if (preferences.familyFriendly && venue.goodForChildren !== undefined) {
+    score += venue.goodForChildren ? 0.2 : -0.3;
+  }
+
+  return Math.max(0, Math.min(1.0, score));
 }
 
 /**
@@ -170,12 +203,16 @@ export interface ScoredVenue {
 
 /**
  * Score and rank a list of venues
+ *
+ * @param travelMins - Scores proximity by travel time instead of straight-line distance
  */
 export function rankVenues(
   venues: Venue[],
   preferences: Preferences,
   targetBudgetPerPerson: number,
-  referenceLocation?: Location
+  currency: string,
+  referenceLocation?: Location,
+  travelMins?: TravelEstimate
 ): ScoredVenue[] {
   // Use centroid as reference if not provided
   const reference = referenceLocation ?? calculateCentroid(venues);
@@ -183,18 +220,23 @@ export function rankVenues(
   const scored = venues.map((venue) => {
     const scores = {
       rating: scoreRating(venue),
-      proximity: scoreProximity(venue, reference),
-      priceMatch: scorePriceMatch(venue, targetBudgetPerPerson),
+      proximity: scoreProximity(venue, reference, travelMins),
+      priceMatch: scorePriceMatch(venue, targetBudgetPerPerson, currency),
       preferenceMatch: scorePreferenceMatch(venue, preferences),
       reviewCount: scoreReviewCount(venue),
     };
 
+    // Outdoor venues only win when nothing indoors comes close
+    const weatherFactor =
+      preferences.indoorsPreferred && isOutdoorVenue(venue) ? OUTDOOR_PENALTY : 1;
+
     const totalScore =
-      scores.rating * WEIGHTS.rating +
-      scores.proximity * WEIGHTS.proximity +
-      scores.priceMatch * WEIGHTS.priceMatch +
-      scores.preferenceMatch * WEIGHTS.preferenceMatch +
-      scores.reviewCount * WEIGHTS.reviewCount;
+      (scores.rating * WEIGHTS.rating +
+        scores.proximity * WEIGHTS.proximity +
+        scores.priceMatch * WEIGHTS.priceMatch +
+        scores.preferenceMatch * WEIGHTS.preferenceMatch +
+        scores.reviewCount * WEIGHTS.reviewCount) *
+      weatherFactor;
 
     return {
       venue,
@@ -248,100 +290,114 @@ export function clusterByProximity(
 /**
  * Select the best venues for an itinerary
  * Prioritizes quality and proximity clustering
+ *
+ * @param travelMins - Scores proximity by travel time instead of straight-line distance
  */
 export function selectBestVenues(
-  pools: {
-    activity: Venue[];
-    dinner: Venue[];
-    finish: Venue[];
-  },
+  pools: CandidatePools,
   preferences: Preferences,
-  budgetPerCategory: {
-    activity: number;
-    dinner: number;
-    finish: number;
-  }
+  budgetPerSlot: Record<SlotType, number>,
+  currency: string,
+  travelMins?: TravelEstimate
 ): {
   selected: Record<string, Venue>;
   backups: Record<string, Venue[]>;
 } {
-  // Rank each pool
-  const rankedActivity = rankVenues(
-    pools.activity,
-    preferences,
-    budgetPerCategory.activity
-  );
-  const rankedDinner = rankVenues(
-    pools.dinner,
-    preferences,
-    budgetPerCategory.dinner
-  );
-  const rankedFinish = rankVenues(
-    pools.finish,
-    preferences,
-    budgetPerCategory.finish
-  );
-
-  // Select top venue from each category
   const selected: Record<string, Venue> = {};
-  const backups: Record<string, Venue[]> = {
-    activity: [],
-    dinner: [],
-    finish: [],
+  const backups: Record<string, Venue[]> = {};
+
+  // Pick the top venue from each pool (dinner keeps 3 backups, per PRD; others 2)
+  // Requested activities are keyed by their request, everything else by slot type
+  const pick = (key: string, type: SlotType, ranked: ScoredVenue[]) => {
+    if (!ranked[0]) return;
+    selected[key] = ranked[0].venue;
+    backups[key] = ranked.slice(1, type === "dinner" ? 4 : 3).map((s) => s.venue);
   };
 
-  if (rankedActivity.length > 0 && rankedActivity[0]) {
-    selected["activity"] = rankedActivity[0].venue;
-    backups["activity"] = rankedActivity.slice(1, 3).map((s) => s.venue);
+  const ranked = listPools(pools).map((pool) => ({
+    ...pool,
+    ranked: rankVenues(
+      pool.venues,
+      preferences,
+      budgetPerSlot[pool.type],
+      currency,
+      undefined,
+      travelMins
+    ),
+  }));
+  for (const { type, request, ranked: list } of ranked) {
+    pick(request ?? type, type, list);
   }
 
-  if (rankedDinner.length > 0 && rankedDinner[0]) {
-    selected["dinner"] = rankedDinner[0].venue;
-    // PRD requires 2 dinner backups
-    backups["dinner"] = rankedDinner.slice(1, 4).map((s) => s.venue);
-  }
-
-  if (rankedFinish.length > 0 && rankedFinish[0]) {
-    selected["finish"] = rankedFinish[0].venue;
-    backups["finish"] = rankedFinish.slice(1, 3).map((s) => s.venue);
-  }
-
-  // Re-rank based on proximity to selected dinner (most important stop)
-  if (selected["dinner"]) {
-    const dinnerLocation = selected["dinner"].location;
-
-    // Re-evaluate activity selection for proximity to dinner
-    if (rankedActivity.length > 1) {
-      const rerankedActivity = rankVenues(
-        pools.activity,
-        preferences,
-        budgetPerCategory.activity,
-        dinnerLocation
-      );
-      if (rerankedActivity[0]) {
-        selected["activity"] = rerankedActivity[0].venue;
-        backups["activity"] = rerankedActivity.slice(1, 3).map((s) => s.venue);
-      }
-    }
-
-    // Re-evaluate finish selection for proximity to dinner
-    if (rankedFinish.length > 1) {
-      const rerankedFinish = rankVenues(
-        pools.finish,
-        preferences,
-        budgetPerCategory.finish,
-        dinnerLocation
+  // Re-rank the other slots based on proximity to the selected dinner (most important stop)
+  const dinner = selected["dinner"];
+  if (dinner) {
+    for (const { type, request, venues, ranked: list } of ranked) {
+      if (type === "dinner" || list.length <= 1) continue;
+      pick(
+        request ?? type,
+        type,
+        rankVenues(venues, preferences, budgetPerSlot[type], currency, dinner.location, travelMins)
       );
-      if (rerankedFinish[0]) {
-        selected["finish"] = rerankedFinish[0].venue;
-        backups["finish"] = rerankedFinish.slice(1, 3).map((s) => s.venue);
-      }
     }
   }
 
   return { selected, backups };
 }
 
+// A candidate pool with the slot type its venues fill
+// (one per slot type, plus one per requested activity)
+export interface PoolEntry {
+  type: SlotType;
+  request?: string;
+  venues: Venue[];
+}
+
+/**
+ * List every candidate pool, slot-type pools first
+ */
+export function listPools(pools: CandidatePools): PoolEntry[] {
+  return [
+    ...SlotTypeSchema.options.map((type) => ({ type, venues: pools[type] })),
+    ...Object.entries(pools.requested).map(([request, venues]) => ({
+      type: "activity" as const,
+      request,
+      venues,
+    })),
+  ];
+}
+
+/**
+ * Apply a change to every candidate pool
+ */
+export function mapPools(
+  pools: CandidatePools,
+  fn: (venues: Venue[]) => Venue[]
+): CandidatePools {
+  return {
+    drinks: fn(pools.drinks),
+    activity: fn(pools.activity),
+    dinner: fn(pools.dinner),
+    dessert: fn(pools.dessert),
+    scenic: fn(pools.scenic),
+    requested: Object.fromEntries(
+      Object.entries(pools.requested).map(([request, venues]) => [request, fn(venues)])
+    ),
+  };
+}
+
+/**
+ * Candidate pool for a skeleton slot: a requested activity's own pool, else its type's pool
+ */
+export function getSlotPool(
+  pools: CandidatePools,
+  slot: { type: SlotType; request?: string | undefined }
+): Venue[] {
+  return slot.type === "activity" && slot.request !== undefined
+    ? pools.requested[slot.request] ?? []
+    : pools[slot.type];
+}
+
 /**
  * Calculate total distance of an itinerary
  */
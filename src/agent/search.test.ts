@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { PreferencesSchema, type SkeletonSlot, type SlotType, type Venue } from "../types/index.js";
+import { planSearchJobs, splitByRequest } from "./search.js";
+
+const preferences = PreferencesSchema.parse({});
+const NOW = new Date("2026-10-14T10:00:00Z");
+
+const slot = (type: SlotType, request?: string): SkeletonSlot => ({
+  label: request ?? type,
+  type,
+  budgetPercent: 25,
+  ...(request !== undefined && { request }),
+});
+
+describe("planSearchJobs", () => {
+  it("searches once per slot type, most important first", () => {
+    const jobs = planSearchJobs(
+      [slot("scenic"), slot("drinks"), slot("dinner"), slot("drinks")],
+      "Barcelona",
+      preferences,
+      5,
+      NOW
+    );
+
+    expect(jobs.map((job) => job.type)).toEqual(["dinner", "drinks", "scenic"]);
+    expect(jobs.every((job) => job.requests.length === 0)).toBe(true);
+    expect(jobs[2]?.query).toMatch(/scenic viewpoint promenade walk in Barcelona$/);
+  });
+
+  it("asks for cafés instead of bars without alcohol", () => {
+    const [drinks] = planSearchJobs(
+      [slot("drinks")],
+      "Barcelona",
+      { ...preferences, alcoholOk: false },
+      5,
+      NOW
+    );
+
+    expect(drinks?.query).toMatch(/cafe coffee shop juice bar in Barcelona$/);
+  });
+});
+
+describe("planSearchJobs with requested activities", () => {
+  const slots = [slot("activity", "museum"), slot("activity", "bowling"), slot("dinner", "dinner")];
+
+  it("gives each requested activity its own search", () => {
+    const jobs = planSearchJobs(slots, "Barcelona", preferences, 5, NOW);
+
+    expect(jobs.map((job) => [job.type, job.requests])).toEqual([
+      ["dinner", []],
+      ["activity", ["museum"]],
+      ["activity", ["bowling"]],
+    ]);
+    expect(jobs[1]?.query).toBe("best museum gallery in Barcelona");
+    expect(jobs[2]?.query).toBe("best bowling alley in Barcelona");
+  });
+
+  it("shares a search between requests with the same search term", () => {
+    const jobs = planSearchJobs(
+      [slot("activity", "art museum"), slot("activity", "science museum")],
+      "Barcelona",
+      preferences,
+      5,
+      NOW
+    );
+
+    expect(jobs).toEqual([
+      {
+        type: "activity",
+        query: "best museum gallery in Barcelona",
+        requests: ["art museum", "science museum"],
+      },
+    ]);
+  });
+
+  it("combines the requests into one search when the budget is short", () => {
+    const jobs = planSearchJobs(slots, "Barcelona", preferences, 2, NOW);
+
+    expect(jobs[1]).toEqual({
+      type: "activity",
+      query: "best museum gallery or bowling alley in Barcelona",
+      requests: ["museum", "bowling"],
+    });
+  });
+});
+
+describe("splitByRequest", () => {
+  const venue = (name: string): Venue => ({
+    name,
+    placeId: name,
+    mapsUrl: "",
+    address: "",
+    location: { lat: 41.38, lng: 2.17 },
+    category: "activity",
+  });
+  const venues = [venue("Museu Picasso"), venue("Bowling Pedralbes"), venue("Sala Apolo")];
+
+  it("hands each request the venues named after it", () => {
+    const split = splitByRequest(venues, ["museum", "bowling"]);
+
+    expect(split["museum"]?.map((v) => v.name)).toEqual(["Museu Picasso"]);
+    expect(split["bowling"]?.map((v) => v.name)).toEqual(["Bowling Pedralbes"]);
+  });
+
+  it("gives every result to requests sharing a search term", () => {
+    const split = splitByRequest(venues, ["art museum", "science museum"]);
+
+    expect(split["art museum"]).toEqual(venues);
+    expect(split["science museum"]).toEqual(venues);
+  });
+});
@@ -0,0 +1,125 @@
+import type { Preferences, SkeletonSlot, SlotType, Venue } from "../types/index.js";
+import { buildSearchQuery } from "../tools/index.js";
+
+// Common activity terms mapped to better search queries
+const ACTIVITY_QUERY_MAPPINGS: Record<string, string> = {
+  "golf": "golf course golf club",
+  "minigolf": "mini golf putt putt",
+  "bowling": "bowling alley",
+  "museum": "museum gallery",
+  "beach": "beach seaside",
+  "hiking": "hiking trail walking path",
+  "spa": "spa wellness massage",
+  "zoo": "zoo animal park",
+  "aquarium": "aquarium sea life",
+  "theater": "theater theatre show",
+  "cinema": "cinema movie theater",
+  "shopping": "shopping mall shopping center",
+  "park": "park garden",
+};
+
+// Slot types searched first when the search budget can't cover every slot
+const SEARCH_PRIORITY: SlotType[] = ["dinner", "activity", "drinks", "dessert", "scenic"];
+
+/**
+ * Map a requested activity to a better search term (e.g., "bowling" -> "bowling alley")
+ */
+export function getActivitySearchTerm(activity: string): string {
+  const normalizedActivity = activity.toLowerCase();
+  for (const [key, value] of Object.entries(ACTIVITY_QUERY_MAPPINGS)) {
+    if (normalizedActivity.includes(key)) {
+      return value;
+    }
+  }
+  return activity;
+}
+
+// Build the search query for one skeleton slot type
+function buildSlotQuery(
+  type: SlotType,
+  city: string,
+  preferences: Preferences,
+  now: Date
+): string {
+  return buildSearchQuery(type, city, {
+    vibe: preferences.vibe,
+    likes: preferences.likes,
+    dietary: preferences.dietary,
+    alcoholOk: preferences.alcoholOk,
+    familyFriendly: preferences.familyFriendly,
+  }, now);
+}
+
+// One places search and the pools it fills
+// requests: the requested activities it serves (empty = the slot type's own pool)
+export interface SearchJob {
+  type: SlotType;
+  query: string;
+  requests: string[];
+}
+
+/**
+ * Plan the searches for a skeleton: one per slot type, plus one per requested activity
+ * Requests with the same search term share a search, and if the search budget can't
+ * cover them all they are folded into a single combined search
+ */
+export function planSearchJobs(
+  slots: SkeletonSlot[],
+  city: string,
+  preferences: Preferences,
+  remainingSearches: number,
+  now: Date
+): SearchJob[] {
+  const ownPool = (slot: SkeletonSlot) => slot.type === "activity" && slot.request !== undefined;
+  const typeJobs: SearchJob[] = [
+    ...new Set(slots.filter((s) => !ownPool(s)).map((s) => s.type)),
+  ].map((type) => ({ type, query: buildSlotQuery(type, city, preferences, now), requests: [] }));
+
+  const byTerm = new Map<string, string[]>();
+  for (const slot of slots) {
+    if (!ownPool(slot) || slot.request === undefined) continue;
+    const term = getActivitySearchTerm(slot.request);
+    byTerm.set(term, [...(byTerm.get(term) ?? []), slot.request]);
+  }
+  let requestJobs: SearchJob[] = [...byTerm].map(([term, requests]) => ({
+    type: "activity",
+    query: `best ${term} in ${city}`,
+    requests,
+  }));
+
+  if (requestJobs.length > 1 && typeJobs.length + requestJobs.length > remainingSearches) {
+    console.log(
+      `[searchSlots] ${remainingSearches} searches left for ${typeJobs.length + requestJobs.length} - combining requested activities`
+    );
+    requestJobs = [{
+      type: "activity",
+      query: `best ${[...byTerm.keys()].join(" or ")} in ${city}`,
+      requests: requestJobs.flatMap((job) => job.requests),
+    }];
+  }
+
+  // Most important first so a tight budget skips the extras
+  return [...typeJobs, ...requestJobs].sort(
+    (a, b) => SEARCH_PRIORITY.indexOf(a.type) - SEARCH_PRIORITY.indexOf(b.type)
+  );
+}
+
+/**
+ * Split a shared search's results between the requests it served
+ * Requests with the same search term all get every result; otherwise a venue goes to
+ * the requests whose words (or their first 5 letters, e.g. "museu") appear in its name
+ */
+export function splitByRequest(venues: Venue[], requests: string[]): Record<string, Venue[]> {
+  const split: Record<string, Venue[]> = {};
+  const shared = new Set(requests.map(getActivitySearchTerm)).size <= 1;
+  for (const request of requests) {
+    const stems = `${request} ${getActivitySearchTerm(request)}`
+      .split(/\s+/)
+      .filter((word) => word.length > 2)
+      .map((word) => word.slice(0, 5));
+    split[request] = shared
+      ? venues
+      : venues.filter((v) => stems.some((stem) => v.name.toLowerCase().includes(stem)));
+  }
+  return split;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSkeleton,
+  fitSkeletonToRequest,
+  getSlotTypeForActivity,
+  validateSkeleton,
+} from "./skeleton.js";
+
+const evening = buildSkeleton({ amount: 150, currency: "EUR" }, "18:00", "23:30");
+const slots = (requests: string[]) =>
+  fitSkeletonToRequest(evening, requests, true).slots.map(({ label, type, request }) => ({
+    label,
+    type,
+    request,
+  }));
+
+describe("getSlotTypeForActivity", () => {
+  it("maps food and drink requests to their slots, anything else to an activity", () => {
+    expect(getSlotTypeForActivity("Dinner")).toBe("dinner");
+    expect(getSlotTypeForActivity("cocktails")).toBe("drinks");
+    expect(getSlotTypeForActivity("ice cream")).toBe("dessert");
+    expect(getSlotTypeForActivity("theater")).toBe("activity");
+  });
+});
+
+describe("fitSkeletonToRequest", () => {
+  it("gives every requested activity its own slot", () => {
+    expect(slots(["museum", "Bowling", "dinner"])).toEqual([
+      { label: "Museum", type: "activity", request: "museum" },
+      { label: "Bowling", type: "activity", request: "bowling" },
+      { label: "Dinner", type: "dinner", request: "dinner" },
+    ]);
+  });
+
+  it("serves a repeated request once", () => {
+    expect(slots(["museum", " Museum "])).toEqual([
+      { label: "Museum", type: "activity", request: "museum" },
+    ]);
+  });
+
+  it("keeps the order the user asked for", () => {
+    expect(slots(["dinner", "theater"])).toEqual([
+      { label: "Dinner", type: "dinner", request: "dinner" },
+      { label: "Theater", type: "activity", request: "theater" },
+    ]);
+  });
+
+  it("keeps the template's order without requests", () => {
+    expect(slots([]).map((slot) => [slot.type, slot.request])).toEqual([
+      ["drinks", undefined],
+      ["activity", undefined],
+      ["dinner", undefined],
+      ["dessert", undefined],
+    ]);
+  });
+
+  it("re-times the slots in their new order", () => {
+    const [dinner, theater] = fitSkeletonToRequest(evening, ["dinner", "theater"], true).slots;
+
+    expect(dinner?.timeStart).toBe("18:00");
+    expect(theater?.timeStart).toBe("20:50");
+  });
+
+  it("rescales the budget shares of the slots kept", () => {
+    expect(validateSkeleton(fitSkeletonToRequest(evening, ["museum", "bowling", "dinner"], true))).toBe(
+      true
+    );
+  });
+});
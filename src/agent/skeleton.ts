@@ -1,4 +1,6 @@
-import type { Skeleton, SkeletonSlot, Budget } from "../types/index.js";
+import type { Skeleton, SkeletonSlot, SlotType, Budget } from "../types/index.js";
+import { DEFAULT_TRAVEL_MINS } from "./timeline.js";
+import { budgetInEur } from "./currency.js";
 
 // Default budget allocation percentages from PRD
 // drinks → activity → dinner → end
@@ -39,6 +41,32 @@ const FANCY_TEMPLATE: SkeletonSlot[] = [
   { label: "Cocktails / Nightcap", type: "drinks", budgetPercent: 10, durationMins: 45 },
 ];
 
+// Slot added when a requested stop type isn't part of the chosen template
+const DEFAULT_SLOTS: Record<SlotType, SkeletonSlot> = {
+  scenic: { label: "Scenic walk", type: "scenic", budgetPercent: 5, durationMins: 45 },
+  activity: { label: "Main activity", type: "activity", budgetPercent: 30, durationMins: 120 },
+  dinner: { label: "Dinner", type: "dinner", budgetPercent: 50, durationMins: 90 },
+  drinks: { label: "Drinks", type: "drinks", budgetPercent: 15, durationMins: 60 },
+  dessert: { label: "Dessert", type: "dessert", budgetPercent: 10, durationMins: 45 },
+};
+
+// Usual position of each slot type in an outing (used to place added slots)
+const SLOT_RANK: Record<SlotType, number> = {
+  scenic: 0,
+  activity: 1,
+  dinner: 2,
+  drinks: 3,
+  dessert: 4,
+};
+
+// Keywords that map a requested activity to a slot type (anything else is an activity)
+const SLOT_KEYWORDS: [SlotType, string[]][] = [
+  ["dinner", ["dinner", "lunch", "breakfast", "brunch", "food", "restaurant", "eat", "meal"]],
+  ["drinks", ["drink", "bar", "cocktail", "wine", "beer", "pub"]],
+  ["dessert", ["dessert", "ice cream", "gelato", "coffee", "cafe", "sweet"]],
+  ["scenic", ["scenic", "viewpoint", "sunset", "stroll", "promenade"]],
+];
+
 // Parse time string (HH:MM) to minutes since midnight
 function parseTime(time: string): number {
   const parts = time.split(":");
@@ -64,11 +92,12 @@ function selectTemplate(
   const endMins = parseTime(endTime);
   const durationMins = endMins > startMins ? endMins - startMins : (24 * 60 - startMins) + endMins;
 
-  // Budget-based selection
-  if (budget.amount < 80) {
+  // Budget-based selection (thresholds are in EUR)
+  const amountEur = budgetInEur(budget);
+  if (amountEur < 80) {
     return BUDGET_TEMPLATE;
   }
-  if (budget.amount > 250) {
+  if (amountEur > 250) {
     return FANCY_TEMPLATE;
   }
 
@@ -93,15 +122,27 @@ function selectTemplate(
   return DEFAULT_TEMPLATE;
 }
 
-// Adjust template durations to fit the time window
+// Travel minutes between slot i and slot i+1 (estimated until routes are known)
+function travelAfter(travelMins: number[], index: number): number {
+  return travelMins[index] ?? DEFAULT_TRAVEL_MINS;
+}
+
+// Adjust template durations so slots plus travel between them fill the time window
 function adjustDurations(
   slots: SkeletonSlot[],
   startTime: string,
-  endTime: string
+  endTime: string,
+  travelMins: number[]
 ): SkeletonSlot[] {
   const startMins = parseTime(startTime);
   const endMins = parseTime(endTime);
-  const availableMins = endMins > startMins ? endMins - startMins : (24 * 60 - startMins) + endMins;
+  const windowMins = endMins > startMins ? endMins - startMins : (24 * 60 - startMins) + endMins;
+
+  // Time spent moving between slots isn't available for the slots themselves
+  const totalTravelMins = slots
+    .slice(0, -1)
+    .reduce((sum, _, i) => sum + travelAfter(travelMins, i), 0);
+  const availableMins = Math.max(windowMins - totalTravelMins, 0);
 
   // Calculate total template duration
   const totalTemplateMins = slots.reduce((sum, s) => sum + (s.durationMins ?? 0), 0);
@@ -118,18 +159,18 @@ function adjustDurations(
 // Assign start times to each slot
 function assignTimes(
   slots: SkeletonSlot[],
-  startTime: string
+  startTime: string,
+  travelMins: number[]
 ): SkeletonSlot[] {
   let currentMins = parseTime(startTime);
 
-  return slots.map((slot) => {
+  return slots.map((slot, i) => {
     const slotWithTime = {
       ...slot,
       timeStart: formatTime(currentMins),
     };
     currentMins += slot.durationMins ?? 60;
-    // Add buffer for travel (10 mins between stops)
-    currentMins += 10;
+    currentMins += travelAfter(travelMins, i);
     return slotWithTime;
   });
 }
@@ -140,21 +181,23 @@ function assignTimes(
  * @param budget - Total budget
  * @param startTime - Start time (HH:MM)
  * @param endTime - End time (HH:MM)
+ * @param travelMins - Travel minutes between consecutive slots (estimated if missing)
  * @returns Skeleton with slots, budget allocation, and time window
  */
 export function buildSkeleton(
   budget: Budget,
   startTime: string,
-  endTime: string
+  endTime: string,
+  travelMins: number[] = []
 ): Skeleton {
   // Select appropriate template
   let slots = selectTemplate(budget, startTime, endTime);
 
   // Adjust durations to fit time window
-  slots = adjustDurations(slots, startTime, endTime);
+  slots = adjustDurations(slots, startTime, endTime, travelMins);
 
   // Assign start times
-  slots = assignTimes(slots, startTime);
+  slots = assignTimes(slots, startTime, travelMins);
 
   return {
     slots,
@@ -166,6 +209,199 @@ export function buildSkeleton(
   };
 }
 
+/**
+ * Re-time an existing skeleton once real travel times between slots are known
+ */
+export function retimeSkeleton(
+  skeleton: Skeleton,
+  travelMins: number[]
+): Skeleton {
+  const { start, end } = skeleton.timeWindow;
+  let slots = adjustDurations(skeleton.slots, start, end, travelMins);
+  slots = assignTimes(slots, start, travelMins);
+  return { ...skeleton, slots };
+}
+
+/**
+ * Map a requested activity (e.g., "golf", "ice cream") to the slot type that covers it
+ */
+export function getSlotTypeForActivity(activity: string): SlotType {
+  // Keywords match at the start of a word ("drinks" is drinks, "theater" isn't "eat")
+  const lower = ` ${activity.toLowerCase()}`;
+  for (const [type, keywords] of SLOT_KEYWORDS) {
+    if (keywords.some((k) => lower.includes(` ${k}`))) return type;
+  }
+  return "activity";
+}
+
+/**
+ * Normalize a requested activity so equivalent requests share a key (e.g., " Bowling" -> "bowling")
+ */
+export function normalizeRequest(activity: string): string {
+  return activity.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+// Slot label for a requested activity (e.g., "bowling" -> "Bowling")
+function toSlotLabel(request: string): string {
+  return request.charAt(0).toUpperCase() + request.slice(1);
+}
+
+/**
+ * Fit a template skeleton to what the user asked for
+ * - Without alcohol, drinks slots become café/dessert stops
+ * - With explicit requests, only requested slot types are kept and missing ones are added
+ * - Every distinct requested activity gets its own activity slot
+ * - Requested slots record the request they serve (slot.request) and follow the
+ *   order the user asked for; without requests the template order is kept
+ * Budget shares are rescaled to 100% and the slots re-timed
+ *
+ * @param requestedActivities - What the user explicitly asked for (empty = keep the template)
+ * @param alcoholOk - Whether drinks stops may be bars
+ */
+export function fitSkeletonToRequest(
+  skeleton: Skeleton,
+  requestedActivities: string[],
+  alcoholOk: boolean
+): Skeleton {
+  let slots = skeleton.slots;
+
+  // Distinct requests, in the order they were asked for
+  const requests = [
+    ...new Map(
+      requestedActivities
+        .filter((a) => a.trim())
+        .map((a) => [normalizeRequest(a), a.trim()] as const)
+    ).values(),
+  ];
+  const activityRequests = requests.filter(
+    (a) => getSlotTypeForActivity(a) === "activity"
+  );
+
+  const wanted = new Set(requests.map(getSlotTypeForActivity));
+  if (wanted.size > 0) {
+    slots = slots.filter((slot) => wanted.has(slot.type));
+    for (const type of wanted) {
+      if (slots.some((slot) => slot.type === type)) continue;
+      const index = slots.findIndex((slot) => SLOT_RANK[slot.type] > SLOT_RANK[type]);
+      const added = { ...DEFAULT_SLOTS[type] };
+      slots = index === -1
+        ? [...slots, added]
+        : [...slots.slice(0, index), added, ...slots.slice(index)];
+    }
+  }
+
+  // One slot per requested activity, in place of the template's activity slot(s)
+  if (activityRequests.length > 0) {
+    const templateActivities = slots.filter((slot) => slot.type === "activity");
+    const position = slots.findIndex((slot) => slot.type === "activity");
+    const requestSlots = activityRequests.map((request, i) => ({
+      ...(templateActivities[i] ?? DEFAULT_SLOTS.activity),
+      label: toSlotLabel(request),
+      request: normalizeRequest(request),
+    }));
+    const others = slots.filter((slot) => slot.type !== "activity");
+    slots = [...others.slice(0, position), ...requestSlots, ...others.slice(position)];
+  }
+
+  // Tag the other slots with the first request of their type, then keep the user's order
+  // (stable sort, so template slots serving the same request stay in template order)
+  if (requests.length > 0) {
+    const order = requests.map(normalizeRequest);
+    slots = slots
+      .map((slot) => {
+        if (slot.request !== undefined) return slot;
+        const request = order.find((r) => getSlotTypeForActivity(r) === slot.type);
+        return request === undefined ? slot : { ...slot, request };
+      })
+      .sort((a, b) => order.indexOf(a.request ?? "") - order.indexOf(b.request ?? ""));
+  }
+
+  if (!alcoholOk) {
+    slots = slots.map((slot) =>
+      slot.type === "drinks" ? { ...slot, label: "Café / Treat", type: "dessert" } : slot
+    );
+  }
+
+  return retimeSkeleton({ ...skeleton, slots: rescaleBudgets(slots) }, []);
+}
+
+// Rescale budget shares so the slots still add up to 100%
+function rescaleBudgets(slots: SkeletonSlot[]): SkeletonSlot[] {
+  const totalPercent = slots.reduce((sum, slot) => sum + slot.budgetPercent, 0);
+  if (totalPercent <= 0) return slots;
+  return slots.map((slot) => ({
+    ...slot,
+    budgetPercent: Math.round((slot.budgetPercent * 100) / totalPercent),
+  }));
+}
+
+/**
+ * Add a stop to an existing skeleton (e.g., "add ice cream after dinner")
+ * Requested activities get their own slot; otherwise the type's default slot is used.
+ * The slot goes where its type usually sits, budgets are rescaled and the slots re-timed.
+ *
+ * @param request - Requested activity the slot serves (e.g., "bowling")
+ */
+export function addSlot(skeleton: Skeleton, type: SlotType, request?: string): Skeleton {
+  const slot: SkeletonSlot = request
+    ? {
+        ...DEFAULT_SLOTS[type],
+        label: toSlotLabel(request),
+        request: normalizeRequest(request),
+      }
+    : { ...DEFAULT_SLOTS[type] };
+  const index = skeleton.slots.findIndex((s) => SLOT_RANK[s.type] > SLOT_RANK[type]);
+  const slots = index === -1
+    ? [...skeleton.slots, slot]
+    : [...skeleton.slots.slice(0, index), slot, ...skeleton.slots.slice(index)];
+  return retimeSkeleton({ ...skeleton, slots: rescaleBudgets(slots) }, []);
+}
+
+/**
+ * Remove the matching slots (e.g., "drop the bar"), rescaling budgets and re-timing
+ */
+export function removeSlots(
+  skeleton: Skeleton,
+  matches: (slot: SkeletonSlot) => boolean
+): Skeleton {
+  const slots = skeleton.slots.filter((slot) => !matches(slot));
+  return retimeSkeleton({ ...skeleton, slots: rescaleBudgets(slots) }, []);
+}
+
+/**
+ * Point the first slot of a type at another requested activity (e.g., museum -> bowling)
+ * Timing and budget share are kept
+ */
+export function swapSlotRequest(skeleton: Skeleton, type: SlotType, request: string): Skeleton {
+  const index = skeleton.slots.findIndex((slot) => slot.type === type);
+  if (index === -1) return addSlot(skeleton, type, request);
+  return {
+    ...skeleton,
+    slots: skeleton.slots.map((slot, i) =>
+      i === index
+        ? { ...slot, label: toSlotLabel(request), request: normalizeRequest(request) }
+        : slot
+    ),
+  };
+}
+
+/**
+ * Keep an outing indoors (bad weather): scenic slots are dropped and "/ Walk" options
+ * taken off the other slots' labels - requested stops stay as asked
+ */
+export function toIndoorSkeleton(skeleton: Skeleton): Skeleton {
+  const outdoors = (slot: SkeletonSlot) => slot.type === "scenic" && slot.request === undefined;
+  const indoor = skeleton.slots.some(outdoors) ? removeSlots(skeleton, outdoors) : skeleton;
+  return {
+    ...indoor,
+    slots: indoor.slots.map((slot) =>
+      slot.request === undefined
+        ? { ...slot, label: slot.label.replace(/\s*\/\s*walk$/i, "") }
+        : slot
+    ),
+  };
+}
+
 /**
  * Get budget allocation for a specific slot type
  */
@@ -181,7 +417,7 @@ export function getBudgetForSlot(
 /**
  * Get all slot types in the skeleton
  */
-export function getSlotTypes(skeleton: Skeleton): string[] {
+export function getSlotTypes(skeleton: Skeleton): SlotType[] {
   return skeleton.slots.map((s) => s.type);
 }
 
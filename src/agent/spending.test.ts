@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { Budget, Plan, Stop, Venue } from "../types/index.js";
+import { buildBudgetBreakdown, describePlanBudget, getCostByCategory } from "./spending.js";
+
+function makeVenue(name: string, category: string, priceLevel: number): Venue {
+  const placeId = name.toLowerCase().replace(/\s+/g, "-");
+  return {
+    name,
+    placeId,
+    mapsUrl: `https://www.google.com/maps/place/?q=place_id:${placeId}`,
+    address: "",
+    location: { lat: 41.38, lng: 2.17 },
+    category,
+    priceLevel,
+  };
+}
+
+function makeStop(label: string, venue: Venue, estimatedCostRange: [number, number]): Stop {
+  return {
+    time: "20:00",
+    label,
+    venue,
+    estimatedCostRange,
+    whyItFits: "",
+    travelFromPrevMins: 0,
+    durationMins: 60,
+    openCheck: "Standard (confirm hours in Maps)",
+  };
+}
+
+const BUDGET: Budget = { amount: 100, currency: "EUR" };
+
+// Per person €50-90: €100-180 for two, €40 over the budget at mid-range
+const planA: Plan = {
+  id: "A",
+  title: "Tapas crawl",
+  stops: [
+    makeStop("Activity", makeVenue("Flamenco Show", "activity", 1), [10, 20]),
+    makeStop("Dinner", makeVenue("Cal Pep", "dinner", 3), [30, 50]),
+    makeStop("Drinks", makeVenue("Paradiso", "drinks", 2), [10, 20]),
+  ],
+  backups: [],
+  notes: [],
+};
+
+// Per person €30-50: €60-100 for two
+const planB: Plan = {
+  id: "B",
+  title: "Early dinner",
+  stops: [
+    makeStop("Activity", makeVenue("Flamenco Show", "activity", 1), [10, 20]),
+    makeStop("Dinner", makeVenue("Bar Cañete", "dinner", 2), [20, 30]),
+  ],
+  backups: [],
+  notes: [],
+};
+
+const noAlternatives = () => [];
+
+describe("getCostByCategory", () => {
+  it("sums each category's range for the whole party", () => {
+    expect(getCostByCategory(planA.stops, 2)).toEqual({
+      activity: [20, 40],
+      dinner: [60, 100],
+      drinks: [20, 40],
+    });
+  });
+});
+
+describe("buildBudgetBreakdown", () => {
+  it("totals every plan and flags the ones over budget", () => {
+    const breakdown = buildBudgetBreakdown([planA, planB], BUDGET, 2, noAlternatives);
+
+    expect(breakdown.budget).toBe(100);
+    expect(breakdown.planATotal).toEqual([100, 180]);
+    expect(breakdown.byCategory).toEqual(getCostByCategory(planA.stops, 2));
+    expect(breakdown.plans.map((p) => [p.planId, p.overBy])).toEqual([
+      ["A", 40],
+      ["B", undefined],
+    ]);
+  });
+
+  it("suggests the cheaper venue that saves the most", () => {
+    const alternatives = (venue: Venue): Venue[] =>
+      venue.category === "dinner"
+        ? [
+            makeVenue("Cal Pep", "dinner", 1),
+            makeVenue("El Xampanyet", "dinner", 3),
+            makeVenue("Bodega", "dinner", 2),
+          ]
+        : [];
+    const [budgetA] = buildBudgetBreakdown([planA], BUDGET, 2, alternatives).plans;
+
+    // Cal Pep is already in the plan and El Xampanyet is no cheaper
+    expect(budgetA?.suggestion).toBe("swap Dinner at Cal Pep for Bodega (saves ~€18)");
+  });
+
+  it("suggests skipping the least important stop without a cheaper venue", () => {
+    const [budgetA] = buildBudgetBreakdown([planA], BUDGET, 2, noAlternatives).plans;
+
+    expect(budgetA?.suggestion).toBe("skip Drinks at Paradiso (saves ~€30)");
+  });
+});
+
+describe("describePlanBudget", () => {
+  it("says how a plan stands against the budget", () => {
+    const [budgetA, budgetB] = buildBudgetBreakdown([planA, planB], BUDGET, 2, noAlternatives).plans;
+
+    expect(budgetA && describePlanBudget(budgetA, BUDGET, 2)).toBe(
+      "€100-180 for 2 · about €40 over the €100 budget: skip Drinks at Paradiso (saves ~€30)"
+    );
+    expect(budgetB && describePlanBudget(budgetB, BUDGET, 2)).toBe(
+      "€60-100 for 2 · within the €100 budget"
+    );
+  });
+});
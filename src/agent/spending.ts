@@ -0,0 +1,120 @@
+import type { Budget, BudgetBreakdown, Plan, PlanBudget, Stop, Venue } from "../types/index.js";
+import { formatMoney, formatMoneyRange } from "./currency.js";
+import { getPerPersonTotal } from "./output.js";
+
+// Cost of a stop against its slot's budget share, by price level (0 = cheapest, 4 = most expensive)
+export const PRICE_LEVEL_MULTIPLIERS = [0.5, 0.75, 1.0, 1.3, 1.6];
+
+// Categories skipped when no cheaper venue is found (least important first)
+const SKIP_ORDER = ["dessert", "drinks", "scenic"];
+
+// Cost multiplier of a price level (unknown counts as moderate)
+function getMultiplier(priceLevel: number | undefined): number {
+  return PRICE_LEVEL_MULTIPLIERS[priceLevel ?? 2] ?? 1.0;
+}
+
+// Mid-range cost of a stop for the whole party
+function getStopCost(stop: Stop, partySize: number): number {
+  return ((stop.estimatedCostRange[0] + stop.estimatedCostRange[1]) / 2) * partySize;
+}
+
+/**
+ * Cost range of a plan's stops per venue category, for the whole party
+ */
+export function getCostByCategory(stops: Stop[], partySize: number): Record<string, [number, number]> {
+  const byCategory: Record<string, [number, number]> = {};
+  for (const stop of stops) {
+    const [min, max] = byCategory[stop.venue.category] ?? [0, 0];
+    byCategory[stop.venue.category] = [
+      min + stop.estimatedCostRange[0] * partySize,
+      max + stop.estimatedCostRange[1] * partySize,
+    ];
+  }
+  return byCategory;
+}
+
+// Suggest the change that saves the most: a cheaper venue for one stop,
+// else skipping the least important stop
+function suggestSaving(
+  plan: Plan,
+  partySize: number,
+  currency: string,
+  getAlternatives: (venue: Venue) => Venue[]
+): string | undefined {
+  const used = new Set(plan.stops.map((s) => s.venue.placeId));
+  let best: { saving: number; suggestion: string } | undefined;
+
+  for (const stop of plan.stops) {
+    const priceLevel = stop.venue.priceLevel ?? 2;
+    const cheaper = getAlternatives(stop.venue).find(
+      (v) => !used.has(v.placeId) && v.priceLevel !== undefined && v.priceLevel < priceLevel
+    );
+    if (!cheaper) continue;
+
+    const saving =
+      getStopCost(stop, partySize) * (1 - getMultiplier(cheaper.priceLevel) / getMultiplier(priceLevel));
+    if (!best || saving > best.saving) {
+      best = {
+        saving,
+        suggestion: `swap ${stop.label} at ${stop.venue.name} for ${cheaper.name} (saves ~${formatMoney(Math.round(saving), currency)})`,
+      };
+    }
+  }
+  if (best) return best.suggestion;
+
+  const skip = SKIP_ORDER.map((category) =>
+    [...plan.stops].reverse().find((s) => s.venue.category === category)
+  ).find((s): s is Stop => s !== undefined);
+  return skip
+    ? `skip ${skip.label} at ${skip.venue.name} (saves ~${formatMoney(Math.round(getStopCost(skip, partySize)), currency)})`
+    : undefined;
+}
+
+/**
+ * Estimated spend of every plan against the budget (whole party), with a suggested
+ * swap for plans over it - a plan is over when its mid-range estimate exceeds the budget
+ *
+ * @param getAlternatives - Other venues that could take a stop's place (best first)
+ */
+export function buildBudgetBreakdown(
+  plans: Plan[],
+  budget: Budget,
+  partySize: number,
+  getAlternatives: (venue: Venue) => Venue[]
+): BudgetBreakdown {
+  const planBudgets = plans.map((plan): PlanBudget => {
+    const perPerson = getPerPersonTotal(plan.stops);
+    const total: [number, number] = [perPerson[0] * partySize, perPerson[1] * partySize];
+    const planBudget: PlanBudget = {
+      planId: plan.id,
+      total,
+      byCategory: getCostByCategory(plan.stops, partySize),
+    };
+
+    const overBy = Math.round((total[0] + total[1]) / 2 - budget.amount);
+    if (overBy <= 0) return planBudget;
+    const suggestion = suggestSaving(plan, partySize, budget.currency, getAlternatives);
+    return { ...planBudget, overBy, ...(suggestion !== undefined && { suggestion }) };
+  });
+
+  const planA = planBudgets[0];
+  return {
+    budget: budget.amount,
+    planATotal: planA?.total ?? [0, 0],
+    byCategory: planA?.byCategory ?? {},
+    plans: planBudgets,
+  };
+}
+
+/**
+ * One-line budget status of a plan, e.g., "€120-160 for 2 · about €20 over the €100 budget: swap ..."
+ */
+export function describePlanBudget(planBudget: PlanBudget, budget: Budget, partySize: number): string {
+  const total = `${formatMoneyRange(planBudget.total, budget.currency)} for ${partySize}`;
+  const target = formatMoney(budget.amount, budget.currency);
+  if (planBudget.overBy === undefined) {
+    return `${total} · within the ${target} budget`;
+  }
+  const over = `${total} · about ${formatMoney(planBudget.overBy, budget.currency)} over the ${target} budget`;
+  return planBudget.suggestion ? `${over}: ${planBudget.suggestion}` : over;
+}
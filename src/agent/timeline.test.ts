@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { Plan, Stop } from "../types/index.js";
+import { reflowPlan, reflowTimeline } from "./timeline.js";
+import type { TravelLookup } from "./travel.js";
+
+function makeStop(name: string, category: string, durationMins: number, lng: number = 0): Stop {
+  return {
+    time: "00:00",
+    label: name,
+    venue: {
+      name,
+      placeId: name.toLowerCase(),
+      mapsUrl: `https://www.google.com/maps/place/?q=place_id:${name.toLowerCase()}`,
+      address: "",
+      location: { lat: 0, lng },
+      category,
+    },
+    estimatedCostRange: [10, 20],
+    whyItFits: "",
+    travelFromPrevMins: 0,
+    durationMins,
+    openCheck: "Standard (confirm hours in Maps)",
+  };
+}
+
+// Bowling, dinner and a bar
+const nightOut = (bowlingMins: number): Stop[] => [
+  makeStop("Bowling", "activity", bowlingMins),
+  makeStop("Dinner", "dinner", 90),
+  makeStop("Bar", "drinks", 30),
+];
+
+// 10 minutes' walk per leg
+const flatTravel: TravelLookup = () => ({ mins: 10, mode: "WALK", source: "estimated" });
+
+// 10 minutes' walk per unit of longitude between the stops
+const distanceTravel: TravelLookup = (from, to) => ({
+  mins: Math.abs(from.location.lng - to.location.lng) * 10,
+  mode: "WALK",
+  source: "estimated",
+});
+
+describe("reflowTimeline", () => {
+  it("lays stops out back to back from the window start", () => {
+    const stops = nightOut(60);
+    const result = reflowTimeline(stops, "20:00", "23:30", flatTravel);
+
+    expect(result.fits).toBe(true);
+    expect(result.notes).toEqual([]);
+    expect(result.stops.map((s) => s.time)).toEqual(["20:00", "21:10", "22:50"]);
+    expect(result.stops.map((s) => s.travelFromPrevMins)).toEqual([0, 10, 10]);
+    expect(result.stops[0]?.travelMode).toBeUndefined();
+    expect(result.stops[1]?.travelMode).toBe("WALK");
+  });
+
+  it("wraps times past midnight", () => {
+    const stops = [makeStop("Dinner", "dinner", 90), makeStop("Bar", "drinks", 60)];
+    const result = reflowTimeline(stops, "23:00", "02:00", flatTravel);
+
+    expect(result.fits).toBe(true);
+    expect(result.stops.map((s) => s.time)).toEqual(["23:00", "00:40"]);
+  });
+
+  it("reorders stops when a shorter route fits the window", () => {
+    const stops = [
+      makeStop("Museum", "activity", 60, 0),
+      makeStop("Viewpoint", "scenic", 60, 10),
+      makeStop("Gallery", "activity", 60, 1),
+    ];
+    const result = reflowTimeline(stops, "14:00", "19:00", distanceTravel);
+
+    expect(result.fits).toBe(true);
+    expect(result.stops.map((s) => s.label)).toEqual(["Museum", "Gallery", "Viewpoint"]);
+    expect(result.notes).toEqual(["Reordered stops to cut travel: Museum → Gallery → Viewpoint."]);
+  });
+
+  it("shortens the stop with the most slack before dropping any", () => {
+    const stops = nightOut(90);
+    const result = reflowTimeline(stops, "20:00", "23:30", flatTravel);
+
+    expect(result.fits).toBe(true);
+    expect(result.stops.map((s) => s.durationMins)).toEqual([70, 90, 30]);
+    expect(result.notes).toEqual([
+      "Shortened Bowling at Bowling to 1h10 to fit the 20:00-23:30 window.",
+    ]);
+  });
+
+  it("drops the least important stop when shortening is not enough", () => {
+    const stops = nightOut(90);
+    const result = reflowTimeline(stops, "20:00", "23:00", flatTravel);
+
+    expect(result.fits).toBe(true);
+    expect(result.stops.map((s) => s.label)).toEqual(["Bowling", "Dinner"]);
+    expect(result.notes).toContain("Dropped Bar at Bar - the plan would run past 23:00.");
+  });
+
+  it("says when even the cuts leave the plan too long", () => {
+    const stops = [makeStop("Dinner", "dinner", 120)];
+    const result = reflowTimeline(stops, "20:00", "21:00", flatTravel);
+
+    expect(result.fits).toBe(false);
+    expect(result.notes.at(-1)).toBe("Even with cuts this plan ends at 21:15, after 21:00.");
+  });
+});
+
+describe("reflowPlan", () => {
+  it("keeps the plan's notes and adds the reflow's", () => {
+    const plan: Plan = {
+      id: "A",
+      title: "Bowling night",
+      stops: nightOut(90),
+      backups: [],
+      notes: ["Bring a jacket."],
+    };
+
+    const result = reflowPlan(plan, "20:00", "23:30", flatTravel);
+    expect(result.notes).toEqual([
+      "Bring a jacket.",
+      "Shortened Bowling at Bowling to 1h10 to fit the 20:00-23:30 window.",
+    ]);
+    expect(result.stops[1]?.time).toBe("21:20");
+  });
+});
@@ -0,0 +1,220 @@
+import type { Plan, Stop } from "../types/index.js";
+import { getValidOrderings, type OrderingItem } from "./ordering.js";
+import type { TravelLookup } from "./travel.js";
+
+// Travel buffer between skeleton slots before their venues (and legs) are known
+export const DEFAULT_TRAVEL_MINS = 10;
+
+// Shortest sensible visit per category - stops are never shortened below this
+const MIN_DURATION_MINS: Record<string, number> = {
+  activity: 60,
+  dinner: 75,
+  drinks: 30,
+  dessert: 30,
+  scenic: 20,
+};
+
+// Categories dropped first when shortening is not enough (least important first)
+const DROP_ORDER = ["dessert", "scenic", "drinks", "activity", "dinner"];
+
+// Parse time string (HH:MM) to minutes since midnight
+function parseTime(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+}
+
+// Format minutes since midnight to HH:MM
+function formatTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
+}
+
+// Format a duration in minutes as e.g. "2h15" or "45 min"
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const m = minutes % 60;
+  return `${Math.floor(minutes / 60)}h${m > 0 ? m.toString().padStart(2, "0") : ""}`;
+}
+
+// Lay out stops back to back from the window start; returns the retimed stops and end minute
+function layout(
+  stops: Stop[],
+  startMins: number,
+  travel: TravelLookup
+): { stops: Stop[]; endMins: number } {
+  let current = startMins;
+  let prev: Stop | undefined;
+
+  const timed = stops.map((stop): Stop => {
+    const { travelMode: _, travelSource: __, ...rest } = stop;
+    let retimed: Stop;
+    if (prev) {
+      const leg = travel(prev.venue, stop.venue, formatTime(current));
+      current += leg.mins;
+      retimed = {
+        ...rest,
+        time: formatTime(current),
+        travelFromPrevMins: leg.mins,
+        travelMode: leg.mode,
+        travelSource: leg.source,
+      };
+    } else {
+      retimed = { ...rest, time: formatTime(current), travelFromPrevMins: 0 };
+    }
+    current += stop.durationMins;
+    prev = stop;
+    return retimed;
+  });
+
+  return { stops: timed, endMins: current };
+}
+
+// Stops as the ordering optimiser sees them (requested stops keep the user's order)
+function toOrderingItems(stops: Stop[]): OrderingItem[] {
+  return stops.map((stop) => ({
+    placeId: stop.venue.placeId,
+    category: stop.venue.category,
+    location: stop.venue.location,
+    durationMins: stop.durationMins,
+    pinned: stop.request !== undefined,
+  }));
+}
+
+export interface TimelineResult {
+  stops: Stop[];
+  notes: string[];
+  fits: boolean;
+}
+
+/**
+ * Rebuild a plan's stop times from travel times and stop durations,
+ * then reorder, shorten or drop stops until it ends within the time window
+ *
+ * @param stops - Stops in their planned order (durationMins must be set)
+ * @param windowStart - Window start (HH:MM)
+ * @param windowEnd - Window end (HH:MM), may be after midnight
+ * @param travel - Travel (minutes and mode) for each leg
+ */
+export function reflowTimeline(
+  stops: Stop[],
+  windowStart: string,
+  windowEnd: string,
+  travel: TravelLookup
+): TimelineResult {
+  const startMins = parseTime(windowStart);
+  let endLimit = parseTime(windowEnd);
+  if (endLimit <= startMins) endLimit += 24 * 60; // Window runs past midnight
+
+  const notes: string[] = [];
+  let current = layout(stops, startMins, travel);
+  if (current.endMins <= endLimit) {
+    return { stops: current.stops, notes, fits: true };
+  }
+
+  // 1. Reorder: a different (valid) order may save enough travel to fit
+  if (stops.length <= 5) {
+    const best = getValidOrderings(toOrderingItems(stops), {
+      windowStart,
+      travelMins: (from, to) => travel(from, to, windowStart).mins,
+    })
+      .map((order) =>
+        layout(
+          order.map((i) => stops[i]).filter((s): s is Stop => s !== undefined),
+          startMins,
+          travel
+        )
+      )
+      .sort((a, b) => a.endMins - b.endMins)[0];
+    if (best && best.endMins < current.endMins) {
+      const moved = best.stops.some((s, i) => s.venue.placeId !== stops[i]?.venue.placeId);
+      current = best;
+      if (moved) {
+        notes.push(
+          `Reordered stops to cut travel: ${best.stops.map((s) => s.label).join(" → ")}.`
+        );
+      }
+      if (current.endMins <= endLimit) {
+        return { stops: current.stops, notes, fits: true };
+      }
+    }
+  }
+
+  // 2. Shorten: take time from the stops with the most slack above their minimum
+  // (keyed by place so a stop that ends up dropped doesn't also report a shortening)
+  const shortenNotes = new Map<string, string>();
+  let overrun = current.endMins - endLimit;
+  const shortened = current.stops.map((s) => ({ ...s }));
+  const bySlack = [...shortened].sort((a, b) => slackOf(b) - slackOf(a));
+  for (const stop of bySlack) {
+    if (overrun <= 0) break;
+    const cut = Math.min(slackOf(stop), overrun);
+    if (cut <= 0) continue;
+    // Round the cut up to 5 minutes so times stay tidy
+    const roundedCut = Math.min(slackOf(stop), Math.ceil(cut / 5) * 5);
+    stop.durationMins -= roundedCut;
+    overrun -= roundedCut;
+    shortenNotes.set(
+      stop.venue.placeId,
+      `Shortened ${stop.label} at ${stop.venue.name} to ${formatDuration(stop.durationMins)} to fit the ${windowStart}-${windowEnd} window.`
+    );
+  }
+  current = layout(shortened, startMins, travel);
+
+  // 3. Drop: remove the least important stops until the plan fits
+  const dropNotes: string[] = [];
+  let remaining = current.stops;
+  while (current.endMins > endLimit && remaining.length > 1) {
+    const victimIndex = findDropIndex(remaining);
+    const victim = remaining[victimIndex];
+    if (!victim) break;
+    remaining = remaining.filter((_, i) => i !== victimIndex);
+    shortenNotes.delete(victim.venue.placeId);
+    dropNotes.push(
+      `Dropped ${victim.label} at ${victim.venue.name} - the plan would run past ${windowEnd}.`
+    );
+    current = layout(remaining, startMins, travel);
+  }
+  notes.push(...shortenNotes.values(), ...dropNotes);
+
+  const fits = current.endMins <= endLimit;
+  if (!fits) {
+    notes.push(
+      `Even with cuts this plan ends at ${formatTime(current.endMins)}, after ${windowEnd}.`
+    );
+  }
+
+  return { stops: current.stops, notes, fits };
+}
+
+// Minutes a stop can be shortened by
+function slackOf(stop: Stop): number {
+  const min = Math.max(
+    MIN_DURATION_MINS[stop.venue.category] ?? 30,
+    Math.round(stop.durationMins * 0.5)
+  );
+  return Math.max(0, stop.durationMins - min);
+}
+
+// Index of the stop to drop next (lowest priority category, latest first)
+function findDropIndex(stops: Stop[]): number {
+  for (const category of DROP_ORDER) {
+    for (let i = stops.length - 1; i >= 0; i--) {
+      if (stops[i]?.venue.category === category) return i;
+    }
+  }
+  return stops.length - 1;
+}
+
+/**
+ * Reflow every stop in a plan, attaching notes about anything that was cut
+ */
+export function reflowPlan(
+  plan: Plan,
+  windowStart: string,
+  windowEnd: string,
+  travel: TravelLookup
+): Plan {
+  const { stops, notes } = reflowTimeline(plan.stops, windowStart, windowEnd, travel);
+  return { ...plan, stops, notes: [...plan.notes, ...notes] };
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  calibrateTravelEstimator,
+  chooseLegMode,
+  createTravelLookup,
+  estimateTravelMins,
+  getDetourFactor,
+  getLegKey,
+  getTravelCalibration,
+  isLateNight,
+  type TravelContext,
+} from "./travel.js";
+
+// ~1.1km apart (0.01° of latitude), ~1.4km by street with the default detour factor
+const PLAZA = { lat: 41.38, lng: 2.17 };
+const NEARBY = { lat: 41.39, lng: 2.17 };
+// ~3.3km from PLAZA
+const ACROSS_TOWN = { lat: 41.41, lng: 2.17 };
+
+const context: TravelContext = {
+  city: "Springfield",
+  walking: "medium",
+  mobility: "full",
+  cycling: false,
+  badWeather: false,
+};
+
+describe("getDetourFactor", () => {
+  it("uses the city's factor, else the default", () => {
+    expect(getDetourFactor(" Barcelona ")).toBe(1.25);
+    expect(getDetourFactor("Springfield")).toBe(1.3);
+    expect(getDetourFactor()).toBe(1.3);
+  });
+});
+
+describe("estimateTravelMins", () => {
+  it("estimates from street distance and the mode's speed", () => {
+    expect(estimateTravelMins(PLAZA, NEARBY)).toBe(18);
+    expect(estimateTravelMins(PLAZA, NEARBY, "TRANSIT")).toBe(14);
+    expect(estimateTravelMins(PLAZA, NEARBY, "WALK", { calibration: 1.5 })).toBe(27);
+  });
+
+  it("never estimates less than a minute", () => {
+    expect(estimateTravelMins(PLAZA, PLAZA)).toBe(1);
+  });
+});
+
+describe("isLateNight", () => {
+  it("covers 23:00 until 05:00", () => {
+    expect(isLateNight("22:59")).toBe(false);
+    expect(isLateNight("23:00")).toBe(true);
+    expect(isLateNight("04:59")).toBe(true);
+    expect(isLateNight("05:00")).toBe(false);
+  });
+});
+
+describe("chooseLegMode", () => {
+  it("walks short legs and takes transit on longer ones", () => {
+    expect(chooseLegMode(PLAZA, NEARBY, "20:00", context)).toBe("WALK");
+    expect(chooseLegMode(PLAZA, ACROSS_TOWN, "20:00", context)).toBe("TRANSIT");
+  });
+
+  it("only cycles when the user asked to, and not in bad weather", () => {
+    expect(chooseLegMode(PLAZA, ACROSS_TOWN, "20:00", { ...context, cycling: true })).toBe("BICYCLE");
+    expect(
+      chooseLegMode(PLAZA, ACROSS_TOWN, "20:00", { ...context, cycling: true, badWeather: true })
+    ).toBe("TRANSIT");
+  });
+
+  it("halves the walk in bad weather and takes a taxi late at night", () => {
+    expect(chooseLegMode(PLAZA, NEARBY, "20:00", { ...context, badWeather: true })).toBe("TRANSIT");
+    expect(chooseLegMode(PLAZA, ACROSS_TOWN, "23:30", context)).toBe("DRIVE");
+  });
+});
+
+describe("createTravelLookup", () => {
+  const from = { placeId: "a", location: PLAZA };
+  const to = { placeId: "b", location: NEARBY };
+
+  it("uses routed minutes for the chosen mode", () => {
+    const travel = createTravelLookup({ [getLegKey("a", "b", "WALK")]: 12 }, 1, context);
+
+    expect(travel(from, to, "20:00")).toEqual({ mins: 12, mode: "WALK", source: "measured" });
+  });
+
+  it("falls back to the calibrated estimate", () => {
+    const travel = createTravelLookup({ [getLegKey("a", "b", "TRANSIT")]: 12 }, 1.5, context);
+
+    expect(travel(from, to, "20:00")).toEqual({ mins: 27, mode: "WALK", source: "estimated" });
+  });
+});
+
+describe("getTravelCalibration", () => {
+  const locations = new Map([
+    ["a", PLAZA],
+    ["b", NEARBY],
+  ]);
+
+  it("compares routed with estimated minutes", () => {
+    expect(getTravelCalibration({ [getLegKey("a", "b", "WALK")]: 27 }, locations)).toBe(1.5);
+  });
+
+  it("keeps the factor within bounds", () => {
+    expect(getTravelCalibration({ [getLegKey("a", "b", "WALK")]: 180 }, locations)).toBe(3);
+    expect(getTravelCalibration({ [getLegKey("a", "b", "WALK")]: 1 }, locations)).toBe(0.5);
+  });
+
+  it("is 1 without routed legs between known places", () => {
+    expect(getTravelCalibration({}, locations)).toBe(1);
+    expect(getTravelCalibration({ [getLegKey("a", "z", "WALK")]: 10 }, locations)).toBe(1);
+  });
+});
+
+describe("calibrateTravelEstimator", () => {
+  it("fits the city's detour factor and the walking speed to recorded legs", () => {
+    // ~1112m in a straight line, walked as 1668m in 20 minutes
+    const calibrated = calibrateTravelEstimator(
+      [{ from: PLAZA, to: NEARBY, mode: "WALK", distanceMeters: 1668, durationMinutes: 20 }],
+      "Springfield"
+    );
+
+    expect(calibrated.detourFactors["springfield"]).toBe(1.5);
+    expect(calibrated.speeds.WALK.metersPerMin).toBe(83);
+    expect(calibrated.speeds.TRANSIT).toEqual({ metersPerMin: 350, overheadMins: 10 });
+    expect(getDetourFactor("Springfield")).toBe(1.3); // Not applied until configured
+  });
+
+  it("ignores legs too short to say anything", () => {
+    const calibrated = calibrateTravelEstimator(
+      [{ from: PLAZA, to: PLAZA, mode: "WALK", distanceMeters: 50, durationMinutes: 1 }],
+      "Springfield"
+    );
+
+    expect(calibrated.detourFactors["springfield"]).toBeUndefined();
+  });
+});
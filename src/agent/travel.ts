@@ -0,0 +1,290 @@
+import type {
+  Location,
+  Preferences,
+  TravelMode,
+  TravelSource,
+  Venue,
+} from "../types/index.js";
+import { suggestTravelMode, type RecordedRouteLeg } from "../tools/index.js";
+import { calculateDistance } from "./ranking.js";
+
+// Street distance ÷ straight-line distance when the city has no factor of its own
+const DEFAULT_DETOUR_FACTOR = 1.3;
+
+// Street distance ÷ straight-line distance by city (lowercase) - grids route straighter
+// than medieval centres, hills and canals
+const CITY_DETOUR_FACTORS: Record<string, number> = {
+  barcelona: 1.25,
+  madrid: 1.3,
+  paris: 1.3,
+  london: 1.35,
+  rome: 1.4,
+  berlin: 1.25,
+  amsterdam: 1.4,
+  lisbon: 1.45,
+  vienna: 1.3,
+  prague: 1.35,
+  "new york": 1.2,
+  "los angeles": 1.3,
+  tokyo: 1.3,
+  sydney: 1.35,
+  helsinki: 1.3,
+};
+
+// Typical speed along the street and fixed overhead of a mode
+export interface ModeSpeed {
+  metersPerMin: number;
+  overheadMins: number;
+}
+
+// Typical speed along the street and fixed overhead per mode
+const MODE_SPEEDS: Record<TravelMode, ModeSpeed> = {
+  WALK: { metersPerMin: 80, overheadMins: 0 }, // ~4.8 km/h
+  BICYCLE: { metersPerMin: 250, overheadMins: 3 }, // ~15 km/h, unlocking and parking the bike
+  TRANSIT: { metersPerMin: 350, overheadMins: 10 }, // Walking to the stop and waiting
+  DRIVE: { metersPerMin: 400, overheadMins: 6 }, // City traffic, taxi pickup
+};
+
+// Recorded legs shorter than this (straight line, meters) say little about detours or speed
+const MIN_CALIBRATION_LEG_METERS = 200;
+
+export interface TravelEstimatorConfig {
+  defaultDetourFactor: number;
+  detourFactors: Record<string, number>; // By city (lowercase)
+  speeds: Record<TravelMode, ModeSpeed>;
+}
+
+let config: TravelEstimatorConfig = {
+  defaultDetourFactor: DEFAULT_DETOUR_FACTOR,
+  detourFactors: { ...CITY_DETOUR_FACTORS },
+  speeds: { ...MODE_SPEEDS },
+};
+
+/**
+ * Override estimator settings (e.g., with calibrateTravelEstimator's result)
+ */
+export function configureTravelEstimator(overrides: Partial<TravelEstimatorConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+/**
+ * Get the active estimator settings
+ */
+export function getTravelEstimatorConfig(): TravelEstimatorConfig {
+  return config;
+}
+
+// Bounds for the calibration factor (one odd route shouldn't skew every estimate)
+const MIN_CALIBRATION = 0.5;
+const MAX_CALIBRATION = 3;
+
+// Legs departing from LATE_NIGHT_START until LATE_NIGHT_END (local time) are late at night
+const LATE_NIGHT_START = "23:00";
+const LATE_NIGHT_END = "05:00";
+
+// A place a leg starts or ends at
+export type TravelPlace = Pick<Venue, "placeId" | "location">;
+
+// One leg's travel: minutes, mode and whether the minutes were routed or estimated
+export interface TravelLeg {
+  mins: number;
+  mode: TravelMode;
+  source: TravelSource;
+}
+
+// Travel for a leg departing at a local time (HH:MM)
+export type TravelLookup = (from: TravelPlace, to: TravelPlace, departure: string) => TravelLeg;
+
+// What besides distance decides a leg's mode (and the city, for its detour factor)
+export interface TravelContext {
+  city: string;
+  walking: Preferences["walking"];
+  mobility: Preferences["mobility"];
+  cycling: boolean; // The user asked to get around by bike
+  badWeather: boolean;
+}
+
+// Options for an offline estimate
+export interface EstimateOptions {
+  city?: string; // Picks the city's detour factor
+  calibration?: number; // Routed ÷ estimated minutes on routed legs (see getTravelCalibration)
+}
+
+/**
+ * Key of a routed leg in the travel times map ("MODE:placeId1->placeId2")
+ */
+export function getLegKey(fromPlaceId: string, toPlaceId: string, mode: TravelMode): string {
+  return `${mode}:${fromPlaceId}->${toPlaceId}`;
+}
+
+// Split a leg key back into its parts
+function parseLegKey(
+  key: string
+): { mode: TravelMode; fromPlaceId: string; toPlaceId: string } | undefined {
+  const match = key.match(/^(WALK|BICYCLE|TRANSIT|DRIVE):(.+)->(.+)$/);
+  if (!match?.[1] || !match[2] || !match[3]) return undefined;
+  return { mode: match[1] as TravelMode, fromPlaceId: match[2], toPlaceId: match[3] };
+}
+
+/**
+ * Street-distance ÷ straight-line-distance factor for a city
+ */
+export function getDetourFactor(city?: string): number {
+  const normalized = city?.toLowerCase().trim() ?? "";
+  return config.detourFactors[normalized] ?? config.defaultDetourFactor;
+}
+
+/**
+ * Street distance (meters) between two places, from their straight-line (Haversine) distance
+ */
+export function estimateStreetMeters(from: Location, to: Location, city?: string): number {
+  return calculateDistance(from, to) * getDetourFactor(city);
+}
+
+/**
+ * Estimate travel minutes between two places offline - no API call, always available
+ * Street distance from the city's detour factor, at the mode's typical speed
+ */
+export function estimateTravelMins(
+  from: Location,
+  to: Location,
+  mode: TravelMode = "WALK",
+  options: EstimateOptions = {}
+): number {
+  const { metersPerMin, overheadMins } = config.speeds[mode];
+  const mins = overheadMins + estimateStreetMeters(from, to, options.city) / metersPerMin;
+  return Math.max(1, Math.round(mins * (options.calibration ?? 1)));
+}
+
+/**
+ * Fit the estimator to recorded routes (e.g., from a cassette, see getRecordedRouteLegs):
+ * the city's detour factor from walking legs (any mode if none were walked), and the
+ * speed of each recorded mode - modes without recorded legs keep their current speed
+ *
+ * @param city - City the routes were recorded in (omit to set the default detour factor)
+ * @returns Settings for configureTravelEstimator
+ */
+export function calibrateTravelEstimator(
+  legs: RecordedRouteLeg[],
+  city?: string
+): TravelEstimatorConfig {
+  const samples = legs
+    .map((leg) => ({ ...leg, straightMeters: calculateDistance(leg.from, leg.to) }))
+    .filter((leg) => leg.straightMeters >= MIN_CALIBRATION_LEG_METERS && leg.durationMinutes > 0);
+
+  const detourSamples = samples.some((leg) => leg.mode === "WALK")
+    ? samples.filter((leg) => leg.mode === "WALK")
+    : samples;
+  const streetMeters = detourSamples.reduce((sum, leg) => sum + leg.distanceMeters, 0);
+  const straightMeters = detourSamples.reduce((sum, leg) => sum + leg.straightMeters, 0);
+
+  const calibrated: TravelEstimatorConfig = {
+    ...config,
+    detourFactors: { ...config.detourFactors },
+    speeds: { ...config.speeds },
+  };
+  if (straightMeters > 0) {
+    const factor = Math.round((streetMeters / straightMeters) * 100) / 100;
+    if (city) {
+      calibrated.detourFactors[city.toLowerCase().trim()] = factor;
+    } else {
+      calibrated.defaultDetourFactor = factor;
+    }
+  }
+
+  for (const mode of Object.keys(config.speeds) as TravelMode[]) {
+    const { overheadMins } = config.speeds[mode];
+    const modeLegs = samples.filter((leg) => leg.mode === mode);
+    const meters = modeLegs.reduce((sum, leg) => sum + leg.distanceMeters, 0);
+    const mins = modeLegs.reduce(
+      (sum, leg) => sum + Math.max(1, leg.durationMinutes - overheadMins),
+      0
+    );
+    if (mins > 0) {
+      calibrated.speeds[mode] = { overheadMins, metersPerMin: Math.round(meters / mins) };
+    }
+  }
+  return calibrated;
+}
+
+/**
+ * Calibrate the estimate against routed legs (total routed ÷ total estimated minutes)
+ *
+ * @param measured - Routed minutes by leg key
+ * @param locations - Location of each place
+ * @param city - City of the places (for its detour factor)
+ * @returns 1 when no routed leg has known locations
+ */
+export function getTravelCalibration(
+  measured: Record<string, number>,
+  locations: Map<string, Location>,
+  city?: string
+): number {
+  let measuredMins = 0;
+  let estimatedMins = 0;
+  for (const [key, mins] of Object.entries(measured)) {
+    const leg = parseLegKey(key);
+    const from = locations.get(leg?.fromPlaceId ?? "");
+    const to = locations.get(leg?.toPlaceId ?? "");
+    if (!leg || !from || !to) continue;
+    measuredMins += mins;
+    estimatedMins += estimateTravelMins(from, to, leg.mode, city !== undefined ? { city } : {});
+  }
+  if (estimatedMins === 0) return 1;
+
+  const factor = measuredMins / estimatedMins;
+  return Math.min(MAX_CALIBRATION, Math.max(MIN_CALIBRATION, Math.round(factor * 100) / 100));
+}
+
+/**
+ * Check if a local time (HH:MM) is late at night
+ */
+export function isLateNight(time: string): boolean {
+  return time >= LATE_NIGHT_START || time < LATE_NIGHT_END;
+}
+
+/**
+ * Choose a leg's mode from its distance, the departure time and the user's context
+ */
+export function chooseLegMode(
+  from: Location,
+  to: Location,
+  departure: string,
+  context: TravelContext
+): TravelMode {
+  return suggestTravelMode(estimateStreetMeters(from, to, context.city), {
+    walking: context.walking,
+    mobility: context.mobility,
+    cycling: context.cycling,
+    badWeather: context.badWeather,
+    lateNight: isLateNight(departure),
+  });
+}
+
+/**
+ * Travel for any leg: the mode chosen for its distance and departure time,
+ * with routed minutes in that mode where we have them, else the calibrated estimate
+ *
+ * @param measured - Routed minutes by leg key (see getLegKey)
+ */
+export function createTravelLookup(
+  measured: Record<string, number>,
+  calibration: number,
+  context: TravelContext
+): TravelLookup {
+  return (from, to, departure) => {
+    const mode = chooseLegMode(from.location, to.location, departure, context);
+    const routed = measured[getLegKey(from.placeId, to.placeId, mode)];
+    if (routed !== undefined) {
+      return { mins: routed, mode, source: "measured" };
+    }
+    return {
+      mins: estimateTravelMins(from.location, to.location, mode, {
+        city: context.city,
+        calibration,
+      }),
+      mode,
+      source: "estimated",
+    };
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Forecast, Stop, Venue } from "../types/index.js";
+import { describeWeatherNote, isBadWeather, isOutdoorVenue } from "./weather.js";
+
+const MILD: Forecast = { condition: "cloudy", precipitationChance: 20, temperatureC: [14, 19] };
+
+function makeVenue(name: string, extra: Partial<Venue> = {}): Venue {
+  return {
+    name,
+    placeId: name,
+    mapsUrl: "",
+    address: "",
+    location: { lat: 41.38, lng: 2.17 },
+    category: "activity",
+    ...extra,
+  };
+}
+
+const stop = (venue: Venue): Stop => ({
+  time: "18:00",
+  label: venue.name,
+  venue,
+  estimatedCostRange: [0, 20],
+  whyItFits: "",
+  travelFromPrevMins: 0,
+  durationMins: 90,
+  openCheck: "",
+});
+
+describe("isBadWeather", () => {
+  it("keeps a mild evening outdoors", () => {
+    expect(isBadWeather(MILD)).toBe(false);
+  });
+
+  it("moves indoors for rain, snow or storms whatever the chance", () => {
+    expect(isBadWeather({ ...MILD, condition: "rain", precipitationChance: 10 })).toBe(true);
+    expect(isBadWeather({ ...MILD, condition: "storm", precipitationChance: 0 })).toBe(true);
+  });
+
+  it("moves indoors from a 60% chance of rain", () => {
+    expect(isBadWeather({ ...MILD, precipitationChance: 59 })).toBe(false);
+    expect(isBadWeather({ ...MILD, precipitationChance: 60 })).toBe(true);
+  });
+
+  it("moves indoors when too cold or hot", () => {
+    expect(isBadWeather({ ...MILD, temperatureC: [3, 8] })).toBe(true);
+    expect(isBadWeather({ ...MILD, temperatureC: [28, 35] })).toBe(true);
+    expect(isBadWeather({ ...MILD, temperatureC: [4, 34] })).toBe(false);
+  });
+});
+
+describe("isOutdoorVenue", () => {
+  it("goes by whole words in the name", () => {
+    expect(isOutdoorVenue(makeVenue("Parc de la Ciutadella"))).toBe(true);
+    expect(isOutdoorVenue(makeVenue("Parking Catalunya"))).toBe(false);
+    expect(isOutdoorVenue(makeVenue("Bunkers", { category: "scenic" }))).toBe(true);
+  });
+});
+
+describe("describeWeatherNote", () => {
+  const rain: Forecast = { condition: "rain", precipitationChance: 80, temperatureC: [12, 15] };
+
+  it("only summarises good weather", () => {
+    expect(describeWeatherNote(MILD, [])).toBe("Cloudy, 20% chance of rain, 14-19°C");
+  });
+
+  it("names the stops still outdoors in bad weather", () => {
+    const stops = [stop(makeVenue("Museu Picasso")), stop(makeVenue("Platja de la Barceloneta"))];
+
+    expect(describeWeatherNote(rain, stops)).toBe(
+      "Rain, 80% chance of rain, 12-15°C - Platja de la Barceloneta is outdoors, see the rain swap"
+    );
+    expect(describeWeatherNote(rain, stops.slice(0, 1))).toBe(
+      "Rain, 80% chance of rain, 12-15°C - the plan keeps you indoors"
+    );
+  });
+});
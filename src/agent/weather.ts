@@ -0,0 +1,99 @@
+import type { Forecast, Stop, Venue, WeatherCondition } from "../types/index.js";
+
+// Venue name keywords for indoor and outdoor places
+const INDOOR_KEYWORDS = ["museum", "museu", "museo", "gallery", "cinema", "theater", "escape", "bowling", "spa"];
+const OUTDOOR_KEYWORDS = [
+  "park", "parc", "parque", "garden", "jardin", "beach", "platja", "playa", "zoo", "golf",
+  "viewpoint", "mirador", "walk", "rooftop", "terrace", "terraza", "terrassa", "chiringuito",
+];
+
+// Conditions that keep the outing indoors whatever the chance
+const BAD_CONDITIONS: WeatherCondition[] = ["rain", "snow", "storm"];
+
+// Chance of rain (%) from which a forecast counts as bad
+const BAD_PRECIPITATION_CHANCE = 60;
+
+// Temperatures (°C) too cold or too hot to spend long outdoors
+const COLD_C = 3;
+const HOT_C = 35;
+
+// How each condition reads in the weather note
+const CONDITION_LABELS: Record<WeatherCondition, string> = {
+  clear: "Clear",
+  cloudy: "Cloudy",
+  fog: "Foggy",
+  rain: "Rain",
+  snow: "Snow",
+  storm: "Thunderstorms",
+};
+
+// Check if a text has any of the keywords as a whole word (plural allowed), so "park"
+// doesn't match "Parking" nor "spa" "Spanish"
+function hasKeyword(text: string, keywords: string[]): boolean {
+  return keywords.some((k) =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${k}s?(?![\\p{L}\\p{N}])`, "u").test(text)
+  );
+}
+
+function nameHas(venue: Venue, keywords: string[]): boolean {
+  return hasKeyword(venue.name.toLowerCase(), keywords);
+}
+
+/**
+ * Check if a venue is indoors by its name (museums, cinemas, ...)
+ */
+export function isIndoorVenue(venue: Venue): boolean {
+  return nameHas(venue, INDOOR_KEYWORDS);
+}
+
+/**
+ * Check if a venue is outdoors: scenic stops, or by its name (parks, beaches, rooftops, ...)
+ */
+export function isOutdoorVenue(venue: Venue): boolean {
+  return venue.category === "scenic" || nameHas(venue, OUTDOOR_KEYWORDS);
+}
+
+/**
+ * Check if a requested activity happens outdoors (e.g., "golf", "beach")
+ */
+export function isOutdoorRequest(request: string | undefined): boolean {
+  return request !== undefined && hasKeyword(request.toLowerCase(), OUTDOOR_KEYWORDS);
+}
+
+/**
+ * Check if a forecast should keep the outing indoors: rain, snow or storms, a high
+ * chance of rain, or too cold or hot to be outside
+ */
+export function isBadWeather(forecast: Forecast): boolean {
+  const [min, max] = forecast.temperatureC;
+  return (
+    BAD_CONDITIONS.includes(forecast.condition) ||
+    forecast.precipitationChance >= BAD_PRECIPITATION_CHANCE ||
+    min <= COLD_C ||
+    max >= HOT_C
+  );
+}
+
+/**
+ * Forecast in a few words, e.g. "Rain, 80% chance of rain, 12-15°C"
+ */
+export function describeForecast(forecast: Forecast): string {
+  const [min, max] = forecast.temperatureC;
+  const temperature = min === max ? `${min}°C` : `${min}-${max}°C`;
+  return `${CONDITION_LABELS[forecast.condition]}, ${forecast.precipitationChance}% chance of rain, ${temperature}`;
+}
+
+/**
+ * Weather note for the reply: the forecast, and with bad weather how the plan's stops
+ * deal with it (any still outdoors are named)
+ */
+export function describeWeatherNote(forecast: Forecast, stops: Stop[]): string {
+  const summary = describeForecast(forecast);
+  if (!isBadWeather(forecast)) return summary;
+
+  const outdoorStops = stops.filter((s) => isOutdoorVenue(s.venue)).map((s) => s.venue.name);
+  if (outdoorStops.length === 0) {
+    return `${summary} - the plan keeps you indoors`;
+  }
+  return `${summary} - ${outdoorStops.join(", ")} ${outdoorStops.length === 1 ? "is" : "are"} outdoors, see the rain swap`;
+}
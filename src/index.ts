@@ -1,5 +1,15 @@
 import { graph, type GraphStateType } from "./agent/index.js";
 import { createInitialState, AgentInputSchema } from "./types/index.js";
+import {
+  CALL_COSTS_USD,
+  MAX_REQUEST_COST_EUR,
+  USD_TO_EUR,
+  formatBudgetUsage,
+  getCallBudgetTier,
+  getCallCost,
+  getWorstCaseCost,
+  type CallType,
+} from "./tools/index.js";
 
 async function main() {
   // Example input matching PRD spec
@@ -46,47 +56,8 @@ async function main() {
   }
 
 
-  // Build the user-facing output (matching PRD API contract)
-  const output = {
-    summary: {
-      city: result.city,
-      date: result.dateResolved,
-      time_window: result.timeWindow,
-      budget_target: result.budget,
-      estimated_total_range: result.plans?.[0]?.stops?.reduce<[number, number]>(
-        (acc, stop) => [
-          acc[0] + (stop.estimatedCostRange?.[0] ?? 0),
-          acc[1] + (stop.estimatedCostRange?.[1] ?? 0),
-        ],
-        [0, 0]
-      ),
-    },
-    plans: result.plans?.map((plan) => ({
-      id: plan.id,
-      title: plan.title,
-      stops: plan.stops?.map((stop) => ({
-        time: stop.time,
-        label: stop.label,
-        name: stop.venue?.name,
-        type: stop.venue?.category,
-        maps_url: stop.venue?.mapsUrl,
-        estimated_cost_range: stop.estimatedCostRange,
-        why_it_fits: stop.whyItFits,
-        travel_from_prev_mins: stop.travelFromPrevMins,
-        rating: stop.venue?.rating,
-        review_count: stop.venue?.reviewCount,
-        open_check: stop.openCheck,
-      })),
-      backups: plan.backups?.map((b) => ({
-        label: b.label,
-        name: b.name,
-        maps_url: b.mapsUrl,
-        why_backup: b.whyBackup,
-      })),
-    })),
-    swap_menu: result.swapMenu,
-    call_budget_used: result.callBudget,
-  };
+  // Structured output built by the graph (matching PRD API contract)
+  const output = result.output;
 
   console.log("=".repeat(60));
   console.log("USER OUTPUT (what the Warden App would display)");
@@ -94,30 +65,41 @@ async function main() {
   console.log(JSON.stringify(output, null, 2));
 
   // Calculate and display API costs
-  const COSTS = {
-    placesSearch: 0.032,    // $0.032 per Text Search call
-    placeDetails: 0.025,    // $0.025 per Place Details call (with hours)
-    routes: 0.01,           // $0.01 per Routes call
-  };
-
-  const callCounts = result.callBudget ?? { placesSearch: 0, placeDetails: 0, routes: 0 };
-  const costs = {
-    placesSearch: (callCounts.placesSearch ?? 0) * COSTS.placesSearch,
-    placeDetails: (callCounts.placeDetails ?? 0) * COSTS.placeDetails,
-    routes: (callCounts.routes ?? 0) * COSTS.routes,
-  };
-  const totalCost = costs.placesSearch + costs.placeDetails + costs.routes;
+  const callCounts = result.callBudget ?? { placesSearch: 0, geocode: 0, placeDetails: 0, placeHours: 0, routes: 0, forecast: 0 };
+  const cost = (callType: CallType) => callCounts[callType] * CALL_COSTS_USD[callType];
+  const line = (callType: CallType) =>
+    `${callCounts[callType]} calls × $${CALL_COSTS_USD[callType].toFixed(3)} = $${cost(callType).toFixed(3)}`;
+  const totalCost = getCallCost(callCounts);
+  const tier = getCallBudgetTier(result.paid);
 
   console.log("\n" + "=".repeat(60));
   console.log("API COST BREAKDOWN");
   console.log("=".repeat(60));
-  console.log(`Places Search:  ${callCounts.placesSearch ?? 0} calls × $0.032 = $${costs.placesSearch.toFixed(3)}`);
-  console.log(`Place Details:  ${callCounts.placeDetails ?? 0} calls × $0.025 = $${costs.placeDetails.toFixed(3)}`);
-  console.log(`Routes:         ${callCounts.routes ?? 0} calls × $0.010 = $${costs.routes.toFixed(3)}`);
+  console.log(`Places Search:  ${line("placesSearch")}`);
+  console.log(`Geocode:        ${line("geocode")}`);
+  console.log(`Place Details:  ${line("placeDetails")}`);
+  console.log(`Hours checks:   ${line("placeHours")}`);
+  console.log(`Routes:         ${line("routes")}`);
+  console.log(`Forecast:       ${callCounts.forecast} calls (free)`);
+  console.log(`Call budget (${tier} tier): ${formatBudgetUsage(callCounts, tier)}`);
+  const cacheStats = result.cacheStats;
+  if (cacheStats) {
+    console.log(
+      `Cache hits/misses: search ${cacheStats.placesSearch.hits}/${cacheStats.placesSearch.misses}, ` +
+      `geocode ${cacheStats.geocode.hits}/${cacheStats.geocode.misses}, ` +
+      `details ${cacheStats.placeDetails.hits}/${cacheStats.placeDetails.misses}, ` +
+      `hours ${cacheStats.placeHours.hits}/${cacheStats.placeHours.misses}, ` +
+      `routes ${cacheStats.routes.hits}/${cacheStats.routes.misses}, ` +
+      `forecast ${cacheStats.forecast.hits}/${cacheStats.forecast.misses}`
+    );
+  }
   console.log("-".repeat(40));
-  console.log(`TOTAL GOOGLE API COST: $${totalCost.toFixed(3)} (€${(totalCost * 0.92).toFixed(3)})`);
-  console.log(`Target per PRD: < €0.20`);
-  console.log(totalCost * 0.92 < 0.20 ? "✓ Within budget" : "⚠ Over budget!");
+  console.log(`TOTAL GOOGLE API COST: $${totalCost.toFixed(3)} (€${(totalCost * USD_TO_EUR).toFixed(3)})`);
+  console.log(
+    `Target per PRD: < €${MAX_REQUEST_COST_EUR.toFixed(2)} ` +
+    `(${tier} tier worst case: €${(getWorstCaseCost(tier) * USD_TO_EUR).toFixed(3)})`
+  );
+  console.log(totalCost * USD_TO_EUR < MAX_REQUEST_COST_EUR ? "✓ Within budget" : "⚠ Over budget!");
 }
 
 main().catch(console.error);
@@ -0,0 +1,21 @@
+import {
+  googlePlacesSearch,
+  googlePlaceDetails,
+  getCityCenter,
+  geocodeCity,
+} from "../tools/index.js";
+import type { VenueProvider } from "./venueProvider.js";
+
+/**
+ * Venue provider backed by Google Places API (New)
+ * Requires GOOGLE_PLACES_API_KEY
+ */
+export function createGoogleVenueProvider(): VenueProvider {
+  return {
+    name: "google",
+    search: googlePlacesSearch,
+    details: googlePlaceDetails,
+    getCachedCityCenter: getCityCenter,
+    geocode: geocodeCity,
+  };
+}
@@ -0,0 +1,53 @@
+import { createGoogleVenueProvider } from "./googleVenueProvider.js";
+import { createLocalVenueProvider } from "./localVenueProvider.js";
+export { createOpenMeteoWeatherProvider } from "./openMeteoWeatherProvider.js";
+export {
+  createLocalWeatherProvider,
+  type LocalForecastRecord,
+  type LocalWeatherSource,
+} from "./localWeatherProvider.js";
+import { createOpenMeteoWeatherProvider } from "./openMeteoWeatherProvider.js";
+import { createLocalWeatherProvider } from "./localWeatherProvider.js";
+import type { VenueProvider } from "./venueProvider.js";
+import type { WeatherProvider } from "./weatherProvider.js";
+
+export type { VenueProvider } from "./venueProvider.js";
+export type { WeatherProvider } from "./weatherProvider.js";
+export { createGoogleVenueProvider } from "./googleVenueProvider.js";
+export {
+  createLocalVenueProvider,
+  parseOsmOpeningHours,
+  type LocalVenueSource,
+} from "./localVenueProvider.js";
+
+/**
+ * Pick the venue provider from the environment
+ * VENUE_PROVIDER=local with VENUE_DATA_PATH=<file> runs offline; Google otherwise
+ */
+export function createVenueProviderFromEnv(): VenueProvider {
+  if (process.env.VENUE_PROVIDER === "local") {
+    const path = process.env.VENUE_DATA_PATH;
+    if (!path) {
+      throw new Error("VENUE_PROVIDER=local requires VENUE_DATA_PATH");
+    }
+    return createLocalVenueProvider({ path });
+  }
+  return createGoogleVenueProvider();
+}
+
+/**
+ * Pick the weather provider from the environment
+ * Fixed forecasts by default (from WEATHER_DATA_PATH=<file>, none without it - the plan
+ * is built as if the weather were fine); WEATHER_PROVIDER=open-meteo calls the
+ * Open-Meteo API, WEATHER_PROVIDER=off skips the forecast
+ */
+export function createWeatherProviderFromEnv(): WeatherProvider | undefined {
+  if (process.env.WEATHER_PROVIDER === "off") {
+    return undefined;
+  }
+  if (process.env.WEATHER_PROVIDER === "open-meteo") {
+    return createOpenMeteoWeatherProvider();
+  }
+  const path = process.env.WEATHER_DATA_PATH;
+  return createLocalWeatherProvider(path ? { path } : { data: [] });
+}
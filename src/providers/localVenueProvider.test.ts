@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createLocalVenueProvider, parseOsmOpeningHours } from "./localVenueProvider.js";
+
+// Days (0 = Sunday)
+const MONDAY = 1;
+const FRIDAY = 5;
+const SATURDAY = 6;
+const SUNDAY = 0;
+
+describe("parseOsmOpeningHours", () => {
+  it("expands day ranges and lists", () => {
+    expect(parseOsmOpeningHours("Mo-We 09:00-17:00; Sa,Su 10:00-14:00")).toEqual(
+      [MONDAY, 2, 3, SATURDAY, SUNDAY].map((day) => ({
+        openDay: day,
+        openTime: day === SATURDAY || day === SUNDAY ? "10:00" : "09:00",
+        closeDay: day,
+        closeTime: day === SATURDAY || day === SUNDAY ? "14:00" : "17:00",
+      }))
+    );
+  });
+
+  it("closes overnight ranges the next day, wrapping Saturday into Sunday", () => {
+    expect(parseOsmOpeningHours("Fr-Sa 20:00-02:00")).toEqual([
+      { openDay: FRIDAY, openTime: "20:00", closeDay: SATURDAY, closeTime: "02:00" },
+      { openDay: SATURDAY, openTime: "20:00", closeDay: SUNDAY, closeTime: "02:00" },
+    ]);
+  });
+
+  it("reads 24:00 as midnight the next day", () => {
+    expect(parseOsmOpeningHours("Su 18:00-24:00")).toEqual([
+      { openDay: SUNDAY, openTime: "18:00", closeDay: MONDAY, closeTime: "00:00" },
+    ]);
+  });
+
+  it("keeps split shifts and skips days off", () => {
+    expect(parseOsmOpeningHours("Mo 12:00-15:00,19:00-23:00; Tu off")).toEqual([
+      { openDay: MONDAY, openTime: "12:00", closeDay: MONDAY, closeTime: "15:00" },
+      { openDay: MONDAY, openTime: "19:00", closeDay: MONDAY, closeTime: "23:00" },
+    ]);
+  });
+
+  it("reads 24/7 as always open", () => {
+    expect(parseOsmOpeningHours(" 24/7 ")).toEqual([{ openDay: SUNDAY, openTime: "00:00" }]);
+  });
+
+  it("gives up on syntax it doesn't understand", () => {
+    expect(parseOsmOpeningHours("Mo-Fr 09:00-17:00; PH off")).toBeUndefined();
+    expect(parseOsmOpeningHours("sunrise-sunset")).toBeUndefined();
+    expect(parseOsmOpeningHours("Mo 9-17")).toBeUndefined();
+    expect(parseOsmOpeningHours("Mo off")).toBeUndefined();
+  });
+});
+
+const PLAZA = { lat: 41.38, lng: 2.17 };
+
+const provider = () =>
+  createLocalVenueProvider({
+    data: {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [2.171, 41.381] },
+          properties: {
+            "@id": "node/1",
+            name: "Bodega Sepúlveda",
+            amenity: "restaurant",
+            cuisine: "tapas",
+            opening_hours: "Mo-Sa 19:00-24:00",
+            "diet:vegetarian": "yes",
+            wheelchair: "no",
+            "addr:street": "Carrer de Sepúlveda",
+            "addr:housenumber": "173",
+            "addr:city": "Barcelona",
+          },
+        },
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [2.172, 41.382] },
+          properties: { "@id": "node/2", name: "Bar Tapas Rated", amenity: "bar", rating: "3.2" },
+        },
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [2.5, 41.6] }, // ~35km out
+          properties: { "@id": "node/3", name: "Far Tapas", amenity: "restaurant" },
+        },
+        { type: "Feature", geometry: { type: "Point", coordinates: [2.17, 41.38] }, properties: {} },
+      ],
+    },
+  });
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("createLocalVenueProvider", () => {
+  it("searches by keyword within the radius and rating", async () => {
+    const local = provider();
+
+    // Equal matches go to the better rated
+    const found = await local.search({ query: "best tapas in town", location: PLAZA });
+    expect(found.venues.map((v) => v.placeId)).toEqual(["node/2", "node/1"]);
+    expect(found.venues[1]).toMatchObject({
+      name: "Bodega Sepúlveda",
+      category: "dinner",
+      address: "Carrer de Sepúlveda 173, Barcelona",
+    });
+
+    const rated = await local.search({ query: "tapas", location: PLAZA, minRating: 4 });
+    expect(rated.venues.map((v) => v.placeId)).toEqual(["node/1"]); // Unrated venues pass
+
+    expect(await local.search({ query: "sushi", location: PLAZA })).toEqual({
+      venues: [],
+      error: "No places found for the given query",
+    });
+  });
+
+  it("returns hours and attributes only when asked", async () => {
+    const local = provider();
+
+    const basic = await local.details({ placeId: "node/1" });
+    expect(basic.details?.openingHours).toBeUndefined();
+    expect(basic.details?.servesVegetarianFood).toBeUndefined();
+
+    const { details } = await local.details({
+      placeId: "node/1",
+      includeHours: true,
+      includeDietary: true,
+      includeAttributes: true,
+    });
+    expect(details?.openingHours?.periods).toContainEqual({
+      openDay: SATURDAY,
+      openTime: "19:00",
+      closeDay: SUNDAY,
+      closeTime: "00:00",
+    });
+    expect(details?.openingHours?.weekdayDescriptions[6]).toBe("Sunday: Closed");
+    expect(details?.servesVegetarianFood).toBe(true);
+    expect(details?.accessibility?.wheelchairAccessibleEntrance).toBe(false);
+  });
+
+  it("errors once the budget is spent (no cache) and for unknown places", async () => {
+    const local = provider();
+
+    expect(await local.search({ query: "tapas", location: PLAZA }, { cacheOnly: true })).toEqual({
+      venues: [],
+      error: "Call budget is spent",
+    });
+    expect(await local.details({ placeId: "node/1" }, { cacheOnly: true })).toEqual({
+      error: "Call budget is spent",
+    });
+    expect(await local.details({ placeId: "node/9" })).toEqual({
+      error: "Place not found in local dataset: node/9",
+    });
+  });
+});
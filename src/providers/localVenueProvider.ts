@@ -0,0 +1,430 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import {
+  BusinessStatusSchema,
+  VenueAttributesSchema,
+  type Location,
+  type OpeningPeriod,
+  type Venue,
+  type VenueAttributes,
+} from "../types/index.js";
+import {
+  getCityCenter,
+  PlacesSearchInputSchema,
+  PlaceDetailsInputSchema,
+  type PlacesSearchInput,
+  type PlacesSearchResult,
+  type PlaceDetailsInput,
+  type PlaceDetails,
+  type PlaceDetailsResult,
+  type GeocodeResult,
+  type CallOptions,
+} from "../tools/index.js";
+import { calculateDistance } from "../agent/ranking.js";
+import type { VenueProvider } from "./venueProvider.js";
+
+// Plain venue record (our own fixture format)
+const LocalVenueRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  lat: z.number(),
+  lng: z.number(),
+  category: z.string().optional(), // activity, dinner, drinks, dessert, scenic
+  address: z.string().optional(),
+  city: z.string().optional(),
+  rating: z.number().min(0).max(5).optional(),
+  reviewCount: z.number().optional(),
+  priceLevel: z.number().min(0).max(4).optional(),
+  website: z.string().optional(),
+  openingHours: z.string().optional(), // OSM opening_hours syntax
+  servesVegetarianFood: z.boolean().optional(),
+  tags: z.array(z.string()).default([]),
+}).merge(VenueAttributesSchema);
+type LocalVenueRecord = z.infer<typeof LocalVenueRecordSchema>;
+
+// GeoJSON point feature (e.g., an OpenStreetMap extract via osmtogeojson)
+const GeoJsonFeatureSchema = z.object({
+  type: z.literal("Feature"),
+  id: z.union([z.string(), z.number()]).optional(),
+  geometry: z.object({
+    type: z.literal("Point"),
+    coordinates: z.tuple([z.number(), z.number()]), // [lng, lat]
+  }),
+  properties: z.record(z.unknown()).default({}),
+});
+type GeoJsonFeature = z.infer<typeof GeoJsonFeatureSchema>;
+
+const LocalDatasetSchema = z.union([
+  z.array(LocalVenueRecordSchema),
+  z.object({
+    type: z.literal("FeatureCollection"),
+    features: z.array(z.unknown()),
+  }),
+]);
+
+// Indexed venue with everything details/search need
+interface LocalVenue {
+  venue: Venue;
+  city?: string;
+  website?: string;
+  keywords: string; // lowercased text matched by search queries
+  periods?: OpeningPeriod[];
+  weekdayDescriptions: string[];
+  servesVegetarianFood?: boolean; // Like Google, only returned by details
+  attributes: VenueAttributes; // Like Google, only returned by details
+}
+
+// OSM tag values mapped to our venue categories
+const OSM_CATEGORIES: Record<string, string> = {
+  restaurant: "dinner",
+  fast_food: "dinner",
+  food_court: "dinner",
+  bar: "drinks",
+  pub: "drinks",
+  biergarten: "drinks",
+  nightclub: "drinks",
+  cafe: "dessert",
+  ice_cream: "dessert",
+  park: "scenic",
+  garden: "scenic",
+  nature_reserve: "scenic",
+  viewpoint: "scenic",
+};
+
+// OSM diet:* values that mean the dishes are served
+const OSM_DIET_YES = ["yes", "only", "limited"];
+
+// OSM reservation values that mean a table can be booked
+const OSM_RESERVATION_YES = ["yes", "required", "recommended"];
+
+// Words in generated queries that never describe a venue
+const STOPWORDS = new Set([
+  "best", "in", "the", "a", "and", "of", "to", "for", "with", "things", "do",
+  "top", "rated", "popular", "local", "favorite", "must", "visit", "unique",
+  "hidden", "gem", "interesting", "fun", "highly", "authentic", "cozy",
+  "trendy", "atmospheric", "relaxed", "traditional", "modern",
+]);
+
+const OSM_DAYS: Record<string, number> = { Su: 0, Mo: 1, Tu: 2, We: 3, Th: 4, Fr: 5, Sa: 6 };
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Expand an OSM day spec ("Mo-Fr", "Sa,Su", "Th") to day indexes
+function parseOsmDays(spec: string): number[] {
+  const days: number[] = [];
+  for (const part of spec.split(",")) {
+    const [from, to] = part.split("-");
+    const start = from ? OSM_DAYS[from] : undefined;
+    if (start === undefined) return [];
+    const end = to ? OSM_DAYS[to] : start;
+    if (end === undefined) return [];
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.push(d);
+      if (d === end) break;
+    }
+  }
+  return days;
+}
+
+/**
+ * Parse a subset of the OSM opening_hours syntax into opening periods
+ * Supports "24/7" and rules like "Mo-Fr 09:00-17:00; Sa 10:00-14:00,18:00-02:00"
+ * Returns undefined for anything it doesn't understand (hours stay unknown)
+ */
+export function parseOsmOpeningHours(value: string): OpeningPeriod[] | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "24/7") {
+    return [{ openDay: 0, openTime: "00:00" }];
+  }
+
+  const periods: OpeningPeriod[] = [];
+  for (const rule of trimmed.split(";").map((r) => r.trim()).filter(Boolean)) {
+    const match = rule.match(/^([A-Za-z,-]+)\s+(.+)$/);
+    if (!match?.[1] || !match[2]) return undefined;
+    const days = parseOsmDays(match[1]);
+    if (days.length === 0) return undefined;
+    if (match[2] === "off") continue;
+
+    for (const range of match[2].split(",")) {
+      const times = range.trim().match(/^(\d{2}:\d{2})-(\d{2}:\d{2})$/);
+      if (!times?.[1] || !times[2]) return undefined;
+      const [openTime, closeTime] = [times[1], times[2]];
+      for (const day of days) {
+        // Ranges ending at or before their start (or at 24:00) close the next day
+        const overnight = closeTime <= openTime || closeTime === "24:00";
+        periods.push({
+          openDay: day,
+          openTime,
+          closeDay: overnight ? (day + 1) % 7 : day,
+          closeTime: closeTime === "24:00" ? "00:00" : closeTime,
+        });
+      }
+    }
+  }
+
+  return periods.length > 0 ? periods : undefined;
+}
+
+// Human-readable hours per weekday, in Google's Monday-first order
+function describePeriods(periods: OpeningPeriod[]): string[] {
+  return [1, 2, 3, 4, 5, 6, 0].map((day) => {
+    const ranges = periods
+      .filter((p) => p.openDay === day)
+      .map((p) => (p.closeTime ? `${p.openTime}–${p.closeTime}` : "Open 24 hours"));
+    return `${DAY_NAMES[day]}: ${ranges.length > 0 ? ranges.join(", ") : "Closed"}`;
+  });
+}
+
+// Maps link that works without a Google place ID
+function buildMapsUrl(location: Location): string {
+  return `https://www.google.com/maps/search/?api=1&query=${location.lat},${location.lng}`;
+}
+
+// Build an indexed venue from a plain record
+function fromRecord(record: LocalVenueRecord): LocalVenue {
+  const location = { lat: record.lat, lng: record.lng };
+  const category = record.category ?? "activity";
+  const periods = record.openingHours
+    ? parseOsmOpeningHours(record.openingHours)
+    : undefined;
+
+  const venue: Venue = {
+    name: record.name,
+    placeId: record.id,
+    mapsUrl: buildMapsUrl(location),
+    address: record.address ?? "",
+    location,
+    category,
+  };
+  if (record.rating !== undefined) venue.rating = record.rating;
+  if (record.reviewCount !== undefined) venue.reviewCount = record.reviewCount;
+  if (record.priceLevel !== undefined) venue.priceLevel = record.priceLevel;
+
+  const local: LocalVenue = {
+    venue,
+    keywords: [record.name, category, ...record.tags].join(" ").toLowerCase(),
+    weekdayDescriptions: periods ? describePeriods(periods) : [],
+    attributes: VenueAttributesSchema.parse(record),
+  };
+  if (record.city) local.city = record.city;
+  if (record.website) local.website = record.website;
+  if (periods) local.periods = periods;
+  if (record.servesVegetarianFood !== undefined) local.servesVegetarianFood = record.servesVegetarianFood;
+  return local;
+}
+
+// Vegetarian options from OSM diet:* tags (vegan places serve vegetarian food too)
+function parseOsmVegetarian(vegetarian?: string, vegan?: string): boolean | undefined {
+  if ([vegetarian, vegan].some((d) => OSM_DIET_YES.includes(d ?? ""))) return true;
+  if (vegetarian === "no") return false;
+  return undefined;
+}
+
+// Build a plain record from a GeoJSON feature (OSM tags or our own field names)
+function fromFeature(feature: GeoJsonFeature, index: number): LocalVenue | undefined {
+  const props = feature.properties;
+  const str = (key: string): string | undefined =>
+    typeof props[key] === "string" ? (props[key] as string) : undefined;
+  const num = (key: string): number | undefined => {
+    const value = props[key];
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && value !== "" && !isNaN(Number(value))) return Number(value);
+    return undefined;
+  };
+
+  const name = str("name");
+  if (!name) return undefined;
+
+  // OSM type tags double as search keywords and drive the category
+  const typeTags = ["amenity", "tourism", "leisure", "shop", "cuisine", "sport"]
+    .map(str)
+    .filter((t): t is string => Boolean(t))
+    .flatMap((t) => t.split(";"))
+    .map((t) => t.replace(/_/g, " "));
+  const osmCategory = ["amenity", "leisure", "tourism"]
+    .map((k) => OSM_CATEGORIES[str(k) ?? ""])
+    .find(Boolean);
+
+  const street = [str("addr:street"), str("addr:housenumber")].filter(Boolean).join(" ");
+  const address = str("address") ?? [street, str("addr:city")].filter(Boolean).join(", ");
+  const servesVegetarianFood =
+    typeof props["servesVegetarianFood"] === "boolean"
+      ? props["servesVegetarianFood"]
+      : parseOsmVegetarian(str("diet:vegetarian"), str("diet:vegan"));
+
+  // Yes/no attribute from our own field, else an OSM tag ("no" is no, other values unknown)
+  const flag = (key: string, osmKey?: string, yes: string[] = ["yes"]): boolean | undefined => {
+    if (typeof props[key] === "boolean") return props[key] as boolean;
+    const value = osmKey ? str(osmKey) : undefined;
+    if (value === undefined) return undefined;
+    return yes.includes(value) ? true : value === "no" ? false : undefined;
+  };
+  const accessibility = {
+    wheelchairAccessibleEntrance: flag("wheelchairAccessibleEntrance", "wheelchair"),
+    wheelchairAccessibleRestroom: flag("wheelchairAccessibleRestroom", "toilets:wheelchair"),
+    wheelchairAccessibleSeating: flag("wheelchairAccessibleSeating"),
+    wheelchairAccessibleParking: flag("wheelchairAccessibleParking"),
+  };
+  const attributes = {
+    reservable: flag("reservable", "reservation", OSM_RESERVATION_YES),
+    outdoorSeating: flag("outdoorSeating", "outdoor_seating"),
+    goodForChildren: flag("goodForChildren"),
+    goodForGroups: flag("goodForGroups"),
+    servesBeer: flag("servesBeer", "drink:beer"),
+    servesWine: flag("servesWine", "drink:wine"),
+    servesCocktails: flag("servesCocktails", "drink:cocktail"),
+    editorialSummary: str("editorialSummary") ?? str("description"),
+    accessibility: Object.values(accessibility).some((v) => v !== undefined) ? accessibility : undefined,
+    businessStatus: BusinessStatusSchema.safeParse(str("businessStatus")).data,
+  };
+  const id = str("@id") ?? str("id") ?? (feature.id !== undefined ? String(feature.id) : `local-${index}`);
+
+  const record = LocalVenueRecordSchema.safeParse({
+    id,
+    name,
+    lat: feature.geometry.coordinates[1],
+    lng: feature.geometry.coordinates[0],
+    category: str("category") ?? osmCategory,
+    address,
+    city: str("city") ?? str("addr:city"),
+    rating: num("rating"),
+    reviewCount: num("reviewCount"),
+    priceLevel: num("priceLevel"),
+    website: str("website"),
+    openingHours: str("opening_hours") ?? str("openingHours"),
+    servesVegetarianFood,
+    tags: typeTags,
+    ...attributes,
+  });
+  return record.success ? fromRecord(record.data) : undefined;
+}
+
+// Load and index a dataset (plain records or a GeoJSON FeatureCollection)
+function indexDataset(data: unknown): LocalVenue[] {
+  const parsed = LocalDatasetSchema.parse(data);
+  if (Array.isArray(parsed)) {
+    return parsed.map(fromRecord);
+  }
+
+  return parsed.features
+    .map((f) => GeoJsonFeatureSchema.safeParse(f))
+    .map((f, i) => (f.success ? fromFeature(f.data, i) : undefined))
+    .filter((v): v is LocalVenue => v !== undefined);
+}
+
+export type LocalVenueSource = { path: string } | { data: unknown };
+
+/**
+ * Venue provider backed by a local JSON/GeoJSON dataset (e.g., an OpenStreetMap extract)
+ * Lets the agent run offline without Google keys
+ *
+ * Unrated venues (typical for OSM) pass the minRating filter, since the data
+ * simply doesn't carry ratings.
+ */
+export function createLocalVenueProvider(source: LocalVenueSource): VenueProvider {
+  const data = "path" in source
+    ? JSON.parse(readFileSync(source.path, "utf-8")) as unknown
+    : source.data;
+  const venues = indexDataset(data);
+  const byId = new Map(venues.map((v) => [v.venue.placeId, v]));
+
+  console.log(`[localVenueProvider] Loaded ${venues.length} venues`);
+
+  // Center of the dataset's venues in a city (free, no network)
+  const cityCentroid = (city: string): Location | undefined => {
+    const normalized = city.toLowerCase().trim();
+    const inCity = venues.filter((v) => v.city?.toLowerCase().trim() === normalized);
+    if (inCity.length === 0) return undefined;
+    return {
+      lat: inCity.reduce((sum, v) => sum + v.venue.location.lat, 0) / inCity.length,
+      lng: inCity.reduce((sum, v) => sum + v.venue.location.lng, 0) / inCity.length,
+    };
+  };
+
+  const getCachedCityCenter = (city: string): Location | undefined =>
+    getCityCenter(city) ?? cityCentroid(city);
+
+  return {
+    name: "local",
+
+    // The local dataset has no cache, so budget-spent (cache-only) calls always miss
+    async search(input: PlacesSearchInput, options: CallOptions = {}): Promise<PlacesSearchResult> {
+      if (options.cacheOnly) {
+        return { venues: [], error: "Call budget is spent" };
+      }
+      const parsed = PlacesSearchInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return { venues: [], error: `Invalid input: ${parsed.error.message}` };
+      }
+
+      const { query, location, minRating } = parsed.data;
+      const radiusMeters = parsed.data.radiusMeters ?? 5000;
+      const maxResults = parsed.data.maxResults ?? 10;
+      const terms = query
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+
+      const matches = venues
+        .filter((v) => calculateDistance(v.venue.location, location) <= radiusMeters)
+        .filter((v) => minRating === undefined || v.venue.rating === undefined || v.venue.rating >= minRating)
+        .map((v) => ({ v, score: terms.filter((t) => v.keywords.includes(t)).length }))
+        .filter((m) => m.score > 0)
+        .sort((a, b) => b.score - a.score || (b.v.venue.rating ?? 0) - (a.v.venue.rating ?? 0))
+        .slice(0, maxResults)
+        .map((m) => m.v.venue);
+
+      if (matches.length === 0) {
+        return { venues: [], error: "No places found for the given query" };
+      }
+      return { venues: matches };
+    },
+
+    async details(input: PlaceDetailsInput, options: CallOptions = {}): Promise<PlaceDetailsResult> {
+      if (options.cacheOnly) {
+        return { error: "Call budget is spent" };
+      }
+      const parsed = PlaceDetailsInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return { error: `Invalid input: ${parsed.error.message}` };
+      }
+
+      const local = byId.get(parsed.data.placeId);
+      if (!local) {
+        return { error: `Place not found in local dataset: ${parsed.data.placeId}` };
+      }
+
+      const { venue } = local;
+      const details: PlaceDetails = {
+        placeId: venue.placeId,
+        name: venue.name,
+        address: venue.address,
+        location: venue.location,
+      };
+      if (venue.rating !== undefined) details.rating = venue.rating;
+      if (venue.reviewCount !== undefined) details.reviewCount = venue.reviewCount;
+      if (venue.priceLevel !== undefined) details.priceLevel = venue.priceLevel;
+      if (local.website) details.website = local.website;
+      if (parsed.data.includeHours && local.periods) {
+        details.openingHours = {
+          periods: local.periods,
+          weekdayDescriptions: local.weekdayDescriptions,
+        };
+      }
+      if (parsed.data.includeDietary && local.servesVegetarianFood !== undefined) {
+        details.servesVegetarianFood = local.servesVegetarianFood;
+      }
+      if (parsed.data.includeAttributes) {
+        Object.assign(details, local.attributes);
+      }
+      return { details };
+    },
+
+    getCachedCityCenter,
+
+    async geocode(city: string, options: CallOptions = {}): Promise<GeocodeResult> {
+      if (options.cacheOnly) return {};
+      const location = getCachedCityCenter(city);
+      return location ? { location } : {};
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { ForecastSchema } from "../types/index.js";
+import { ForecastInputSchema, type ForecastInput, type ForecastResult } from "../tools/index.js";
+import type { WeatherProvider } from "./weatherProvider.js";
+
+// Fixed forecast, optionally limited to a city and/or a local date (our own fixture format)
+const LocalForecastRecordSchema = ForecastSchema.extend({
+  city: z.string().optional(),
+  date: z.string().optional(), // YYYY-MM-DD
+});
+export type LocalForecastRecord = z.infer<typeof LocalForecastRecordSchema>;
+
+export type LocalWeatherSource = { path: string } | { data: unknown };
+
+/**
+ * Weather provider backed by fixed forecasts (a JSON array of records)
+ * Lets tests and offline runs pick the weather - the first record matching the
+ * city and date wins; records without a city or date match any
+ */
+export function createLocalWeatherProvider(source: LocalWeatherSource): WeatherProvider {
+  const data = "path" in source
+    ? JSON.parse(readFileSync(source.path, "utf-8")) as unknown
+    : source.data;
+  const records = z.array(LocalForecastRecordSchema).parse(data);
+
+  console.log(`[localWeatherProvider] Loaded ${records.length} forecasts`);
+
+  return {
+    name: "local",
+    forecast: async (input: ForecastInput): Promise<ForecastResult> => {
+      const parsed = ForecastInputSchema.safeParse(input);
+      if (!parsed.success) {
+        return { error: `Invalid input: ${parsed.error.message}` };
+      }
+
+      const city = parsed.data.city.toLowerCase().trim();
+      const record = records.find(
+        (r) =>
+          (r.city === undefined || r.city.toLowerCase().trim() === city) &&
+          (r.date === undefined || r.date === parsed.data.date),
+      );
+      if (!record) {
+        return { error: `No local forecast for ${parsed.data.city}` };
+      }
+
+      const { city: _city, date: _date, ...forecast } = record;
+      return { forecast };
+    },
+  };
+}
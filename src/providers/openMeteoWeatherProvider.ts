@@ -0,0 +1,13 @@
+import { openMeteoForecast } from "../tools/index.js";
+import type { WeatherProvider } from "./weatherProvider.js";
+
+/**
+ * Weather provider backed by the Open-Meteo forecast API
+ * Needs no API key
+ */
+export function createOpenMeteoWeatherProvider(): WeatherProvider {
+  return {
+    name: "open-meteo",
+    forecast: openMeteoForecast,
+  };
+}
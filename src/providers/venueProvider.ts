@@ -0,0 +1,35 @@
+import type { Location } from "../types/index.js";
+import type {
+  PlacesSearchInput,
+  PlacesSearchResult,
+  PlaceDetailsInput,
+  PlaceDetailsResult,
+  GeocodeResult,
+  CallOptions,
+} from "../tools/index.js";
+
+/**
+ * Source of venue data for the graph (search, details and geocoding)
+ *
+ * Every implementation returns the same shapes as the Google tools, so graph
+ * nodes don't care where venues come from. Calls still go through the call
+ * budget regardless of provider, so offline runs degrade the same way as
+ * production ones. With `cacheOnly` (budget spent) a provider may only answer
+ * from its persistent cache and must return an error otherwise.
+ */
+export interface VenueProvider {
+  /** Short identifier for logging (e.g., "google", "local") */
+  readonly name: string;
+
+  /** Text search for venues near a location */
+  search(input: PlacesSearchInput, options?: CallOptions): Promise<PlacesSearchResult>;
+
+  /** Details (rating, price, hours) for a single venue */
+  details(input: PlaceDetailsInput, options?: CallOptions): Promise<PlaceDetailsResult>;
+
+  /** Free lookup of a known city center - no call is made */
+  getCachedCityCenter(city: string): Location | undefined;
+
+  /** Resolve a city center, possibly with a (budgeted) call */
+  geocode(city: string, options?: CallOptions): Promise<GeocodeResult>;
+}
@@ -0,0 +1,16 @@
+import type { ForecastInput, ForecastResult, CallOptions } from "../tools/index.js";
+
+/**
+ * Source of weather forecasts for the graph
+ *
+ * The graph asks once per request for the city and the outing's window; a
+ * provider without a forecast for it returns an error and the plan is built
+ * as if the weather were fine.
+ */
+export interface WeatherProvider {
+  /** Short identifier for logging (e.g., "open-meteo", "local") */
+  readonly name: string;
+
+  /** Forecast for a location over the outing's window (worst hour wins) */
+  forecast(input: ForecastInput, options?: CallOptions): Promise<ForecastResult>;
+}
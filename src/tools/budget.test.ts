@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import { CALL_BUDGET_LIMITS, type CacheStats, type CallBudget } from "../types/index.js";
+import {
+  MAX_REQUEST_COST_EUR,
+  USD_TO_EUR,
+  budgetedCall,
+  canMakeCall,
+  getCallCost,
+  getWorstCaseCost,
+  incrementCallBudget,
+} from "./budget.js";
+
+const EMPTY: CallBudget = {
+  placesSearch: 0,
+  geocode: 0,
+  placeDetails: 0,
+  placeHours: 0,
+  routes: 0,
+  forecast: 0,
+};
+
+const NO_STATS = Object.fromEntries(
+  Object.keys(EMPTY).map((callType) => [callType, { hits: 0, misses: 0 }])
+) as CacheStats;
+
+describe("getWorstCaseCost", () => {
+  it.each(["free", "paid"] as const)("keeps the %s tier under the PRD target", (tier) => {
+    expect(getWorstCaseCost(tier) * USD_TO_EUR).toBeLessThan(MAX_REQUEST_COST_EUR);
+  });
+
+  it("counts every call type, forecasts free", () => {
+    expect(getCallCost({ ...EMPTY, geocode: 1, placeHours: 2, forecast: 3 })).toBeCloseTo(0.082);
+    expect(getWorstCaseCost("paid")).toBeCloseTo(0.213);
+  });
+});
+
+describe("canMakeCall", () => {
+  it("allows calls until the tier's limit", () => {
+    const limit = CALL_BUDGET_LIMITS.free.placesSearch;
+
+    const underLimit = { ...EMPTY, placesSearch: limit - 1 };
+    expect(canMakeCall(underLimit, "placesSearch", "free").allowed).toBe(true);
+    expect(canMakeCall({ ...EMPTY, placesSearch: limit }, "placesSearch", "free")).toEqual({
+      allowed: false,
+      reason: `placesSearch budget exhausted: ${limit}/${limit} calls used (free tier)`,
+      currentCount: limit,
+      limit,
+    });
+  });
+
+  it("keeps each call type on its own counter", () => {
+    const budget = incrementCallBudget(EMPTY, "geocode", "paid");
+
+    expect(budget).toEqual({ ...EMPTY, geocode: 1 });
+    expect(canMakeCall(budget, "geocode", "paid").allowed).toBe(false);
+    expect(canMakeCall(budget, "placesSearch", "paid").allowed).toBe(true);
+    expect(() => incrementCallBudget(budget, "geocode", "paid")).toThrow("geocode budget exhausted");
+  });
+});
+
+describe("budgetedCall", () => {
+  const ledger = { callBudget: EMPTY, cacheStats: NO_STATS };
+
+  it("spends budget on a live miss", async () => {
+    const call = vi.fn(async () => ({ cached: false }));
+
+    const result = await budgetedCall("test", "placesSearch", ledger, "paid", call);
+
+    expect(call).toHaveBeenCalledWith({});
+    expect(result.ledger.callBudget).toEqual({ ...EMPTY, placesSearch: 1 });
+    expect(result.ledger.cacheStats.placesSearch).toEqual({ hits: 0, misses: 1 });
+  });
+
+  it("doesn't spend budget on a cache hit", async () => {
+    const result = await budgetedCall("test", "placesSearch", ledger, "paid", async () => ({
+      cached: true,
+    }));
+
+    expect(result.ledger.callBudget).toEqual(EMPTY);
+    expect(result.ledger.cacheStats.placesSearch).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it("serves from cache only once the budget is spent", async () => {
+    const spent = { ...ledger, callBudget: { ...EMPTY, geocode: CALL_BUDGET_LIMITS.paid.geocode } };
+    const call = vi.fn(async () => ({ cached: true }));
+
+    const result = await budgetedCall("test", "geocode", spent, "paid", call);
+
+    expect(call).toHaveBeenCalledWith({ cacheOnly: true });
+    expect(result.ledger.callBudget).toEqual(spent.callBudget);
+  });
+
+  it("serves from cache only when asked, with budget left", async () => {
+    const call = vi.fn(async () => ({ cached: false }));
+
+    const result = await budgetedCall("test", "routes", ledger, "paid", call, true);
+
+    expect(call).toHaveBeenCalledWith({ cacheOnly: true });
+    expect(result.ledger.callBudget).toEqual(EMPTY);
+    expect(result.ledger.cacheStats.routes).toEqual({ hits: 0, misses: 1 });
+  });
+});
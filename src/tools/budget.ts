@@ -1,6 +1,33 @@
-import { CALL_BUDGET_LIMITS, type CallBudget } from "../types/index.js";
+import {
+  CALL_BUDGET_LIMITS,
+  type CacheStats,
+  type CallBudget,
+  type CallBudgetTier,
+} from "../types/index.js";
+import type { CallOptions } from "./cache.js";
 
-export type CallType = "placesSearch" | "placeDetails" | "routes";
+export type CallType = keyof CallBudget;
+
+// Google list price (USD) per call - geocoding is a Text Search call and hours checks are
+// Place Details calls; forecasts (Open-Meteo or local) are free
+export const CALL_COSTS_USD: Record<CallType, number> = {
+  placesSearch: 0.032,
+  geocode: 0.032,
+  placeDetails: 0.025,
+  placeHours: 0.025,
+  routes: 0.01,
+  forecast: 0,
+};
+
+// PRD target for Google API spend per request, and the rate to check it at
+export const MAX_REQUEST_COST_EUR = 0.2;
+export const USD_TO_EUR = 0.92;
+
+// Call budget plus persistent-cache stats, threaded through every Google call
+export interface CallLedger {
+  callBudget: CallBudget;
+  cacheStats: CacheStats;
+}
 
 export interface BudgetCheckResult {
   allowed: boolean;
@@ -9,20 +36,45 @@ export interface BudgetCheckResult {
   limit: number;
 }
 
+/**
+ * Cost (USD) of the calls counted in a budget
+ */
+export function getCallCost(budget: CallBudget): number {
+  return (Object.keys(CALL_COSTS_USD) as CallType[]).reduce(
+    (sum, callType) => sum + budget[callType] * CALL_COSTS_USD[callType],
+    0
+  );
+}
+
+/**
+ * Cost (USD) of a request that spends a tier's whole budget
+ */
+export function getWorstCaseCost(tier: CallBudgetTier): number {
+  return getCallCost(CALL_BUDGET_LIMITS[tier]);
+}
+
+/**
+ * Get the call budget tier for a request
+ */
+export function getCallBudgetTier(paid: boolean): CallBudgetTier {
+  return paid ? "paid" : "free";
+}
+
 /**
  * Check if a call type is within budget
  */
 export function canMakeCall(
   budget: CallBudget,
-  callType: CallType
+  callType: CallType,
+  tier: CallBudgetTier
 ): BudgetCheckResult {
   const currentCount = budget[callType];
-  const limit = CALL_BUDGET_LIMITS[callType];
+  const limit = CALL_BUDGET_LIMITS[tier][callType];
 
   if (currentCount >= limit) {
     return {
       allowed: false,
-      reason: `${callType} budget exhausted: ${currentCount}/${limit} calls used`,
+      reason: `${callType} budget exhausted: ${currentCount}/${limit} calls used (${tier} tier)`,
       currentCount,
       limit,
     };
@@ -41,9 +93,10 @@ export function canMakeCall(
  */
 export function incrementCallBudget(
   budget: CallBudget,
-  callType: CallType
+  callType: CallType,
+  tier: CallBudgetTier
 ): CallBudget {
-  const check = canMakeCall(budget, callType);
+  const check = canMakeCall(budget, callType, tier);
 
   if (!check.allowed) {
     throw new Error(check.reason);
@@ -58,32 +111,93 @@ export function incrementCallBudget(
 /**
  * Get remaining calls for each type
  */
-export function getRemainingBudget(budget: CallBudget): Record<CallType, number> {
+export function getRemainingBudget(
+  budget: CallBudget,
+  tier: CallBudgetTier
+): Record<CallType, number> {
+  const limits = CALL_BUDGET_LIMITS[tier];
   return {
-    placesSearch: CALL_BUDGET_LIMITS.placesSearch - budget.placesSearch,
-    placeDetails: CALL_BUDGET_LIMITS.placeDetails - budget.placeDetails,
-    routes: CALL_BUDGET_LIMITS.routes - budget.routes,
+    placesSearch: Math.max(0, limits.placesSearch - budget.placesSearch),
+    geocode: Math.max(0, limits.geocode - budget.geocode),
+    placeDetails: Math.max(0, limits.placeDetails - budget.placeDetails),
+    placeHours: Math.max(0, limits.placeHours - budget.placeHours),
+    routes: Math.max(0, limits.routes - budget.routes),
+    forecast: Math.max(0, limits.forecast - budget.forecast),
   };
 }
 
 /**
  * Check if any budget is exhausted
  */
-export function isBudgetExhausted(budget: CallBudget): boolean {
+export function isBudgetExhausted(
+  budget: CallBudget,
+  tier: CallBudgetTier
+): boolean {
+  const limits = CALL_BUDGET_LIMITS[tier];
   return (
-    budget.placesSearch >= CALL_BUDGET_LIMITS.placesSearch &&
-    budget.placeDetails >= CALL_BUDGET_LIMITS.placeDetails &&
-    budget.routes >= CALL_BUDGET_LIMITS.routes
+    budget.placesSearch >= limits.placesSearch &&
+    budget.geocode >= limits.geocode &&
+    budget.placeDetails >= limits.placeDetails &&
+    budget.placeHours >= limits.placeHours &&
+    budget.routes >= limits.routes &&
+    budget.forecast >= limits.forecast
   );
 }
 
 /**
  * Format budget for logging/output
  */
-export function formatBudgetUsage(budget: CallBudget): string {
+export function formatBudgetUsage(
+  budget: CallBudget,
+  tier: CallBudgetTier
+): string {
+  const limits = CALL_BUDGET_LIMITS[tier];
   return [
-    `Places Search: ${budget.placesSearch}/${CALL_BUDGET_LIMITS.placesSearch}`,
-    `Place Details: ${budget.placeDetails}/${CALL_BUDGET_LIMITS.placeDetails}`,
-    `Routes: ${budget.routes}/${CALL_BUDGET_LIMITS.routes}`,
+    `Places Search: ${budget.placesSearch}/${limits.placesSearch}`,
+    `Geocode: ${budget.geocode}/${limits.geocode}`,
+    `Place Details: ${budget.placeDetails}/${limits.placeDetails}`,
+    `Hours checks: ${budget.placeHours}/${limits.placeHours}`,
+    `Routes: ${budget.routes}/${limits.routes}`,
+    `Forecast: ${budget.forecast}/${limits.forecast}`,
   ].join(", ");
 }
+
+/**
+ * Run a cacheable call under the call budget
+ * Cache hits don't spend budget; once the budget is spent (or with cacheOnly) the
+ * call is still answered from the persistent cache if possible
+ */
+export async function budgetedCall<T extends { cached?: boolean }>(
+  nodeName: string,
+  callType: CallType,
+  ledger: CallLedger,
+  tier: CallBudgetTier,
+  call: (options: CallOptions) => Promise<T>,
+  cacheOnly: boolean = false
+): Promise<{ result: T; ledger: CallLedger }> {
+  const check = canMakeCall(ledger.callBudget, callType, tier);
+  if (!check.allowed && !cacheOnly) {
+    console.log(`[${nodeName}] ${check.reason} - serving from cache only`);
+  }
+
+  const live = check.allowed && !cacheOnly;
+  const result = await call(live ? {} : { cacheOnly: true });
+  const hit = result.cached === true;
+  const counter = ledger.cacheStats[callType];
+
+  return {
+    result,
+    ledger: {
+      callBudget: live && !hit
+        ? incrementCallBudget(ledger.callBudget, callType, tier)
+        : ledger.callBudget,
+      cacheStats: {
+        ...ledger.cacheStats,
+        [callType]: {
+          hits: counter.hits + (hit ? 1 : 0),
+          misses: counter.misses + (hit ? 0 : 1),
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CACHE_TTL_MS, cacheGet, cacheKey, cacheSet, configureCache } from "./cache.js";
+import { configureTransport } from "./transport.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "cache-"));
+  configureCache({ enabled: true, dir });
+  configureTransport({ mode: "live" });
+  vi.useFakeTimers({ now: new Date("2026-10-14T18:00:00Z") });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("cacheGet", () => {
+  it("serves a value until its kind's TTL runs out", () => {
+    cacheSet("detailsHours", "key", { open: true });
+
+    vi.advanceTimersByTime(CACHE_TTL_MS.detailsHours - 1);
+    expect(cacheGet("detailsHours", "key")).toEqual({ open: true });
+
+    vi.advanceTimersByTime(1);
+    expect(cacheGet("detailsHours", "key")).toBeUndefined();
+  });
+
+  it("keeps kinds apart", () => {
+    cacheSet("details", "key", { rating: 4.6 });
+
+    expect(cacheGet("detailsHours", "key")).toBeUndefined();
+    expect(cacheGet("details", "key")).toEqual({ rating: 4.6 });
+  });
+
+  it("stays out of the way when disabled or recording", () => {
+    cacheSet("search", "key", ["a"]);
+
+    configureCache({ enabled: false });
+    expect(cacheGet("search", "key")).toBeUndefined();
+
+    configureCache({ enabled: true });
+    configureTransport({ mode: "record", cassettePath: join(dir, "cassette.json") });
+    expect(cacheGet("search", "key")).toBeUndefined();
+  });
+});
+
+describe("cacheKey", () => {
+  it("doesn't depend on the order of the parts", () => {
+    expect(cacheKey({ query: "tapas", city: "barcelona" })).toBe(
+      cacheKey({ city: "barcelona", query: "tapas" })
+    );
+    expect(cacheKey({ query: "tapas" })).not.toBe(cacheKey({ query: "sushi" }));
+  });
+});
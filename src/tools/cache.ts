@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { getTransportConfig } from "./transport.js";
+
+// Kinds of cached responses - each gets its own TTL
+export type CacheKind =
+  | "search"
+  | "details"
+  | "detailsHours"
+  | "geocode"
+  | "routes"
+  | "forecast";
+
+// Time-to-live per kind: opening hours change more often than ratings or coordinates
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  search: 24 * 60 * 60 * 1000, // 1 day
+  details: 7 * 24 * 60 * 60 * 1000, // 7 days (rating, price level)
+  detailsHours: 6 * 60 * 60 * 1000, // 6 hours (opening hours, special closures)
+  geocode: 30 * 24 * 60 * 60 * 1000, // 30 days
+  routes: 7 * 24 * 60 * 60 * 1000, // 7 days
+  forecast: 3 * 60 * 60 * 1000, // 3 hours (forecasts are updated through the day)
+};
+
+// Options every cacheable tool call accepts
+export interface CallOptions {
+  /** Only serve from cache - used when the call budget is spent */
+  cacheOnly?: boolean;
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  dir: string;
+}
+
+interface CacheEntry<T> {
+  storedAt: number;
+  expiresAt: number;
+  value: T;
+}
+
+let config: CacheConfig = {
+  enabled: process.env.VIBEDAY_CACHE !== "off",
+  dir: process.env.VIBEDAY_CACHE_DIR ?? join(process.cwd(), ".cache", "vibeday"),
+};
+
+/**
+ * Override cache settings (e.g., a temp dir, or disabling it)
+ */
+export function configureCache(overrides: Partial<CacheConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+// The cache stays out of the way of record/replay so cassettes see every call
+function isActive(): boolean {
+  return config.enabled && getTransportConfig().mode === "live";
+}
+
+// Round coordinates to ~100m so nearby location biases share entries
+export function roundCoord(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Normalize free text (queries, city names) for cache keys
+export function normalizeText(text: string): string {
+  return text.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Build a stable cache key from the parts that identify a request
+ */
+export function cacheKey(parts: Record<string, unknown>): string {
+  const sorted = Object.keys(parts)
+    .sort()
+    .map((k) => [k, parts[k]]);
+  return createHash("sha1").update(JSON.stringify(sorted)).digest("hex");
+}
+
+function entryPath(kind: CacheKind, key: string): string {
+  return join(config.dir, kind, `${key}.json`);
+}
+
+/**
+ * Read a cached value, or undefined on miss/expiry
+ */
+export function cacheGet<T>(kind: CacheKind, key: string): T | undefined {
+  if (!isActive()) return undefined;
+
+  const path = entryPath(kind, key);
+  try {
+    const entry = JSON.parse(readFileSync(path, "utf-8")) as CacheEntry<T>;
+    if (entry.expiresAt <= Date.now()) {
+      rmSync(path, { force: true });
+      return undefined;
+    }
+    return entry.value;
+  } catch {
+    return undefined; // Missing or unreadable - treat as a miss
+  }
+}
+
+/**
+ * Store a value with the TTL for its kind
+ * Failures are logged and ignored - the cache is an optimisation only
+ */
+export function cacheSet<T>(kind: CacheKind, key: string, value: T): void {
+  if (!isActive()) return;
+
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    storedAt: now,
+    expiresAt: now + CACHE_TTL_MS[kind],
+    value,
+  };
+  try {
+    mkdirSync(join(config.dir, kind), { recursive: true });
+    writeFileSync(entryPath(kind, key), JSON.stringify(entry));
+  } catch (err) {
+    console.log(`[cache] Failed to write ${kind} entry:`, err);
+  }
+}
@@ -3,6 +3,7 @@ export {
   getCityCenter,
   geocodeCity,
   buildSearchQuery,
+  type GeocodeResult,
   PlacesSearchInputSchema,
   type PlacesSearchInput,
   type PlacesSearchResult,
@@ -22,6 +23,9 @@ export {
   computeItineraryRoute,
   suggestTravelMode,
   isTravelTimeAcceptable,
+  getRecordedRouteLegs,
+  type RecordedRouteLeg,
+  type TravelModeOptions,
   RoutesInputSchema,
   TravelModeSchema,
   type RoutesInput,
@@ -31,11 +35,54 @@ export {
 } from "./routes.js";
 
 export {
+  openMeteoForecast,
+  ForecastInputSchema,
+  type ForecastInput,
+  type ForecastResult,
+} from "./weather.js";
+
+export {
+  getCallBudgetTier,
   canMakeCall,
   incrementCallBudget,
   getRemainingBudget,
   isBudgetExhausted,
   formatBudgetUsage,
+  getCallCost,
+  getWorstCaseCost,
+  budgetedCall,
+  CALL_COSTS_USD,
+  MAX_REQUEST_COST_EUR,
+  USD_TO_EUR,
   type CallType,
+  type CallLedger,
   type BudgetCheckResult,
 } from "./budget.js";
+
+export {
+  transportFetch,
+  llmFetch,
+  configureTransport,
+  getTransportConfig,
+  placesUrl,
+  routesUrl,
+  weatherUrl,
+  isApiKeyRequired,
+  readCassette,
+  TransportModeSchema,
+  type TransportMode,
+  type TransportConfig,
+  type TransportInit,
+  type RecordedInteraction,
+} from "./transport.js";
+
+export {
+  cacheGet,
+  cacheSet,
+  cacheKey,
+  configureCache,
+  CACHE_TTL_MS,
+  type CacheKind,
+  type CacheConfig,
+  type CallOptions,
+} from "./cache.js";
@@ -0,0 +1,164 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpeningPeriod } from "../types/index.js";
+import { googlePlaceDetails, isOpenAt } from "./placeDetails.js";
+import { configureTransport, placesUrl } from "./transport.js";
+
+const hours = (periods: OpeningPeriod[]) => ({ periods, weekdayDescriptions: [] });
+
+// Days (0 = Sunday)
+const TUESDAY = 2;
+const WEDNESDAY = 3;
+const FRIDAY = 5;
+const SATURDAY = 6;
+const SUNDAY = 0;
+
+describe("isOpenAt", () => {
+  it("checks a same-day period, open until (not at) closing", () => {
+    const lunch = hours([
+      { openDay: TUESDAY, openTime: "12:00", closeDay: TUESDAY, closeTime: "15:00" },
+    ]);
+
+    expect(isOpenAt(lunch, TUESDAY, "11:59")).toBe(false);
+    expect(isOpenAt(lunch, TUESDAY, "12:00")).toBe(true);
+    expect(isOpenAt(lunch, TUESDAY, "14:59")).toBe(true);
+    expect(isOpenAt(lunch, TUESDAY, "15:00")).toBe(false);
+    expect(isOpenAt(lunch, WEDNESDAY, "13:00")).toBe(false);
+  });
+
+  it("keeps an overnight period open past midnight into the next day", () => {
+    const bar = hours([
+      { openDay: FRIDAY, openTime: "20:00", closeDay: SATURDAY, closeTime: "02:00" },
+    ]);
+
+    expect(isOpenAt(bar, FRIDAY, "19:59")).toBe(false);
+    expect(isOpenAt(bar, FRIDAY, "23:30")).toBe(true);
+    expect(isOpenAt(bar, SATURDAY, "01:30")).toBe(true);
+    expect(isOpenAt(bar, SATURDAY, "02:00")).toBe(false);
+    expect(isOpenAt(bar, SATURDAY, "12:00")).toBe(false);
+  });
+
+  it("wraps an overnight period from Saturday into Sunday", () => {
+    const club = hours([
+      { openDay: SATURDAY, openTime: "23:00", closeDay: SUNDAY, closeTime: "05:00" },
+    ]);
+
+    expect(isOpenAt(club, SATURDAY, "23:30")).toBe(true);
+    expect(isOpenAt(club, SUNDAY, "04:30")).toBe(true);
+    expect(isOpenAt(club, SUNDAY, "06:00")).toBe(false);
+  });
+
+  it("combines a day's own periods with the night before's", () => {
+    const tapas = hours([
+      { openDay: FRIDAY, openTime: "19:00", closeDay: SATURDAY, closeTime: "01:00" },
+      { openDay: SATURDAY, openTime: "12:00", closeDay: SATURDAY, closeTime: "16:00" },
+      { openDay: SATURDAY, openTime: "19:00", closeDay: SUNDAY, closeTime: "01:00" },
+    ]);
+
+    expect(isOpenAt(tapas, SATURDAY, "00:30")).toBe(true);
+    expect(isOpenAt(tapas, SATURDAY, "13:00")).toBe(true);
+    expect(isOpenAt(tapas, SATURDAY, "17:00")).toBe(false);
+    expect(isOpenAt(tapas, SATURDAY, "23:00")).toBe(true);
+    expect(isOpenAt(tapas, SUNDAY, "00:59")).toBe(true);
+    expect(isOpenAt(tapas, SUNDAY, "01:00")).toBe(false);
+  });
+
+  it("treats a single period from Sunday 00:00 without a close as open 24 hours", () => {
+    const allDay = hours([{ openDay: SUNDAY, openTime: "00:00" }]);
+
+    expect(isOpenAt(allDay, WEDNESDAY, "03:00")).toBe(true);
+  });
+
+  it("returns undefined without hours", () => {
+    expect(isOpenAt(undefined, FRIDAY, "20:00")).toBeUndefined();
+    expect(isOpenAt(hours([]), FRIDAY, "20:00")).toBeUndefined();
+  });
+});
+
+describe("googlePlaceDetails", () => {
+  const BASIC =
+    "id,displayName,formattedAddress,location,rating,userRatingCount,priceLevel,types,websiteUri";
+  const ATTRIBUTES =
+    "reservable,outdoorSeating,goodForChildren,goodForGroups,servesBeer,servesWine,servesCocktails," +
+    "editorialSummary,accessibilityOptions,businessStatus";
+
+  let dir: string;
+
+  // Replays one Place Details response, recorded for the given field mask
+  const replay = (fieldMask: string, body: object) => {
+    const cassettePath = join(dir, "cassette.json");
+    const request = { method: "GET", url: placesUrl("/v1/places/palau"), fieldMask };
+    const response = { status: 200, body: JSON.stringify(body) };
+    writeFileSync(cassettePath, JSON.stringify({ version: 1, interactions: [{ request, response }] }));
+    configureTransport({ mode: "replay", cassettePath });
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "details-"));
+  });
+
+  afterEach(() => {
+    configureTransport({ mode: "live" });
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("asks for venue attributes only when requested, and maps them", async () => {
+    replay(`${BASIC},${ATTRIBUTES}`, {
+      id: "palau",
+      displayName: { text: "Palau de la Música", languageCode: "ca" },
+      reservable: true,
+      outdoorSeating: false,
+      editorialSummary: { text: "Modernista concert hall.", languageCode: "en" },
+      accessibilityOptions: { wheelchairAccessibleEntrance: true },
+      businessStatus: "OPERATIONAL",
+    });
+
+    const { details } = await googlePlaceDetails({ placeId: "palau", includeAttributes: true });
+
+    expect(details).toMatchObject({
+      name: "Palau de la Música",
+      reservable: true,
+      outdoorSeating: false,
+      editorialSummary: "Modernista concert hall.",
+      accessibility: { wheelchairAccessibleEntrance: true },
+      businessStatus: "OPERATIONAL",
+    });
+    expect(details).not.toHaveProperty("servesWine");
+  });
+
+  it("leaves the attributes out of the basic field mask", async () => {
+    replay(BASIC, { id: "palau", businessStatus: "BUSINESS_STATUS_UNSPECIFIED" });
+
+    const { details } = await googlePlaceDetails({ placeId: "palau" });
+
+    expect(details).toEqual({
+      placeId: "palau",
+      name: "Unknown",
+      address: "",
+      location: { lat: 0, lng: 0 },
+    });
+  });
+
+  it("adds hours and dietary fields on top", async () => {
+    replay(`${BASIC},currentOpeningHours,regularOpeningHours,servesVegetarianFood`, {
+      id: "palau",
+      servesVegetarianFood: true,
+      regularOpeningHours: {
+        periods: [{ open: { day: 5, hour: 20, minute: 0 }, close: { day: 6, hour: 2, minute: 0 } }],
+      },
+    });
+
+    const { details } = await googlePlaceDetails({
+      placeId: "palau",
+      includeHours: true,
+      includeDietary: true,
+    });
+
+    expect(details?.servesVegetarianFood).toBe(true);
+    expect(details?.openingHours?.periods).toEqual([
+      { openDay: 5, openTime: "20:00", closeDay: 6, closeTime: "02:00" },
+    ]);
+  });
+});
@@ -1,10 +1,13 @@
 import { z } from "zod";
+import type { BusinessStatus, OpeningPeriod, VenueAttributes } from "../types/index.js";
+import { transportFetch, placesUrl, isApiKeyRequired } from "./transport.js";
+import { cacheGet, cacheSet, cacheKey, type CallOptions } from "./cache.js";
 
 // Environment variable for API key
 const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 
-// Google Places API (New) Place Details endpoint
-const PLACE_DETAILS_URL = "https://places.googleapis.com/v1/places";
+// Google Places API (New) Place Details endpoint path (base URL comes from the transport config)
+const PLACE_DETAILS_PATH = "/v1/places";
 
 // Field masks for different detail levels
 // Basic: ~$0.017 per call
@@ -27,10 +30,40 @@ const HOURS_FIELDS = [
   "regularOpeningHours",
 ];
 
+// Dietary attributes: requested on top of either level when the user has dietary restrictions
+const DIETARY_FIELDS = ["servesVegetarianFood"];
+
+// Yes/no venue attributes Google returns under the same names we use
+const BOOLEAN_ATTRIBUTES = [
+  "reservable",
+  "outdoorSeating",
+  "goodForChildren",
+  "goodForGroups",
+  "servesBeer",
+  "servesWine",
+  "servesCocktails",
+] as const;
+
+// Venue attributes: opt-in on top of either level (~$0.025 per call with basic fields)
+const ATTRIBUTE_FIELDS = [
+  ...BOOLEAN_ATTRIBUTES,
+  "editorialSummary",
+  "accessibilityOptions",
+  "businessStatus",
+];
+
+// Business statuses we keep (Google may also send BUSINESS_STATUS_UNSPECIFIED)
+const BUSINESS_STATUSES: BusinessStatus[] = ["OPERATIONAL", "CLOSED_TEMPORARILY", "CLOSED_PERMANENTLY"];
+
 // Input schema
 export const PlaceDetailsInputSchema = z.object({
   placeId: z.string().min(1).describe("Google Place ID"),
   includeHours: z.boolean().optional().describe("Include opening hours (costs more)"),
+  includeDietary: z.boolean().optional().describe("Include dietary attributes (vegetarian options)"),
+  includeAttributes: z
+    .boolean()
+    .optional()
+    .describe("Include venue attributes (reservations, seating, drinks, accessibility, summary)"),
 });
 
 export type PlaceDetailsInput = z.infer<typeof PlaceDetailsInputSchema>;
@@ -66,6 +99,25 @@ interface GooglePlaceDetailsResponse {
   priceLevel?: string;
   types?: string[];
   websiteUri?: string;
+  servesVegetarianFood?: boolean;
+  reservable?: boolean;
+  outdoorSeating?: boolean;
+  goodForChildren?: boolean;
+  goodForGroups?: boolean;
+  servesBeer?: boolean;
+  servesWine?: boolean;
+  servesCocktails?: boolean;
+  editorialSummary?: {
+    text?: string;
+    languageCode?: string;
+  };
+  accessibilityOptions?: {
+    wheelchairAccessibleParking?: boolean;
+    wheelchairAccessibleEntrance?: boolean;
+    wheelchairAccessibleRestroom?: boolean;
+    wheelchairAccessibleSeating?: boolean;
+  };
+  businessStatus?: string;
   currentOpeningHours?: {
     openNow?: boolean;
     periods?: OpeningHoursPeriod[];
@@ -78,8 +130,8 @@ interface GooglePlaceDetailsResponse {
   };
 }
 
-// Our enriched venue details
-export interface PlaceDetails {
+// Our enriched venue details (attributes only when requested and listed)
+export interface PlaceDetails extends VenueAttributes {
   placeId: string;
   name: string;
   address: string;
@@ -92,13 +144,9 @@ export interface PlaceDetails {
   priceLevel?: number;
   website?: string;
   openNow?: boolean;
+  servesVegetarianFood?: boolean; // Unset when Google doesn't list it (or it wasn't requested)
   openingHours?: {
-    periods: Array<{
-      openDay: number;
-      openTime: string; // HH:MM
-      closeDay?: number;
-      closeTime?: string;
-    }>;
+    periods: OpeningPeriod[];
     weekdayDescriptions: string[];
   };
 }
@@ -106,6 +154,7 @@ export interface PlaceDetails {
 export interface PlaceDetailsResult {
   details?: PlaceDetails;
   error?: string;
+  cached?: boolean; // Served from the persistent cache (no API call made)
 }
 
 // Convert price level string to number
@@ -158,15 +207,29 @@ function transformDetails(response: GooglePlaceDetailsResponse): PlaceDetails {
   if (hours?.openNow !== undefined) {
     details.openNow = hours.openNow;
   }
+  if (response.servesVegetarianFood !== undefined) {
+    details.servesVegetarianFood = response.servesVegetarianFood;
+  }
+  for (const attribute of BOOLEAN_ATTRIBUTES) {
+    const value = response[attribute];
+    if (value !== undefined) {
+      details[attribute] = value;
+    }
+  }
+  if (response.editorialSummary?.text) {
+    details.editorialSummary = response.editorialSummary.text;
+  }
+  if (response.accessibilityOptions) {
+    details.accessibility = { ...response.accessibilityOptions };
+  }
+  const businessStatus = BUSINESS_STATUSES.find((s) => s === response.businessStatus);
+  if (businessStatus) {
+    details.businessStatus = businessStatus;
+  }
 
   if (hours?.periods || hours?.weekdayDescriptions) {
     const periods = hours.periods?.map((p) => {
-      const period: {
-        openDay: number;
-        openTime: string;
-        closeDay?: number;
-        closeTime?: string;
-      } = {
+      const period: OpeningPeriod = {
         openDay: p.open.day,
         openTime: formatTime(p.open.hour, p.open.minute),
       };
@@ -191,19 +254,14 @@ function transformDetails(response: GooglePlaceDetailsResponse): PlaceDetails {
 /**
  * Get detailed information about a specific place
  *
- * Cost: ~$0.017 per call (basic) to ~$0.025 (with hours)
- * Budget: Max 6 calls per request (enforced by call budget)
+ * Cost: ~$0.017 per call (basic) to ~$0.025 (with hours or venue attributes)
+ * Budget: 1 (free) / 2 (paid) finalist calls per request, plus 1 validate_hours check on its
+ * own counter (enforced by call budget, see CALL_BUDGET_LIMITS)
  */
 export async function googlePlaceDetails(
-  input: PlaceDetailsInput
+  input: PlaceDetailsInput,
+  options: CallOptions = {}
 ): Promise<PlaceDetailsResult> {
-  // Validate API key
-  if (!GOOGLE_PLACES_API_KEY) {
-    return {
-      error: "GOOGLE_PLACES_API_KEY environment variable not set",
-    };
-  }
-
   // Validate input
   const parsed = PlaceDetailsInputSchema.safeParse(input);
   if (!parsed.success) {
@@ -212,19 +270,41 @@ export async function googlePlaceDetails(
     };
   }
 
-  const { placeId, includeHours } = parsed.data;
+  const { placeId, includeHours, includeDietary, includeAttributes } = parsed.data;
 
-  // Select field mask based on whether hours are needed
-  const fields = includeHours ? HOURS_FIELDS : BASIC_FIELDS;
+  // Select field mask based on whether hours (and dietary/venue attributes) are needed
+  const fields = [
+    ...(includeHours ? HOURS_FIELDS : BASIC_FIELDS),
+    ...(includeDietary ? DIETARY_FIELDS : []),
+    ...(includeAttributes ? ATTRIBUTE_FIELDS : []),
+  ];
   const fieldMask = fields.join(",");
 
+  // Hours go stale faster than ratings, so they're cached under a shorter TTL
+  const cacheKind = includeHours ? "detailsHours" : "details";
+  const key = cacheKey({ placeId, fieldMask });
+  const cached = cacheGet<PlaceDetails>(cacheKind, key);
+  if (cached) {
+    return { details: cached, cached: true };
+  }
+  if (options.cacheOnly) {
+    return { error: "Details not cached and call budget is spent" };
+  }
+
+  // Validate API key
+  if (!GOOGLE_PLACES_API_KEY && isApiKeyRequired()) {
+    return {
+      error: "GOOGLE_PLACES_API_KEY environment variable not set",
+    };
+  }
+
   try {
-    const url = `${PLACE_DETAILS_URL}/${placeId}`;
+    const url = placesUrl(`${PLACE_DETAILS_PATH}/${placeId}`);
 
-    const response = await fetch(url, {
+    const response = await transportFetch(url, {
       method: "GET",
       headers: {
-        "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY,
+        "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY ?? "",
         "X-Goog-FieldMask": fieldMask,
       },
     });
@@ -237,9 +317,10 @@ export async function googlePlaceDetails(
     }
 
     const data = (await response.json()) as GooglePlaceDetailsResponse;
-    return {
-      details: transformDetails(data),
-    };
+    const details = transformDetails(data);
+    cacheSet(cacheKind, key, details);
+
+    return { details };
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return {
@@ -271,8 +352,32 @@ export function isOpenAt(
   }
   const timeMinutes = hours * 60 + minutes;
 
+  // Google reports "open 24 hours" as a single period opening Sunday 00:00 with no close
+  const [onlyPeriod] = openingHours.periods;
+  if (
+    openingHours.periods.length === 1 &&
+    onlyPeriod &&
+    !onlyPeriod.closeTime &&
+    onlyPeriod.openTime === "00:00"
+  ) {
+    return true;
+  }
+
   // Find periods for this day
   for (const period of openingHours.periods) {
+    // Overnight period that opened the day before and is still running (e.g., bar until 2am)
+    if (
+      period.openDay !== dayOfWeek &&
+      period.closeDay === dayOfWeek &&
+      period.closeTime
+    ) {
+      const [closeH, closeM] = period.closeTime.split(":").map(Number);
+      if (closeH !== undefined && closeM !== undefined && timeMinutes < closeH * 60 + closeM) {
+        return true;
+      }
+      continue;
+    }
+
     if (period.openDay === dayOfWeek) {
       const [openH, openM] = period.openTime.split(":").map(Number);
       if (openH === undefined || openM === undefined) continue;
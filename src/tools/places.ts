@@ -1,11 +1,20 @@
 import { z } from "zod";
-import type { Venue, Location } from "../types/index.js";
+import type { Venue, Location, SlotType } from "../types/index.js";
+import { transportFetch, placesUrl, isApiKeyRequired } from "./transport.js";
+import {
+  cacheGet,
+  cacheSet,
+  cacheKey,
+  normalizeText,
+  roundCoord,
+  type CallOptions,
+} from "./cache.js";
 
 // Environment variable for API key
 const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 
-// Google Places API (New) endpoint
-const PLACES_TEXT_SEARCH_URL = "https://places.googleapis.com/v1/places:searchText";
+// Google Places API (New) endpoint path (base URL comes from the transport config)
+const PLACES_TEXT_SEARCH_PATH = "/v1/places:searchText";
 
 // Field mask for cost-efficient search (basic + location + rating)
 // This balances cost with getting useful venue data
@@ -80,8 +89,8 @@ function priceLevelToNumber(
   return mapping[priceLevel];
 }
 
-// Construct Google Maps URL from place ID or coordinates
-function buildMapsUrl(placeId: string, location?: Location): string {
+// Construct Google Maps URL from place ID
+function buildMapsUrl(placeId: string): string {
   // Use place_id for more accurate linking
   return `https://www.google.com/maps/place/?q=place_id:${placeId}`;
 }
@@ -152,7 +161,7 @@ function transformToVenue(place: GooglePlaceResponse): Venue {
   return {
     name: place.displayName?.text ?? "Unknown",
     placeId: place.id,
-    mapsUrl: buildMapsUrl(place.id, location),
+    mapsUrl: buildMapsUrl(place.id),
     address: place.formattedAddress ?? "",
     location,
     priceLevel: priceLevelToNumber(place.priceLevel),
@@ -165,25 +174,26 @@ function transformToVenue(place: GooglePlaceResponse): Venue {
 export interface PlacesSearchResult {
   venues: Venue[];
   error?: string;
+  cached?: boolean; // Served from the persistent cache (no API call made)
+}
+
+// Apply client-side minimum rating filter if specified
+function filterByRating(venues: Venue[], minRating?: number): Venue[] {
+  if (minRating === undefined) return venues;
+  return venues.filter((v) => (v.rating ?? 0) >= minRating);
 }
 
 /**
  * Search for places using Google Places API (New) Text Search
  *
  * Cost: ~$0.032 per call (with basic + location + rating fields)
- * Budget: Max 3 calls per request (enforced by call budget)
+ * Budget: 2 (free) / 3 (paid) slot searches per request, plus 1 city geocode on its own
+ * counter (enforced by call budget, see CALL_BUDGET_LIMITS)
  */
 export async function googlePlacesSearch(
-  input: PlacesSearchInput
+  input: PlacesSearchInput,
+  options: CallOptions = {}
 ): Promise<PlacesSearchResult> {
-  // Validate API key
-  if (!GOOGLE_PLACES_API_KEY) {
-    return {
-      venues: [],
-      error: "GOOGLE_PLACES_API_KEY environment variable not set",
-    };
-  }
-
   // Validate input
   const parsed = PlacesSearchInputSchema.safeParse(input);
   if (!parsed.success) {
@@ -199,6 +209,32 @@ export async function googlePlacesSearch(
   const openNow = parsed.data.openNow ?? false;
   const maxResults = parsed.data.maxResults ?? 10;
 
+  // Serve from cache when possible (rating filter is applied after, so it's not part of the key)
+  const key = cacheKey({
+    query: normalizeText(query),
+    lat: roundCoord(location.lat),
+    lng: roundCoord(location.lng),
+    radiusMeters,
+    openNow,
+    maxResults,
+    fieldMask: SEARCH_FIELD_MASK,
+  });
+  const cached = cacheGet<Venue[]>("search", key);
+  if (cached) {
+    return { venues: filterByRating(cached, minRating), cached: true };
+  }
+  if (options.cacheOnly) {
+    return { venues: [], error: "Search not cached and call budget is spent" };
+  }
+
+  // Validate API key
+  if (!GOOGLE_PLACES_API_KEY && isApiKeyRequired()) {
+    return {
+      venues: [],
+      error: "GOOGLE_PLACES_API_KEY environment variable not set",
+    };
+  }
+
   // Build request body
   const requestBody: Record<string, unknown> = {
     textQuery: query,
@@ -220,11 +256,11 @@ export async function googlePlacesSearch(
   }
 
   try {
-    const response = await fetch(PLACES_TEXT_SEARCH_URL, {
+    const response = await transportFetch(placesUrl(PLACES_TEXT_SEARCH_PATH), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY,
+        "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY ?? "",
         "X-Goog-FieldMask": SEARCH_FIELD_MASK,
       },
       body: JSON.stringify(requestBody),
@@ -248,14 +284,10 @@ export async function googlePlacesSearch(
     }
 
     // Transform to our Venue schema
-    let venues = data.places.map(transformToVenue);
-
-    // Apply client-side minimum rating filter if specified
-    if (minRating !== undefined) {
-      venues = venues.filter((v) => (v.rating ?? 0) >= minRating);
-    }
+    const venues = data.places.map(transformToVenue);
+    cacheSet("search", key, venues);
 
-    return { venues };
+    return { venues: filterByRating(venues, minRating) };
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return {
@@ -307,36 +339,54 @@ export function getCityCenter(city: string): Location | undefined {
   return undefined;
 }
 
+export interface GeocodeResult {
+  location?: Location;
+  cached?: boolean; // Found in a cache (no API call made)
+}
+
 /**
  * Geocode a city name using Google Places API
  * This is async and should be called when getCityCenter returns undefined
  */
-export async function geocodeCity(city: string): Promise<Location | undefined> {
+export async function geocodeCity(
+  city: string,
+  options: CallOptions = {}
+): Promise<GeocodeResult> {
   const normalized = city.toLowerCase().trim();
 
   // Check caches first
   if (CITY_CENTERS_CACHE[normalized]) {
-    return CITY_CENTERS_CACHE[normalized];
+    return { location: CITY_CENTERS_CACHE[normalized], cached: true };
   }
   if (geocodeCache[normalized]) {
-    return geocodeCache[normalized];
+    return { location: geocodeCache[normalized], cached: true };
+  }
+  const key = cacheKey({ city: normalizeText(city) });
+  const persisted = cacheGet<Location>("geocode", key);
+  if (persisted) {
+    geocodeCache[normalized] = persisted;
+    return { location: persisted, cached: true };
+  }
+  if (options.cacheOnly) {
+    console.log("[geocodeCity] Not cached and call budget is spent");
+    return {};
   }
 
   // Validate API key
-  if (!GOOGLE_PLACES_API_KEY) {
+  if (!GOOGLE_PLACES_API_KEY && isApiKeyRequired()) {
     console.log("[geocodeCity] No API key");
-    return undefined;
+    return {};
   }
 
   console.log("[geocodeCity] Geocoding city:", city);
 
   try {
     // Use Places Text Search to find the city
-    const response = await fetch(PLACES_TEXT_SEARCH_URL, {
+    const response = await transportFetch(placesUrl(PLACES_TEXT_SEARCH_PATH), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY,
+        "X-Goog-Api-Key": GOOGLE_PLACES_API_KEY ?? "",
         "X-Goog-FieldMask": "places.location,places.displayName",
       },
       body: JSON.stringify({
@@ -347,7 +397,7 @@ export async function geocodeCity(city: string): Promise<Location | undefined> {
 
     if (!response.ok) {
       console.log("[geocodeCity] API error:", response.status);
-      return undefined;
+      return {};
     }
 
     const data = await response.json() as GoogleTextSearchResponse;
@@ -361,16 +411,17 @@ export async function geocodeCity(city: string): Promise<Location | undefined> {
 
       // Cache the result
       geocodeCache[normalized] = location;
+      cacheSet("geocode", key, location);
       console.log("[geocodeCity] Found:", city, "at", location);
 
-      return location;
+      return { location };
     }
 
     console.log("[geocodeCity] No results for:", city);
-    return undefined;
+    return {};
   } catch (err) {
     console.log("[geocodeCity] Error:", err);
-    return undefined;
+    return {};
   }
 }
 
@@ -390,21 +441,29 @@ const FINISH_MODIFIERS = [
   "popular", "relaxed"
 ];
 
+const SCENIC_MODIFIERS = [
+  "best", "beautiful", "hidden gem", "local favorite", "romantic",
+  "peaceful"
+];
+
 // Get a random modifier for variety
-function getRandomModifier(modifiers: string[]): string {
+function getRandomModifier(modifiers: string[], now: Date): string {
   // Use time-based seed for some consistency within a session but variety across sessions
-  const index = Math.floor(Date.now() / 60000) % modifiers.length;
+  const index = Math.floor(now.getTime() / 60000) % modifiers.length;
   return modifiers[index] ?? modifiers[0] ?? "";
 }
 
 /**
  * Build search queries for different venue types
  * Includes variety modifiers for more diverse results
+ *
+ * @param now - Picks the modifier (defaults to the current time)
  */
 export function buildSearchQuery(
-  category: "activity" | "dinner" | "finish",
+  category: SlotType,
   city: string,
-  preferences: { vibe?: string[]; dietary?: string[]; likes?: string[]; alcoholOk?: boolean; familyFriendly?: boolean }
+  preferences: { vibe?: string[]; dietary?: string[]; likes?: string[]; alcoholOk?: boolean; familyFriendly?: boolean },
+  now: Date = new Date()
 ): string {
   const vibeTerms = preferences.vibe?.join(" ") ?? "";
   const dietaryTerms = preferences.dietary?.length
@@ -415,26 +474,34 @@ export function buildSearchQuery(
 
   switch (category) {
     case "activity": {
-      const modifier = getRandomModifier(ACTIVITY_MODIFIERS);
+      const modifier = getRandomModifier(ACTIVITY_MODIFIERS, now);
       if (isFamily) {
         return `${modifier} family friendly kid friendly ${vibeTerms} ${likesTerms} activities attractions things to do in ${city}`.trim();
       }
       return `${modifier} ${vibeTerms} ${likesTerms} activities attractions experiences in ${city}`.trim();
     }
     case "dinner": {
-      const modifier = getRandomModifier(RESTAURANT_MODIFIERS);
+      const modifier = getRandomModifier(RESTAURANT_MODIFIERS, now);
       if (isFamily) {
         return `${modifier} family friendly ${vibeTerms} ${dietaryTerms} restaurant in ${city}`.trim();
       }
       return `${modifier} ${vibeTerms} ${dietaryTerms} restaurant dinner in ${city}`.trim();
     }
-    case "finish": {
-      const modifier = getRandomModifier(FINISH_MODIFIERS);
-      // Family or no alcohol = cafes and dessert
+    case "drinks": {
+      const modifier = getRandomModifier(FINISH_MODIFIERS, now);
+      // Family or no alcohol = cafes instead of bars
       if (isFamily || preferences.alcoholOk === false) {
-        return `${modifier} ${vibeTerms} cafe dessert coffee shop in ${city}`.trim();
+        return `${modifier} ${vibeTerms} cafe coffee shop juice bar in ${city}`.trim();
       }
       return `${modifier} ${vibeTerms} bar cocktail wine lounge in ${city}`.trim();
     }
+    case "dessert": {
+      const modifier = getRandomModifier(FINISH_MODIFIERS, now);
+      return `${modifier} ${vibeTerms} ${dietaryTerms} dessert gelato cafe coffee shop in ${city}`.trim();
+    }
+    case "scenic": {
+      const modifier = getRandomModifier(SCENIC_MODIFIERS, now);
+      return `${modifier} ${vibeTerms} scenic viewpoint promenade walk in ${city}`.trim();
+    }
   }
 }
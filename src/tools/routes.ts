@@ -1,15 +1,21 @@
 import { z } from "zod";
-import type { Location } from "../types/index.js";
+import { TravelModeSchema, type Location, type Mobility, type TravelMode } from "../types/index.js";
+import {
+  transportFetch,
+  routesUrl,
+  isApiKeyRequired,
+  type RecordedInteraction,
+} from "./transport.js";
+import { cacheGet, cacheSet, cacheKey, roundCoord, type CallOptions } from "./cache.js";
 
 // Environment variable for API key
 const GOOGLE_ROUTES_API_KEY = process.env.GOOGLE_ROUTES_API_KEY ?? process.env.GOOGLE_PLACES_API_KEY;
 
-// Google Routes API endpoint
-const ROUTES_URL = "https://routes.googleapis.com/directions/v2:computeRoutes";
+// Google Routes API endpoint path (base URL comes from the transport config)
+const ROUTES_PATH = "/directions/v2:computeRoutes";
 
-// Travel modes
-export const TravelModeSchema = z.enum(["WALK", "DRIVE", "TRANSIT"]);
-export type TravelMode = z.infer<typeof TravelModeSchema>;
+// Travel modes (defined with the plan types - a stop records the mode of its leg)
+export { TravelModeSchema, type TravelMode };
 
 // Waypoint schema
 const WaypointSchema = z.object({
@@ -25,6 +31,7 @@ export const RoutesInputSchema = z.object({
   waypoints: z.array(WaypointSchema).optional().describe("Intermediate stops"),
   mode: TravelModeSchema.optional().describe("Travel mode (default: WALK)"),
   departureTime: z.string().optional().describe("ISO 8601 departure time for transit"),
+  lessWalking: z.boolean().optional().describe("Transit routes with the least walking (limited mobility)"),
 });
 
 export type RoutesInput = z.infer<typeof RoutesInputSchema>;
@@ -83,6 +90,7 @@ export interface RouteResult {
 export interface RoutesResult {
   route?: RouteResult;
   error?: string;
+  cached?: boolean; // Served from the persistent cache (no API call made)
 }
 
 // Parse duration string (e.g., "300s") to seconds
@@ -115,18 +123,12 @@ function buildWaypoint(point: z.infer<typeof WaypointSchema>): Record<string, un
  * Compute travel time and route between locations
  *
  * Cost: ~$0.005-0.01 per call
- * Budget: Max 2 calls per request (enforced by call budget)
+ * Budget: 1 call per request on either tier (enforced by call budget, see CALL_BUDGET_LIMITS)
  */
 export async function googleRoutesCompute(
-  input: RoutesInput
+  input: RoutesInput,
+  options: CallOptions = {}
 ): Promise<RoutesResult> {
-  // Validate API key
-  if (!GOOGLE_ROUTES_API_KEY) {
-    return {
-      error: "GOOGLE_ROUTES_API_KEY environment variable not set",
-    };
-  }
-
   // Validate input
   const parsed = RoutesInputSchema.safeParse(input);
   if (!parsed.success) {
@@ -135,9 +137,35 @@ export async function googleRoutesCompute(
     };
   }
 
-  const { origin, destination, waypoints, departureTime } = parsed.data;
+  const { origin, destination, waypoints, departureTime, lessWalking } = parsed.data;
   const mode = parsed.data.mode ?? "WALK";
 
+  // Serve from cache when possible (~1m precision so different stops never collide)
+  const point = (p: z.infer<typeof WaypointSchema>) =>
+    p.placeId ?? `${roundCoord(p.lat, 5)},${roundCoord(p.lng, 5)}`;
+  const key = cacheKey({
+    origin: point(origin),
+    destination: point(destination),
+    waypoints: (waypoints ?? []).map(point),
+    mode,
+    departureTime: mode === "TRANSIT" ? departureTime : undefined,
+    lessWalking: mode === "TRANSIT" && lessWalking ? true : undefined,
+  });
+  const cached = cacheGet<RouteResult>("routes", key);
+  if (cached) {
+    return { route: cached, cached: true };
+  }
+  if (options.cacheOnly) {
+    return { error: "Route not cached and call budget is spent" };
+  }
+
+  // Validate API key
+  if (!GOOGLE_ROUTES_API_KEY && isApiKeyRequired()) {
+    return {
+      error: "GOOGLE_ROUTES_API_KEY environment variable not set",
+    };
+  }
+
   // Build request body
   const requestBody: Record<string, unknown> = {
     origin: buildWaypoint(origin),
@@ -163,15 +191,20 @@ export async function googleRoutesCompute(
     requestBody.departureTime = departureTime;
   }
 
+  // The Routes API has no step-free option - fewer walking segments is the closest
+  if (lessWalking && mode === "TRANSIT") {
+    requestBody.transitPreferences = { routingPreference: "LESS_WALKING" };
+  }
+
   // Field mask for response
   const fieldMask = "routes.legs.distanceMeters,routes.legs.duration,routes.distanceMeters,routes.duration";
 
   try {
-    const response = await fetch(ROUTES_URL, {
+    const response = await transportFetch(routesUrl(ROUTES_PATH), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "X-Goog-Api-Key": GOOGLE_ROUTES_API_KEY,
+        "X-Goog-Api-Key": GOOGLE_ROUTES_API_KEY ?? "",
         "X-Goog-FieldMask": fieldMask,
       },
       body: JSON.stringify(requestBody),
@@ -201,22 +234,23 @@ export async function googleRoutesCompute(
 
     const totalDurationSeconds = parseDuration(route.duration);
 
-    return {
-      route: {
-        totalDistanceMeters: route.distanceMeters,
-        totalDurationSeconds,
-        totalDurationMinutes: Math.ceil(totalDurationSeconds / 60),
-        legs: route.legs.map((leg) => {
-          const legDurationSeconds = parseDuration(leg.duration);
-          return {
-            distanceMeters: leg.distanceMeters,
-            durationSeconds: legDurationSeconds,
-            durationMinutes: Math.ceil(legDurationSeconds / 60),
-          };
-        }),
-        mode,
-      },
+    const result: RouteResult = {
+      totalDistanceMeters: route.distanceMeters,
+      totalDurationSeconds,
+      totalDurationMinutes: Math.ceil(totalDurationSeconds / 60),
+      legs: route.legs.map((leg) => {
+        const legDurationSeconds = parseDuration(leg.duration);
+        return {
+          distanceMeters: leg.distanceMeters,
+          durationSeconds: legDurationSeconds,
+          durationMinutes: Math.ceil(legDurationSeconds / 60),
+        };
+      }),
+      mode,
     };
+    cacheSet("routes", key, result);
+
+    return { route: result };
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return {
@@ -231,11 +265,17 @@ export async function googleRoutesCompute(
  *
  * @param stops - Array of locations in order
  * @param mode - Travel mode
+ * @param options - Call options (cacheOnly)
+ * @param departureTime - ISO 8601 departure time (used for transit)
+ * @param lessWalking - Transit routes with the least walking (limited mobility)
  * @returns Route with legs for each segment
  */
 export async function computeItineraryRoute(
   stops: Location[],
-  mode: TravelMode = "WALK"
+  mode: TravelMode = "WALK",
+  options: CallOptions = {},
+  departureTime?: string,
+  lessWalking?: boolean
 ): Promise<RoutesResult> {
   if (stops.length < 2) {
     return {
@@ -258,18 +298,132 @@ export async function computeItineraryRoute(
     destination,
     waypoints: waypoints.length > 0 ? waypoints : undefined,
     mode,
-  });
+    departureTime,
+    lessWalking,
+  }, options);
+}
+
+// A leg of a recorded route, with its endpoints
+export interface RecordedRouteLeg {
+  from: Location;
+  to: Location;
+  mode: TravelMode;
+  distanceMeters: number;
+  durationMinutes: number;
+}
+
+// Endpoint of a recorded request (place-ID-only waypoints have no coordinates)
+function toRecordedLocation(waypoint: unknown): Location | undefined {
+  const latLng = (waypoint as { location?: { latLng?: { latitude?: number; longitude?: number } } })
+    ?.location?.latLng;
+  if (typeof latLng?.latitude !== "number" || typeof latLng.longitude !== "number") {
+    return undefined;
+  }
+  return { lat: latLng.latitude, lng: latLng.longitude };
 }
 
 /**
- * Suggest travel mode based on distance
- * - Walk for < 1.5km
- * - Transit for >= 1.5km
+ * Legs of the successful Routes calls among recorded interactions (see readCassette)
+ * Legs with an endpoint given only by place ID are skipped
  */
-export function suggestTravelMode(distanceMeters: number): TravelMode {
-  if (distanceMeters < 1500) {
+export function getRecordedRouteLegs(interactions: RecordedInteraction[]): RecordedRouteLeg[] {
+  const legs: RecordedRouteLeg[] = [];
+  for (const { request, response } of interactions) {
+    if (!request.url.endsWith(ROUTES_PATH) || response.status !== 200 || !request.body) continue;
+    try {
+      const body = JSON.parse(request.body) as {
+        origin?: unknown;
+        destination?: unknown;
+        intermediates?: unknown[];
+        travelMode?: string;
+      };
+      const route = (JSON.parse(response.body) as GoogleRoutesResponse).routes?.[0];
+      const mode = TravelModeSchema.safeParse(body.travelMode);
+      if (!route || !mode.success) continue;
+
+      const points = [body.origin, ...(body.intermediates ?? []), body.destination].map(
+        toRecordedLocation
+      );
+      route.legs.forEach((leg, i) => {
+        const from = points[i];
+        const to = points[i + 1];
+        if (!from || !to) return;
+        legs.push({
+          from,
+          to,
+          mode: mode.data,
+          distanceMeters: leg.distanceMeters,
+          durationMinutes: Math.ceil(parseDuration(leg.duration) / 60),
+        });
+      });
+    } catch {
+      continue; // Unreadable recording - skip it
+    }
+  }
+  return legs;
+}
+
+// What besides distance decides a leg's mode
+export interface TravelModeOptions {
+  walking?: "low" | "medium" | "high"; // Walking tolerance
+  lateNight?: boolean; // Departing late at night - transit runs thin, no cycling in the dark
+  badWeather?: boolean; // Rain/cold - shorter walks, no cycling
+  mobility?: Mobility; // Limited mobility or wheelchair - capped walks, no cycling
+  cycling?: boolean; // The user asked to get around by bike - cycling is never suggested otherwise
+}
+
+// Longest walk (meters) per walking tolerance
+const MAX_WALK_METERS = {
+  low: 800,
+  medium: 1500,
+  high: 2500,
+};
+
+// Longest walk (meters) with a mobility need, whatever the walking tolerance
+const MOBILITY_MAX_WALK_METERS: Record<Mobility, number> = {
+  full: Infinity,
+  limited: 400,
+  wheelchair: 800,
+};
+
+// Longest bike ride (meters) before transit is the better option
+const MAX_CYCLE_METERS = 6000;
+
+/**
+ * Suggest travel mode for a leg
+ * - Walk up to the walking tolerance (medium: < 1.5km, halved in bad weather), at most
+ *   400m with limited mobility or 800m in a wheelchair
+ * - Taxi (DRIVE) beyond that late at night
+ * - Bicycle up to 6km when the user asked to cycle, unless the weather is bad, walking
+ *   tolerance is low (kids/elderly) or someone has a mobility need
+ * - Transit otherwise
+ *
+ * @param distanceMeters - Street distance of the leg
+ */
+export function suggestTravelMode(
+  distanceMeters: number,
+  options: TravelModeOptions = {}
+): TravelMode {
+  const walking = options.walking ?? "medium";
+  const mobility = options.mobility ?? "full";
+  const maxWalk =
+    Math.min(MAX_WALK_METERS[walking], MOBILITY_MAX_WALK_METERS[mobility]) *
+    (options.badWeather ? 0.5 : 1);
+  if (distanceMeters < maxWalk) {
     return "WALK";
   }
+  if (options.lateNight) {
+    return "DRIVE";
+  }
+  if (
+    options.cycling === true &&
+    !options.badWeather &&
+    walking !== "low" &&
+    mobility === "full" &&
+    distanceMeters <= MAX_CYCLE_METERS
+  ) {
+    return "BICYCLE";
+  }
   return "TRANSIT";
 }
 
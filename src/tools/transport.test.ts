@@ -0,0 +1,83 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { configureTransport, readCassette, transportFetch, type TransportInit } from "./transport.js";
+
+const URL = "https://places.example/v1/places:searchText";
+const search = (textQuery: string): TransportInit => ({
+  method: "POST",
+  headers: { "X-Goog-Api-Key": "secret", "X-Goog-FieldMask": "places.id" },
+  body: JSON.stringify({ textQuery }),
+});
+
+let dir: string;
+let cassettePath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "transport-"));
+  cassettePath = join(dir, "cassette.json");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  configureTransport({ mode: "live" });
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("transportFetch", () => {
+  it("records each exchange without the API key", async () => {
+    const fetch = vi.fn(async () => new Response('{"places":[]}', { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+    configureTransport({ mode: "record", cassettePath });
+
+    const response = await transportFetch(URL, search("tapas"));
+
+    expect(await response.json()).toEqual({ places: [] });
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(readCassette(cassettePath)).toEqual([
+      {
+        request: { method: "POST", url: URL, fieldMask: "places.id", body: '{"textQuery":"tapas"}' },
+        response: { status: 200, body: '{"places":[]}' },
+      },
+    ]);
+    expect(readFileSync(cassettePath, "utf-8")).not.toContain("secret");
+  });
+
+  it("replays recorded responses in order, each once, without the network", async () => {
+    let call = 0;
+    vi.stubGlobal("fetch", async () => new Response(`{"call":${++call}}`, { status: 200 }));
+    configureTransport({ mode: "record", cassettePath });
+    await transportFetch(URL, search("tapas"));
+    await transportFetch(URL, search("tapas"));
+
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+    configureTransport({ mode: "replay", cassettePath });
+
+    expect(await (await transportFetch(URL, search("tapas"))).json()).toEqual({ call: 1 });
+    expect(await (await transportFetch(URL, search("tapas"))).json()).toEqual({ call: 2 });
+    await expect(transportFetch(URL, search("tapas"))).rejects.toThrow("No recorded response");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("fails on a request the cassette doesn't have", async () => {
+    vi.stubGlobal("fetch", async () => new Response("{}", { status: 200 }));
+    configureTransport({ mode: "record", cassettePath });
+    await transportFetch(URL, search("tapas"));
+
+    configureTransport({ mode: "replay", cassettePath });
+
+    await expect(transportFetch(URL, search("sushi"))).rejects.toThrow(
+      `No recorded response for POST ${URL} - the run no longer matches the cassette`
+    );
+  });
+
+  it("fails to replay without a cassette", async () => {
+    configureTransport({ mode: "replay", cassettePath });
+
+    await expect(transportFetch(URL, search("tapas"))).rejects.toThrow("Cassette not found");
+  });
+});
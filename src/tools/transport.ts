@@ -0,0 +1,231 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { z } from "zod";
+
+// Transport modes:
+// - live: plain fetch against the configured base URLs
+// - record: live, plus every request/response pair is appended to the cassette file
+// - replay: responses are served from the cassette file, nothing goes over the network
+export const TransportModeSchema = z.enum(["live", "record", "replay"]);
+export type TransportMode = z.infer<typeof TransportModeSchema>;
+
+export interface TransportConfig {
+  mode: TransportMode;
+  cassettePath?: string;
+  placesBaseUrl: string;
+  routesBaseUrl: string;
+  weatherBaseUrl: string;
+}
+
+// Recorded request/response pair
+const InteractionSchema = z.object({
+  request: z.object({
+    method: z.string(),
+    url: z.string(),
+    fieldMask: z.string().optional(),
+    body: z.string().optional(),
+  }),
+  response: z.object({
+    status: z.number(),
+    body: z.string(),
+  }),
+});
+type Interaction = z.infer<typeof InteractionSchema>;
+export type RecordedInteraction = Interaction;
+
+const CassetteSchema = z.object({
+  version: z.literal(1),
+  interactions: z.array(InteractionSchema),
+});
+type Cassette = z.infer<typeof CassetteSchema>;
+
+// Read transport config from the environment
+function configFromEnv(): TransportConfig {
+  const mode = TransportModeSchema.safeParse(process.env.HTTP_TRANSPORT_MODE ?? "live");
+  const config: TransportConfig = {
+    mode: mode.success ? mode.data : "live",
+    placesBaseUrl: process.env.GOOGLE_PLACES_BASE_URL ?? "https://places.googleapis.com",
+    routesBaseUrl: process.env.GOOGLE_ROUTES_BASE_URL ?? "https://routes.googleapis.com",
+    weatherBaseUrl: process.env.OPEN_METEO_BASE_URL ?? "https://api.open-meteo.com",
+  };
+  if (process.env.HTTP_CASSETTE_PATH) {
+    config.cassettePath = process.env.HTTP_CASSETTE_PATH;
+  }
+  return config;
+}
+
+let config: TransportConfig = configFromEnv();
+let cassette: Cassette | undefined;
+let replayed = new Set<number>();
+
+/**
+ * Override transport settings (e.g., to replay a bug report's cassette)
+ * Resets any loaded cassette state
+ */
+export function configureTransport(overrides: Partial<TransportConfig>): void {
+  config = { ...config, ...overrides };
+  cassette = undefined;
+  replayed = new Set();
+}
+
+/**
+ * Get the active transport config
+ */
+export function getTransportConfig(): TransportConfig {
+  return config;
+}
+
+/**
+ * Build a Places API URL from the configured base (e.g., "/v1/places:searchText")
+ */
+export function placesUrl(path: string): string {
+  return `${config.placesBaseUrl}${path}`;
+}
+
+/**
+ * Build a Routes API URL from the configured base
+ */
+export function routesUrl(path: string): string {
+  return `${config.routesBaseUrl}${path}`;
+}
+
+/**
+ * Build an Open-Meteo API URL from the configured base (e.g., "/v1/forecast")
+ */
+export function weatherUrl(path: string): string {
+  return `${config.weatherBaseUrl}${path}`;
+}
+
+/**
+ * Replayed runs don't need API keys - everything comes from the cassette
+ */
+export function isApiKeyRequired(): boolean {
+  return config.mode !== "replay";
+}
+
+// Load the cassette file (empty cassette when recording a new one)
+function loadCassette(): Cassette {
+  if (cassette) return cassette;
+
+  const path = config.cassettePath;
+  if (!path) {
+    throw new Error(`HTTP_CASSETTE_PATH must be set for ${config.mode} mode`);
+  }
+
+  if (existsSync(path)) {
+    cassette = CassetteSchema.parse(JSON.parse(readFileSync(path, "utf-8")));
+  } else if (config.mode === "replay") {
+    throw new Error(`Cassette not found: ${path}`);
+  } else {
+    cassette = { version: 1, interactions: [] };
+  }
+  return cassette;
+}
+
+/**
+ * Read the interactions recorded in a cassette file (e.g., to calibrate estimates against them)
+ */
+export function readCassette(path: string): RecordedInteraction[] {
+  return CassetteSchema.parse(JSON.parse(readFileSync(path, "utf-8"))).interactions;
+}
+
+// Save after every interaction so a crashed run still leaves a usable cassette
+function saveCassette(): void {
+  if (!cassette || !config.cassettePath) return;
+  mkdirSync(dirname(config.cassettePath), { recursive: true });
+  writeFileSync(config.cassettePath, JSON.stringify(cassette, null, 2));
+}
+
+// Cassette key for a request
+function describeRequest(url: string, init: TransportInit): Interaction["request"] {
+  // The API key is deliberately never written to the cassette
+  const request: Interaction["request"] = { method: init.method, url };
+  const fieldMask = init.headers["X-Goog-FieldMask"];
+  if (fieldMask) request.fieldMask = fieldMask;
+  if (init.body) request.body = init.body;
+  return request;
+}
+
+function sameRequest(a: Interaction["request"], b: Interaction["request"]): boolean {
+  return a.method === b.method && a.url === b.url && a.fieldMask === b.fieldMask && a.body === b.body;
+}
+
+// Find the recorded response for a request - exact matches only, so a replay that
+// drifts from the recording fails instead of quietly serving another call's response
+function findInteraction(request: Interaction["request"]): Interaction | undefined {
+  const { interactions } = loadCassette();
+
+  const index = interactions.findIndex(
+    (it, i) => !replayed.has(i) && sameRequest(it.request, request)
+  );
+  if (index === -1) return undefined;
+
+  replayed.add(index);
+  return interactions[index];
+}
+
+export interface TransportInit {
+  method: "GET" | "POST";
+  headers: Record<string, string>;
+  body?: string;
+}
+
+// Serve a request from the cassette (replay), or send it and record the exchange (record)
+async function exchange(
+  request: Interaction["request"],
+  send: () => Promise<Response>
+): Promise<Response> {
+  if (config.mode === "replay") {
+    const interaction = findInteraction(request);
+    if (!interaction) {
+      // Logged too - the LLM clients wrap thrown errors as a plain "Connection error"
+      const message = `No recorded response for ${request.method} ${request.url} - the run no longer matches the cassette`;
+      console.log(`[transport] ${message}`);
+      throw new Error(message);
+    }
+    return new Response(interaction.response.body, {
+      status: interaction.response.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const response = await send();
+  if (config.mode !== "record") {
+    return response;
+  }
+
+  const body = await response.text();
+  loadCassette().interactions.push({
+    request,
+    response: { status: response.status, body },
+  });
+  saveCassette();
+
+  return new Response(body, {
+    status: response.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * fetch() for Google and Open-Meteo API calls, honouring record/replay mode
+ */
+export async function transportFetch(
+  url: string,
+  init: TransportInit
+): Promise<Response> {
+  return exchange(describeRequest(url, init), () => fetch(url, init));
+}
+
+/**
+ * fetch() for the LLM clients (the OpenAI SDK's fetch option), honouring record/replay mode
+ * Only the method, URL and JSON body are matched - the API key never reaches the cassette
+ */
+export async function llmFetch(
+  url: unknown, // The SDK always passes a string URL
+  init: { method?: string | undefined; body?: unknown } = {}
+): Promise<Response> {
+  const request: Interaction["request"] = { method: init.method ?? "GET", url: String(url) };
+  if (typeof init.body === "string") request.body = init.body;
+  return exchange(request, () => fetch(String(url), init as RequestInit));
+}
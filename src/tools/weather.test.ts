@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { configureCache } from "./cache.js";
+import { openMeteoForecast } from "./weather.js";
+
+const input = {
+  city: "Barcelona",
+  location: { lat: 41.3874, lng: 2.1686 },
+  startsAt: "2026-10-20T16:30:00.000Z",
+  endsAt: "2026-10-20T19:15:00.000Z",
+};
+
+// Open-Meteo's hourly series for the window
+const stubHourly = (hourly: Record<string, (number | null)[]>) => {
+  const fetch = vi.fn(
+    async (_url: string) =>
+      new Response(JSON.stringify({ hourly: { time: ["t1", "t2", "t3", "t4"], ...hourly } }))
+  );
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+};
+
+beforeEach(() => {
+  configureCache({ enabled: false });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("openMeteoForecast", () => {
+  it("asks for the whole hours covering the window", async () => {
+    const fetch = stubHourly({
+      temperature_2m: [15],
+      precipitation_probability: [0],
+      weather_code: [0],
+    });
+
+    await openMeteoForecast(input);
+
+    const params = new URL(String(fetch.mock.calls[0]?.[0])).searchParams;
+    expect(params.get("start_hour")).toBe("2026-10-20T16:00");
+    expect(params.get("end_hour")).toBe("2026-10-20T20:00");
+    expect(params.get("timezone")).toBe("UTC");
+  });
+
+  it("summarises the window by its worst hour", async () => {
+    stubHourly({
+      temperature_2m: [16.4, 15.2, 13.6, null],
+      precipitation_probability: [10, 70, null, 40],
+      weather_code: [1, 61, 3, 45],
+    });
+
+    const { forecast } = await openMeteoForecast(input);
+
+    expect(forecast).toEqual({ condition: "rain", precipitationChance: 70, temperatureC: [14, 16] });
+  });
+
+  it("ranks storms above rain", async () => {
+    stubHourly({
+      temperature_2m: [20, 19, 18, 18],
+      precipitation_probability: [50, 50, 50, 50],
+      weather_code: [63, 95, 2, 0],
+    });
+
+    const { forecast } = await openMeteoForecast(input);
+
+    expect(forecast?.condition).toBe("storm");
+  });
+
+  it("fails a window beyond the forecast range", async () => {
+    stubHourly({
+      temperature_2m: [null, null, null, null],
+      precipitation_probability: [null, null, null, null],
+      weather_code: [null, null, null, null],
+    });
+
+    const result = await openMeteoForecast(input);
+
+    expect(result.forecast).toBeUndefined();
+    expect(result.error).toBe("No forecast for that window (too far ahead?)");
+  });
+});
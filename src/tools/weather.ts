@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { LocationSchema, type Forecast, type WeatherCondition } from "../types/index.js";
+import { transportFetch, weatherUrl } from "./transport.js";
+import { cacheGet, cacheSet, cacheKey, roundCoord, type CallOptions } from "./cache.js";
+
+// Open-Meteo forecast endpoint path (base URL comes from the transport config)
+const FORECAST_PATH = "/v1/forecast";
+
+// Input schema
+export const ForecastInputSchema = z.object({
+  city: z.string().min(1),
+  location: LocationSchema,
+  date: z.string().optional(), // YYYY-MM-DD local date the outing starts
+  startsAt: z.string().datetime(), // ISO 8601 instant
+  endsAt: z.string().datetime(),
+});
+export type ForecastInput = z.infer<typeof ForecastInputSchema>;
+
+// Output type
+export interface ForecastResult {
+  forecast?: Forecast;
+  error?: string;
+  cached?: boolean; // Served from the persistent cache (no API call made)
+}
+
+// Hourly series Open-Meteo returns for the requested variables
+const OpenMeteoResponseSchema = z.object({
+  hourly: z.object({
+    time: z.array(z.string()),
+    temperature_2m: z.array(z.number().nullable()),
+    precipitation_probability: z.array(z.number().nullable()),
+    weather_code: z.array(z.number().nullable()),
+  }),
+});
+
+// Conditions from mildest to worst (the window reports its worst hour)
+const CONDITION_SEVERITY: WeatherCondition[] = ["clear", "cloudy", "fog", "rain", "snow", "storm"];
+
+// Map a WMO weather code to a condition
+function toCondition(code: number): WeatherCondition {
+  if (code >= 95) return "storm";
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "snow";
+  if (code >= 51) return "rain"; // Drizzle, rain, freezing rain, showers
+  if (code === 45 || code === 48) return "fog";
+  if (code >= 2) return "cloudy";
+  return "clear";
+}
+
+// Open-Meteo takes whole hours in the requested timezone ("2026-10-20T18:00")
+function toUtcHour(instant: string, roundUp: boolean = false): string {
+  const ms = Date.parse(instant);
+  const hour = 60 * 60 * 1000;
+  const rounded = roundUp ? Math.ceil(ms / hour) * hour : Math.floor(ms / hour) * hour;
+  return new Date(rounded).toISOString().slice(0, 16);
+}
+
+/**
+ * Hourly forecast for a location over a window, summarised to its worst hour
+ *
+ * Free, no API key - forecasts reach about 16 days ahead
+ */
+export async function openMeteoForecast(
+  input: ForecastInput,
+  options: CallOptions = {}
+): Promise<ForecastResult> {
+  // Validate input
+  const parsed = ForecastInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      error: `Invalid input: ${parsed.error.message}`,
+    };
+  }
+
+  const { location, startsAt, endsAt } = parsed.data;
+  const startHour = toUtcHour(startsAt);
+  const endHour = toUtcHour(endsAt, true);
+
+  // Serve from cache when possible (~1km precision - forecasts are on a coarser grid)
+  const key = cacheKey({
+    lat: roundCoord(location.lat, 2),
+    lng: roundCoord(location.lng, 2),
+    startHour,
+    endHour,
+  });
+  const cached = cacheGet<Forecast>("forecast", key);
+  if (cached) {
+    return { forecast: cached, cached: true };
+  }
+  if (options.cacheOnly) {
+    return { error: "Forecast not cached" };
+  }
+
+  const params = new URLSearchParams({
+    latitude: location.lat.toString(),
+    longitude: location.lng.toString(),
+    hourly: "temperature_2m,precipitation_probability,weather_code",
+    timezone: "UTC",
+    start_hour: startHour,
+    end_hour: endHour,
+  });
+
+  try {
+    const response = await transportFetch(`${weatherUrl(FORECAST_PATH)}?${params.toString()}`, {
+      method: "GET",
+      headers: {},
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return {
+        error: `Open-Meteo API error (${response.status}): ${errorText}`,
+      };
+    }
+
+    const data = OpenMeteoResponseSchema.safeParse(await response.json());
+    if (!data.success) {
+      return {
+        error: `Unexpected Open-Meteo response: ${data.error.message}`,
+      };
+    }
+
+    const { temperature_2m, precipitation_probability, weather_code } = data.data.hourly;
+    const temperatures = temperature_2m.filter((t): t is number => t !== null);
+    const codes = weather_code.filter((c): c is number => c !== null);
+    if (temperatures.length === 0 || codes.length === 0) {
+      return {
+        error: "No forecast for that window (too far ahead?)",
+      };
+    }
+
+    const forecast: Forecast = {
+      condition: codes
+        .map(toCondition)
+        .reduce((worst, c) =>
+          CONDITION_SEVERITY.indexOf(c) > CONDITION_SEVERITY.indexOf(worst) ? c : worst
+        ),
+      precipitationChance: Math.max(0, ...precipitation_probability.map((p) => p ?? 0)),
+      temperatureC: [Math.round(Math.min(...temperatures)), Math.round(Math.max(...temperatures))],
+    };
+    cacheSet("forecast", key, forecast);
+
+    return { forecast };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return {
+      error: `Failed to fetch forecast: ${message}`,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import {
+  BudgetSchema,
+  LocationSchema,
+  BookingChecklistItemSchema,
+  BudgetBreakdownSchema,
+  CallBudgetSchema,
+  CacheStatsSchema,
+  TravelModeSchema,
+  TravelSourceSchema,
+  WeatherConditionSchema,
+} from "./state.js";
+
+// Structured plan payload (PRD API contract, snake_case) - bump the version on breaking changes
+export const PLAN_OUTPUT_VERSION = 1;
+
+const CostRangeSchema = z.tuple([z.number(), z.number()]); // [min, max]
+
+// A stop as the app renders it
+export const OutputStopSchema = z.object({
+  time: z.string(), // HH:MM local time
+  starts_at: z.string().optional(), // ISO 8601 instant (when the date is known)
+  duration_mins: z.number(),
+  label: z.string(),
+  name: z.string(),
+  place_id: z.string(),
+  category: z.string(),
+  address: z.string(),
+  location: LocationSchema,
+  maps_url: z.string().url(),
+  estimated_cost_range: CostRangeSchema, // Per person, in summary.budget_target.currency
+  travel_from_prev_mins: z.number(),
+  travel_mode: TravelModeSchema.optional(), // Mode of the leg from the previous stop; unset on the first stop
+  travel_source: TravelSourceSchema.optional(), // "measured" (routed) or "estimated"; unset on the first stop
+  rating: z.number().optional(),
+  review_count: z.number().optional(),
+  price_level: z.number().optional(),
+  open_check: z.string(),
+  dietary_check: z.string().optional(), // Dinner stops, when the user has dietary restrictions
+  accessibility_check: z.string().optional(), // When someone in the party has a mobility need
+  why_it_fits: z.string(),
+  description: z.string().optional(), // LLM-written blurb on the venue, grounded in its data
+  fulfils_request: z.string().optional(), // Requested activity this stop fulfils
+});
+export type OutputStop = z.infer<typeof OutputStopSchema>;
+
+export const OutputBackupSchema = z.object({
+  label: z.string(),
+  name: z.string(),
+  maps_url: z.string().url(),
+  why_backup: z.string(),
+});
+
+export const OutputPlanSchema = z.object({
+  id: z.enum(["A", "B", "C"]),
+  title: z.string(),
+  stops: z.array(OutputStopSchema),
+  backups: z.array(OutputBackupSchema),
+  warnings: z.array(z.string()), // Stops shortened/dropped, unmet requests, ...
+  estimated_total_range: CostRangeSchema, // Whole party
+  route_url: z.string().url(),
+});
+export type OutputPlan = z.infer<typeof OutputPlanSchema>;
+
+// A swap menu entry, with the ready-made alternate plan to apply (if it changes anything)
+export const OutputSwapSchema = z.object({
+  swap: z.string(),
+  instruction: z.string(),
+  plan: OutputPlanSchema.optional(),
+});
+export type OutputSwap = z.infer<typeof OutputSwapSchema>;
+
+// Forecast for the outing's window
+export const OutputWeatherSchema = z.object({
+  condition: WeatherConditionSchema, // Worst hour in the window
+  precipitation_chance: z.number(), // %
+  temperature_c: z.tuple([z.number(), z.number()]), // [min, max]
+  bad_weather: z.boolean(), // The plans favour indoor stops
+  note: z.string(), // What the forecast means for Plan A
+});
+export type OutputWeather = z.infer<typeof OutputWeatherSchema>;
+
+export const PlanOutputSchema = z.object({
+  version: z.literal(PLAN_OUTPUT_VERSION),
+  summary: z.object({
+    city: z.string(),
+    date: z.string().optional(), // YYYY-MM-DD
+    time_window: z.string().optional(), // HH:MM-HH:MM
+    timezone: z.string(),
+    starts_at: z.string().optional(), // ISO 8601 instant
+    ends_at: z.string().optional(),
+    party_size: z.number(),
+    budget_target: BudgetSchema,
+    estimated_total_range: CostRangeSchema, // Plan A, whole party
+    revision: z.number(), // 1 for the first plans, +1 per refinement in the thread
+    revision_note: z.string().optional(), // What the latest refinement changed
+    weather: OutputWeatherSchema.optional(), // When the weather provider had a forecast
+  }),
+  plans: z.array(OutputPlanSchema),
+  previous_plans: z.array(OutputPlanSchema), // Plans before the latest refinement
+  swap_menu: z.array(OutputSwapSchema),
+  booking_checklist: z.array(BookingChecklistItemSchema),
+  budget_breakdown: BudgetBreakdownSchema.optional(),
+  call_budget_used: CallBudgetSchema,
+  cache_stats: CacheStatsSchema,
+});
+export type PlanOutput = z.infer<typeof PlanOutputSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { PlanOutput } from "./output.js";
 
 // Budget schema
 export const BudgetSchema = z.object({
@@ -7,15 +8,21 @@ export const BudgetSchema = z.object({
 });
 export type Budget = z.infer<typeof BudgetSchema>;
 
+// Mobility needs in the party: full (none), limited (can't walk far or manage stairs), wheelchair
+export const MobilitySchema = z.enum(["full", "limited", "wheelchair"]);
+export type Mobility = z.infer<typeof MobilitySchema>;
+
 // Preferences schema
 export const PreferencesSchema = z.object({
   vibe: z.array(z.string()).default([]),
   dietary: z.array(z.string()).default([]),
   alcoholOk: z.boolean().default(true),
   walking: z.enum(["low", "medium", "high"]).default("medium"),
+  mobility: MobilitySchema.default("full"),
   indoorsPreferred: z.boolean().default(false),
   likes: z.array(z.string()).default([]),
   familyFriendly: z.boolean().default(false),
+  cycling: z.boolean().default(false), // Asked to cycle between stops - never suggested otherwise
 });
 export type Preferences = z.infer<typeof PreferencesSchema>;
 
@@ -26,6 +33,43 @@ export const LocationSchema = z.object({
 });
 export type Location = z.infer<typeof LocationSchema>;
 
+// Opening hours period (from Google Place Details)
+export const OpeningPeriodSchema = z.object({
+  openDay: z.number().min(0).max(6), // 0-6 (Sunday-Saturday)
+  openTime: z.string(), // HH:MM
+  closeDay: z.number().min(0).max(6).optional(),
+  closeTime: z.string().optional(), // HH:MM
+});
+export type OpeningPeriod = z.infer<typeof OpeningPeriodSchema>;
+
+// Whether a venue is still trading (Google Places businessStatus)
+export const BusinessStatusSchema = z.enum(["OPERATIONAL", "CLOSED_TEMPORARILY", "CLOSED_PERMANENTLY"]);
+export type BusinessStatus = z.infer<typeof BusinessStatusSchema>;
+
+// Wheelchair access (Google Places accessibilityOptions) - unset fields are unknown
+export const AccessibilityOptionsSchema = z.object({
+  wheelchairAccessibleEntrance: z.boolean().optional(),
+  wheelchairAccessibleRestroom: z.boolean().optional(),
+  wheelchairAccessibleSeating: z.boolean().optional(),
+  wheelchairAccessibleParking: z.boolean().optional(),
+});
+export type AccessibilityOptions = z.infer<typeof AccessibilityOptionsSchema>;
+
+// Venue attributes from the extended Place Details field mask - unset when unknown or not fetched
+export const VenueAttributesSchema = z.object({
+  reservable: z.boolean().optional(),
+  outdoorSeating: z.boolean().optional(),
+  goodForChildren: z.boolean().optional(),
+  goodForGroups: z.boolean().optional(),
+  servesBeer: z.boolean().optional(),
+  servesWine: z.boolean().optional(),
+  servesCocktails: z.boolean().optional(),
+  editorialSummary: z.string().optional(), // Google's one-line description of the place
+  accessibility: AccessibilityOptionsSchema.optional(),
+  businessStatus: BusinessStatusSchema.optional(),
+});
+export type VenueAttributes = z.infer<typeof VenueAttributesSchema>;
+
 // Venue schema (from Google Places)
 export const VenueSchema = z.object({
   name: z.string(),
@@ -37,10 +81,20 @@ export const VenueSchema = z.object({
   rating: z.number().min(0).max(5).optional(),
   reviewCount: z.number().optional(),
   openingHours: z.record(z.string()).optional(),
+  openingPeriods: z.array(OpeningPeriodSchema).optional(), // Only set once details with hours are fetched
+  servesVegetarianFood: z.boolean().optional(), // Only set once details with dietary attributes are fetched
   category: z.string(),
-});
+}).merge(VenueAttributesSchema);
 export type Venue = z.infer<typeof VenueSchema>;
 
+// Travel modes (Google Routes API names)
+export const TravelModeSchema = z.enum(["WALK", "BICYCLE", "TRANSIT", "DRIVE"]);
+export type TravelMode = z.infer<typeof TravelModeSchema>;
+
+// How a leg's travel time was obtained: a computed route or the calibrated estimate
+export const TravelSourceSchema = z.enum(["measured", "estimated"]);
+export type TravelSource = z.infer<typeof TravelSourceSchema>;
+
 // Stop schema (a stop in the itinerary)
 export const StopSchema = z.object({
   time: z.string(), // HH:MM format
@@ -48,11 +102,23 @@ export const StopSchema = z.object({
   venue: VenueSchema,
   estimatedCostRange: z.tuple([z.number(), z.number()]), // [min, max] per person
   whyItFits: z.string(),
+  description: z.string().optional(), // LLM-written blurb on the venue (unset: the reply falls back to heuristics)
   travelFromPrevMins: z.number(),
-  openCheck: z.string(), // "Standard (confirm in Maps)" or "Verified: Open at [time]"
+  travelMode: TravelModeSchema.optional(), // How to get here from the previous stop; unset on the first stop
+  travelSource: TravelSourceSchema.optional(), // Unset on the first stop
+  durationMins: z.number(), // Planned time spent at the stop
+  openCheck: z.string(), // "Standard (confirm hours in Maps)", "Verified: open at HH:MM" or why the stop changed
+  request: z.string().optional(), // Requested activity this stop fulfils (e.g., "bowling")
 });
 export type Stop = z.infer<typeof StopSchema>;
 
+// LLM-written blurb for a venue, grounded in its data and the user's vibes/likes
+export const VenueBlurbSchema = z.object({
+  description: z.string(),
+  whyItFits: z.string(),
+});
+export type VenueBlurb = z.infer<typeof VenueBlurbSchema>;
+
 // Backup venue schema
 export const BackupSchema = z.object({
   label: z.string(), // e.g., "Dinner backup", "Activity backup"
@@ -68,35 +134,92 @@ export const PlanSchema = z.object({
   title: z.string(),
   stops: z.array(StopSchema),
   backups: z.array(BackupSchema),
+  notes: z.array(z.string()).default([]), // e.g., stops shortened or dropped to fit the time window
 });
 export type Plan = z.infer<typeof PlanSchema>;
 
 // Call budget tracking
 export const CallBudgetSchema = z.object({
   placesSearch: z.number().default(0),
+  geocode: z.number().default(0), // City-center lookups (a Text Search call, kept off the slot searches)
   placeDetails: z.number().default(0),
+  placeHours: z.number().default(0), // validate_hours lookups for Plan B/C stops and replacements
   routes: z.number().default(0),
+  forecast: z.number().default(0), // Weather provider calls (Open-Meteo is free, but still a call)
 });
 export type CallBudget = z.infer<typeof CallBudgetSchema>;
 
-// Call budget limits (from PRD)
-export const CALL_BUDGET_LIMITS = {
-  placesSearch: 3,
-  placeDetails: 6,
-  routes: 2,
-} as const;
+// Call budget tier - free requests get fewer Google calls than paid ones
+export const CallBudgetTierSchema = z.enum(["free", "paid"]);
+export type CallBudgetTier = z.infer<typeof CallBudgetTierSchema>;
+
+export type CallBudgetLimits = Record<keyof CallBudget, number>;
+
+// Persistent cache hits/misses per call type (hits don't spend the call budget)
+export const CacheCounterSchema = z.object({
+  hits: z.number().default(0),
+  misses: z.number().default(0),
+});
+export type CacheCounter = z.infer<typeof CacheCounterSchema>;
+
+export const CacheStatsSchema = z.object({
+  placesSearch: CacheCounterSchema,
+  geocode: CacheCounterSchema,
+  placeDetails: CacheCounterSchema,
+  placeHours: CacheCounterSchema,
+  routes: CacheCounterSchema,
+  forecast: CacheCounterSchema,
+});
+export type CacheStats = z.infer<typeof CacheStatsSchema>;
+
+// Call budget limits per tier (from PRD: < €0.20 Google API spend per request), counting
+// every call type - see getWorstCaseCost. Worst case with nothing cached (cache hits
+// don't spend budget, forecasts are free):
+// free: (2 + 1) × $0.032 + (1 + 1) × $0.025 + 1 × $0.01 ≈ $0.16 (≈ €0.14)
+// paid: (3 + 1) × $0.032 + (2 + 1) × $0.025 + 1 × $0.01 ≈ $0.21 (≈ €0.20)
+export const CALL_BUDGET_LIMITS: Record<CallBudgetTier, CallBudgetLimits> = {
+  free: {
+    placesSearch: 2,
+    geocode: 1,
+    placeDetails: 1,
+    placeHours: 1,
+    routes: 1,
+    forecast: 1,
+  },
+  paid: {
+    placesSearch: 3,
+    geocode: 1,
+    placeDetails: 2,
+    placeHours: 1,
+    routes: 1,
+    forecast: 1,
+  },
+};
 
 // Swap menu item
 export const SwapMenuItemSchema = z.object({
-  swap: z.string(), // e.g., "rain_mode", "budget_lower", "no_alcohol", "more_walkable"
+  swap: z.string(), // e.g., "rain_mode", "outdoor_mode", "budget_lower", "no_alcohol", "more_walkable"
   instruction: z.string(),
+  plan: PlanSchema.optional(), // Plan A with the swap applied (re-timed, hours and budget checked) - absent if nothing changes
 });
 export type SwapMenuItem = z.infer<typeof SwapMenuItemSchema>;
 
-// Budget breakdown
+// Estimated spend of one plan (whole party, in the budget's currency)
+export const PlanBudgetSchema = z.object({
+  planId: z.string(),
+  total: z.tuple([z.number(), z.number()]), // [min, max]
+  byCategory: z.record(z.tuple([z.number(), z.number()])), // Venue category: [min, max]
+  overBy: z.number().optional(), // Mid-range estimate minus the budget, when over it
+  suggestion: z.string().optional(), // Stop to swap (or skip) to get back within budget
+});
+export type PlanBudget = z.infer<typeof PlanBudgetSchema>;
+
+// Budget breakdown (whole party, in the budget's currency)
 export const BudgetBreakdownSchema = z.object({
+  budget: z.number(), // budget.amount
   planATotal: z.tuple([z.number(), z.number()]), // [min, max]
-  byCategory: z.record(z.tuple([z.number(), z.number()])),
+  byCategory: z.record(z.tuple([z.number(), z.number()])), // Plan A
+  plans: z.array(PlanBudgetSchema),
 });
 export type BudgetBreakdown = z.infer<typeof BudgetBreakdownSchema>;
 
@@ -108,13 +231,28 @@ export const BookingChecklistItemSchema = z.object({
 });
 export type BookingChecklistItem = z.infer<typeof BookingChecklistItemSchema>;
 
+// Weather over the outing's window (worst hour wins)
+export const WeatherConditionSchema = z.enum(["clear", "cloudy", "fog", "rain", "snow", "storm"]);
+export type WeatherCondition = z.infer<typeof WeatherConditionSchema>;
+
+export const ForecastSchema = z.object({
+  condition: WeatherConditionSchema,
+  precipitationChance: z.number().min(0).max(100), // Highest hourly chance in the window (%)
+  temperatureC: z.tuple([z.number(), z.number()]), // [min, max] over the window
+});
+export type Forecast = z.infer<typeof ForecastSchema>;
+
 // Itinerary skeleton slot
+export const SlotTypeSchema = z.enum(["drinks", "activity", "dinner", "dessert", "scenic"]);
+export type SlotType = z.infer<typeof SlotTypeSchema>;
+
 export const SkeletonSlotSchema = z.object({
   label: z.string(),
-  type: z.enum(["drinks", "activity", "dinner", "dessert", "scenic"]),
+  type: SlotTypeSchema,
   budgetPercent: z.number().min(0).max(100),
   timeStart: z.string().optional(), // HH:MM
   durationMins: z.number().optional(),
+  request: z.string().optional(), // Requested activity this slot serves (e.g., "bowling"); activity slots with one get their own pool
 });
 export type SkeletonSlot = z.infer<typeof SkeletonSlotSchema>;
 
@@ -129,15 +267,20 @@ export const SkeletonSchema = z.object({
 });
 export type Skeleton = z.infer<typeof SkeletonSchema>;
 
-// Candidate pools (venues grouped by category)
+// Candidate pools (venues grouped by the skeleton slot type they were searched for)
 export const CandidatePoolsSchema = z.object({
+  drinks: z.array(VenueSchema).default([]),
   activity: z.array(VenueSchema).default([]),
   dinner: z.array(VenueSchema).default([]),
-  finish: z.array(VenueSchema).default([]),
+  dessert: z.array(VenueSchema).default([]),
+  scenic: z.array(VenueSchema).default([]),
+  // One pool per requested activity, keyed by normalized request (e.g., "bowling")
+  requested: z.record(z.string(), z.array(VenueSchema)).default({}),
 });
 export type CandidatePools = z.infer<typeof CandidatePoolsSchema>;
 
-// Agent mode
+// Agent mode: standard estimates travel offline (no Routes calls), verified routes legs
+// and checks opening hours
 export const ModeSchema = z.enum(["standard", "verified"]);
 export type Mode = z.infer<typeof ModeSchema>;
 
@@ -152,6 +295,8 @@ export interface AgentState {
   dateContext: string;
   dateResolved?: string; // YYYY-MM-DD
   timeWindow?: string; // HH:MM-HH:MM
+  startsAt?: string; // ISO 8601 instant the outing starts (from dateResolved + timeWindow + timezone)
+  endsAt?: string; // ISO 8601 instant the outing ends
   budget: Budget;
   partySize: number;
   preferences: Preferences;
@@ -166,17 +311,28 @@ export interface AgentState {
   skeleton?: Skeleton;
   candidatePools: CandidatePools;
   selectedVenues: Record<string, Venue>;
-  travelTimes: Record<string, number>; // "placeId1->placeId2": minutes
+  detailedVenues: Record<string, Venue>; // Venues with Place Details fetched in this thread, by placeId
+  refreshSlots: string[]; // Slot types / requested activities a refinement needs searched again
+  travelTimes: Record<string, number>; // "MODE:placeId1->placeId2": minutes from computed routes (measured)
+  travelCalibration: number; // Measured ÷ estimated minutes on routed legs, applied to estimated legs
+  weather?: Forecast; // Forecast for the city and window, when the weather provider has one
+  blurbs: Record<string, VenueBlurb>; // LLM-written blurbs by placeId, kept across refinements
 
   // Output
   plans: Plan[];
+  previousPlans: Plan[]; // Plans before the latest refinement, for comparison
+  revision: number; // 1 for the first plans, +1 per refinement
+  revisionNote?: string; // What the latest refinement changed
   budgetBreakdown?: BudgetBreakdown;
   bookingChecklist: BookingChecklistItem[];
   swapMenu: SwapMenuItem[];
   callBudget: CallBudget;
+  cacheStats: CacheStats;
+  output?: PlanOutput; // Structured payload built by policy_gate
 
   // Control flow
   error?: string;
+  rerunFrom?: string; // First node a refinement re-runs
 }
 
 // Input request schema (for API validation)
@@ -223,21 +379,41 @@ export function createInitialState(input: AgentInput): AgentState {
 
     // Processing - initialized empty
     candidatePools: {
+      drinks: [],
       activity: [],
       dinner: [],
-      finish: [],
+      dessert: [],
+      scenic: [],
+      requested: {},
     },
     selectedVenues: {},
+    detailedVenues: {},
+    refreshSlots: [],
     travelTimes: {},
+    travelCalibration: 1,
+    blurbs: {},
 
     // Output - initialized empty
     plans: [],
+    previousPlans: [],
+    revision: 1,
     bookingChecklist: [],
     swapMenu: [],
     callBudget: {
       placesSearch: 0,
+      geocode: 0,
       placeDetails: 0,
+      placeHours: 0,
       routes: 0,
+      forecast: 0,
+    },
+    cacheStats: {
+      placesSearch: { hits: 0, misses: 0 },
+      geocode: { hits: 0, misses: 0 },
+      placeDetails: { hits: 0, misses: 0 },
+      placeHours: { hits: 0, misses: 0 },
+      routes: { hits: 0, misses: 0 },
+      forecast: { hits: 0, misses: 0 },
     },
   };
 }